@@ -0,0 +1,21 @@
+CREATE TABLE "payroll_records" (
+	"payroll_id" varchar(21) PRIMARY KEY NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"work_date" date NOT NULL,
+	"check_in_at" timestamp NOT NULL,
+	"check_out_at" timestamp NOT NULL,
+	"worked_minutes" integer NOT NULL,
+	"hourly_rate" integer NOT NULL,
+	"calculated_amount" integer NOT NULL,
+	"adjusted_amount" integer,
+	"adjustment_reason" text,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"approved_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "payroll_records" ADD CONSTRAINT "payroll_records_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payroll_records" ADD CONSTRAINT "payroll_records_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "payroll_records_gig_worker_date_index" ON "payroll_records" USING btree ("gig_id","worker_id","work_date");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "gig_shifts" (
+	"shift_id" varchar(21) PRIMARY KEY NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"work_date" date NOT NULL,
+	"time_start" varchar(20) NOT NULL,
+	"time_end" varchar(20) NOT NULL,
+	"headcount" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "gig_shifts" ADD CONSTRAINT "gig_shifts_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "gig_shifts_gig_date_index" ON "gig_shifts" USING btree ("gig_id","work_date");--> statement-breakpoint
+INSERT INTO "gig_shifts" ("shift_id", "gig_id", "work_date", "time_start", "time_end")
+SELECT substr(md5(random()::text || g."gig_id" || d::text), 1, 21), g."gig_id", d::date, g."time_start", g."time_end"
+FROM "gigs" g
+CROSS JOIN LATERAL generate_series(g."date_start"::timestamp, g."date_end"::timestamp, interval '1 day') AS d;
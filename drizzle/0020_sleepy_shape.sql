@@ -0,0 +1,20 @@
+CREATE TABLE "gig_waitlist" (
+	"waitlist_id" varchar(21) PRIMARY KEY NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"application_id" varchar(21) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "gig_waitlist_application_id_unique" UNIQUE("application_id")
+);
+--> statement-breakpoint
+ALTER TABLE "gigs" ADD COLUMN "headcount" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "gig_waitlist" ADD CONSTRAINT "gig_waitlist_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gig_waitlist" ADD CONSTRAINT "gig_waitlist_application_id_gig_applications_application_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."gig_applications"("application_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "gig_waitlist_gig_created_index" ON "gig_waitlist" USING btree ("gig_id","created_at");--> statement-breakpoint
+UPDATE "gigs" g SET "headcount" = occupied.count
+FROM (
+	SELECT "gig_id", COUNT(*)::int AS count
+	FROM "gig_applications"
+	WHERE "status" IN ('pending_worker_confirmation', 'worker_confirmed')
+	GROUP BY "gig_id"
+) AS occupied
+WHERE g."gig_id" = occupied."gig_id" AND occupied.count > 1;
@@ -0,0 +1,10 @@
+ALTER TABLE "attendance_records" ALTER COLUMN "attendance_code_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "check_method" varchar DEFAULT 'code' NOT NULL;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "distance_meters" integer;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "review_status" varchar DEFAULT 'not_required' NOT NULL;--> statement-breakpoint
+ALTER TABLE "attendance_records" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "gigs" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "gigs" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "gigs" ADD COLUMN "geofence_radius" integer DEFAULT 200 NOT NULL;
\ No newline at end of file
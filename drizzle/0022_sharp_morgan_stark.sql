@@ -0,0 +1 @@
+ALTER TABLE "gigs" ADD COLUMN "attendance_secret" varchar(64);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "attendance_corrections" (
+	"correction_id" varchar(21) PRIMARY KEY NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"record_id" varchar(21),
+	"work_date" date NOT NULL,
+	"check_type" varchar NOT NULL,
+	"claimed_at" timestamp NOT NULL,
+	"reason" text NOT NULL,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"original_values" json,
+	"corrected_values" json,
+	"review_notes" text,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "attendance_corrections" ADD CONSTRAINT "attendance_corrections_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_corrections" ADD CONSTRAINT "attendance_corrections_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attendance_corrections" ADD CONSTRAINT "attendance_corrections_record_id_attendance_records_record_id_fk" FOREIGN KEY ("record_id") REFERENCES "public"."attendance_records"("record_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attendance_corrections_gig_status_index" ON "attendance_corrections" USING btree ("gig_id","status");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "no_show_records" (
+	"no_show_id" varchar(21) PRIMARY KEY NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"application_id" varchar(21) NOT NULL,
+	"work_date" date NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "no_show_records" ADD CONSTRAINT "no_show_records_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "no_show_records" ADD CONSTRAINT "no_show_records_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "no_show_records" ADD CONSTRAINT "no_show_records_application_id_gig_applications_application_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."gig_applications"("application_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "no_show_records_gig_worker_date_index" ON "no_show_records" USING btree ("gig_id","worker_id","work_date");--> statement-breakpoint
+CREATE INDEX "no_show_records_worker_index" ON "no_show_records" USING btree ("worker_id");
\ No newline at end of file
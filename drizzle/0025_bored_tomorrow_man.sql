@@ -0,0 +1,12 @@
+CREATE TABLE "cron_job_runs" (
+	"run_id" varchar(21) PRIMARY KEY NOT NULL,
+	"job_name" varchar(64) NOT NULL,
+	"source" varchar NOT NULL,
+	"status" varchar DEFAULT 'running' NOT NULL,
+	"result" json,
+	"error_message" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "cron_job_runs_job_started_index" ON "cron_job_runs" USING btree ("job_name","started_at");
\ No newline at end of file
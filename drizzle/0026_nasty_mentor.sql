@@ -0,0 +1,13 @@
+CREATE TABLE "application_status_history" (
+	"history_id" varchar(21) PRIMARY KEY NOT NULL,
+	"application_id" varchar(21) NOT NULL,
+	"from_status" varchar(32),
+	"to_status" varchar(32) NOT NULL,
+	"actor_type" varchar NOT NULL,
+	"actor_id" varchar(21),
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_status_history" ADD CONSTRAINT "application_status_history_application_id_gig_applications_application_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."gig_applications"("application_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "application_status_history_application_index" ON "application_status_history" USING btree ("application_id","created_at");
\ No newline at end of file
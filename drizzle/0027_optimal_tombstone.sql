@@ -0,0 +1,17 @@
+CREATE TABLE "application_cancellations" (
+	"cancellation_id" varchar(21) PRIMARY KEY NOT NULL,
+	"application_id" varchar(21) NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"reason" text NOT NULL,
+	"minutes_before_shift" integer NOT NULL,
+	"is_late" boolean NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "application_cancellations_application_id_unique" UNIQUE("application_id")
+);
+--> statement-breakpoint
+ALTER TABLE "gigs" ADD COLUMN "free_cancellation_hours" integer DEFAULT 24 NOT NULL;--> statement-breakpoint
+ALTER TABLE "application_cancellations" ADD CONSTRAINT "application_cancellations_application_id_gig_applications_application_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."gig_applications"("application_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_cancellations" ADD CONSTRAINT "application_cancellations_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "application_cancellations" ADD CONSTRAINT "application_cancellations_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "application_cancellations_worker_index" ON "application_cancellations" USING btree ("worker_id");
\ No newline at end of file
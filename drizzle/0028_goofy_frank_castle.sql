@@ -0,0 +1,19 @@
+CREATE TABLE "gig_invitations" (
+	"invitation_id" varchar(21) PRIMARY KEY NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"employer_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"message" text,
+	"status" varchar DEFAULT 'pending' NOT NULL,
+	"application_id" varchar(21),
+	"responded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "gig_invitations" ADD CONSTRAINT "gig_invitations_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gig_invitations" ADD CONSTRAINT "gig_invitations_employer_id_employers_employer_id_fk" FOREIGN KEY ("employer_id") REFERENCES "public"."employers"("employer_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gig_invitations" ADD CONSTRAINT "gig_invitations_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gig_invitations" ADD CONSTRAINT "gig_invitations_application_id_gig_applications_application_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."gig_applications"("application_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "gig_invitations_worker_status_index" ON "gig_invitations" USING btree ("worker_id","status");--> statement-breakpoint
+CREATE INDEX "gig_invitations_gig_index" ON "gig_invitations" USING btree ("gig_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "talent_pool_entries" (
+	"entry_id" varchar(21) PRIMARY KEY NOT NULL,
+	"employer_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"tags" json DEFAULT '[]'::json NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "talent_pool_entries" ADD CONSTRAINT "talent_pool_entries_employer_id_employers_employer_id_fk" FOREIGN KEY ("employer_id") REFERENCES "public"."employers"("employer_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "talent_pool_entries" ADD CONSTRAINT "talent_pool_entries_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "talent_pool_entries_employer_worker_unique" ON "talent_pool_entries" USING btree ("employer_id","worker_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "employer_blocks" (
+	"block_id" varchar(21) PRIMARY KEY NOT NULL,
+	"employer_id" varchar(21) NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "employer_blocks" ADD CONSTRAINT "employer_blocks_employer_id_employers_employer_id_fk" FOREIGN KEY ("employer_id") REFERENCES "public"."employers"("employer_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "employer_blocks" ADD CONSTRAINT "employer_blocks_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "employer_blocks_employer_worker_unique" ON "employer_blocks" USING btree ("employer_id","worker_id");--> statement-breakpoint
+CREATE INDEX "employer_blocks_worker_index" ON "employer_blocks" USING btree ("worker_id");
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "saved_search_matches" (
+	"match_id" varchar(21) PRIMARY KEY NOT NULL,
+	"search_id" varchar(21) NOT NULL,
+	"gig_id" varchar(21) NOT NULL,
+	"notified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"search_id" varchar(21) PRIMARY KEY NOT NULL,
+	"worker_id" varchar(21) NOT NULL,
+	"name" text NOT NULL,
+	"city" varchar(32),
+	"district" varchar(32),
+	"min_rate" integer,
+	"max_rate" integer,
+	"date_start" date,
+	"search_query" text,
+	"frequency" varchar DEFAULT 'instant' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_search_id_saved_searches_search_id_fk" FOREIGN KEY ("search_id") REFERENCES "public"."saved_searches"("search_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_gig_id_gigs_gig_id_fk" FOREIGN KEY ("gig_id") REFERENCES "public"."gigs"("gig_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_worker_id_workers_worker_id_fk" FOREIGN KEY ("worker_id") REFERENCES "public"."workers"("worker_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_search_matches_search_gig_unique" ON "saved_search_matches" USING btree ("search_id","gig_id");--> statement-breakpoint
+CREATE INDEX "saved_search_matches_notified_index" ON "saved_search_matches" USING btree ("notified_at");--> statement-breakpoint
+CREATE INDEX "saved_searches_worker_index" ON "saved_searches" USING btree ("worker_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "workers" ADD COLUMN "birth_date" date;--> statement-breakpoint
+ALTER TABLE "workers" ADD COLUMN "languages" json DEFAULT '[]'::json;
\ No newline at end of file
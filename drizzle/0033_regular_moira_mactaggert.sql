@@ -0,0 +1,2 @@
+ALTER TABLE "gigs" ADD COLUMN "location_source" varchar;--> statement-breakpoint
+CREATE INDEX "gigs_location_index" ON "gigs" USING btree ("latitude","longitude");
\ No newline at end of file
@@ -0,0 +1,379 @@
+-- 既有已有座標的工作（商家標記或地址轉換）視為可供定位打卡的座標
+UPDATE "gigs" SET "location_source" = 'geocoded' WHERE "latitude" IS NOT NULL AND "longitude" IS NOT NULL;--> statement-breakpoint
+-- 沒有座標的工作以行政區中心點（static/DistrictCentroids.json）補上，僅供距離搜尋
+UPDATE "gigs" SET
+	"latitude" = centroids.latitude,
+	"longitude" = centroids.longitude,
+	"location_source" = 'district'
+FROM (VALUES
+	('台北市', '中正區', 25.0324, 121.5199),
+	('台北市', '大同區', 25.0634, 121.5130),
+	('台北市', '中山區', 25.0685, 121.5266),
+	('台北市', '松山區', 25.0500, 121.5773),
+	('台北市', '大安區', 25.0264, 121.5435),
+	('台北市', '萬華區', 25.0286, 121.4979),
+	('台北市', '信義區', 25.0308, 121.5718),
+	('台北市', '士林區', 25.0928, 121.5248),
+	('台北市', '北投區', 25.1321, 121.4987),
+	('台北市', '內湖區', 25.0690, 121.5886),
+	('台北市', '南港區', 25.0547, 121.6066),
+	('台北市', '文山區', 24.9897, 121.5704),
+	('新北市', '板橋區', 25.0116, 121.4627),
+	('新北市', '三重區', 25.0615, 121.4881),
+	('新北市', '中和區', 24.9994, 121.4990),
+	('新北市', '永和區', 25.0076, 121.5138),
+	('新北市', '新莊區', 25.0359, 121.4502),
+	('新北市', '新店區', 24.9677, 121.5418),
+	('新北市', '樹林區', 24.9907, 121.4206),
+	('新北市', '鶯歌區', 24.9545, 121.3548),
+	('新北市', '三峽區', 24.9341, 121.3690),
+	('新北市', '淡水區', 25.1697, 121.4408),
+	('新北市', '汐止區', 25.0631, 121.6582),
+	('新北市', '瑞芳區', 25.1089, 121.8104),
+	('新北市', '土城區', 24.9723, 121.4430),
+	('新北市', '蘆洲區', 25.0849, 121.4737),
+	('新北市', '五股區', 25.0827, 121.4382),
+	('新北市', '泰山區', 25.0589, 121.4310),
+	('新北市', '林口區', 25.0775, 121.3914),
+	('新北市', '深坑區', 25.0024, 121.6159),
+	('新北市', '石碇區', 24.9914, 121.6583),
+	('新北市', '坪林區', 24.9374, 121.7112),
+	('新北市', '三芝區', 25.2580, 121.5009),
+	('新北市', '石門區', 25.2904, 121.5681),
+	('新北市', '八里區', 25.1467, 121.3985),
+	('新北市', '平溪區', 25.0257, 121.7383),
+	('新北市', '雙溪區', 25.0334, 121.8656),
+	('新北市', '貢寮區', 25.0222, 121.9088),
+	('新北市', '金山區', 25.2218, 121.6370),
+	('新北市', '萬里區', 25.1793, 121.6889),
+	('新北市', '烏來區', 24.8653, 121.5504),
+	('桃園市', '桃園區', 24.9936, 121.3010),
+	('桃園市', '中壢區', 24.9653, 121.2249),
+	('桃園市', '大溪區', 24.8806, 121.2870),
+	('桃園市', '楊梅區', 24.9077, 121.1450),
+	('桃園市', '蘆竹區', 25.0456, 121.2917),
+	('桃園市', '大園區', 25.0645, 121.1962),
+	('桃園市', '龜山區', 24.9925, 121.3380),
+	('桃園市', '八德區', 24.9286, 121.2845),
+	('桃園市', '龍潭區', 24.8640, 121.2163),
+	('桃園市', '平鎮區', 24.9459, 121.2181),
+	('桃園市', '新屋區', 24.9726, 121.1059),
+	('桃園市', '觀音區', 25.0333, 121.0823),
+	('桃園市', '復興區', 24.8204, 121.3526),
+	('台中市', '中區', 24.1436, 120.6806),
+	('台中市', '東區', 24.1368, 120.6974),
+	('台中市', '南區', 24.1212, 120.6633),
+	('台中市', '西區', 24.1414, 120.6713),
+	('台中市', '北區', 24.1581, 120.6820),
+	('台中市', '北屯區', 24.1822, 120.6860),
+	('台中市', '西屯區', 24.1812, 120.6260),
+	('台中市', '南屯區', 24.1384, 120.6436),
+	('台中市', '太平區', 24.1266, 120.7186),
+	('台中市', '大里區', 24.0994, 120.6778),
+	('台中市', '霧峰區', 24.0618, 120.7000),
+	('台中市', '烏日區', 24.1045, 120.6238),
+	('台中市', '豐原區', 24.2521, 120.7186),
+	('台中市', '后里區', 24.3094, 120.7107),
+	('台中市', '石岡區', 24.2750, 120.7803),
+	('台中市', '東勢區', 24.2585, 120.8278),
+	('台中市', '和平區', 24.2560, 120.8870),
+	('台中市', '新社區', 24.2341, 120.8095),
+	('台中市', '潭子區', 24.2121, 120.7050),
+	('台中市', '大雅區', 24.2291, 120.6477),
+	('台中市', '神岡區', 24.2578, 120.6616),
+	('台中市', '大肚區', 24.1535, 120.5413),
+	('台中市', '沙鹿區', 24.2335, 120.5659),
+	('台中市', '龍井區', 24.1928, 120.5458),
+	('台中市', '梧棲區', 24.2548, 120.5315),
+	('台中市', '清水區', 24.2684, 120.5597),
+	('台中市', '大甲區', 24.3489, 120.6223),
+	('台中市', '外埔區', 24.3320, 120.6543),
+	('台中市', '大安區', 24.3464, 120.5866),
+	('台南市', '中西區', 22.9920, 120.1970),
+	('台南市', '東區', 22.9799, 120.2243),
+	('台南市', '南區', 22.9610, 120.1880),
+	('台南市', '北區', 23.0072, 120.2040),
+	('台南市', '安平區', 23.0011, 120.1650),
+	('台南市', '安南區', 23.0476, 120.1853),
+	('台南市', '永康區', 23.0264, 120.2571),
+	('台南市', '歸仁區', 22.9669, 120.2937),
+	('台南市', '新化區', 23.0385, 120.3108),
+	('台南市', '左鎮區', 23.0577, 120.4072),
+	('台南市', '玉井區', 23.1238, 120.4600),
+	('台南市', '楠西區', 23.1735, 120.4852),
+	('台南市', '南化區', 23.0426, 120.4774),
+	('台南市', '仁德區', 22.9722, 120.2520),
+	('台南市', '關廟區', 22.9627, 120.3278),
+	('台南市', '龍崎區', 22.9655, 120.3605),
+	('台南市', '官田區', 23.1945, 120.3143),
+	('台南市', '麻豆區', 23.1817, 120.2480),
+	('台南市', '佳里區', 23.1650, 120.1770),
+	('台南市', '西港區', 23.1231, 120.2037),
+	('台南市', '七股區', 23.1400, 120.1400),
+	('台南市', '將軍區', 23.1990, 120.1560),
+	('台南市', '學甲區', 23.2324, 120.1805),
+	('台南市', '北門區', 23.2674, 120.1256),
+	('台南市', '新營區', 23.3103, 120.3165),
+	('台南市', '後壁區', 23.3665, 120.3608),
+	('台南市', '白河區', 23.3513, 120.4159),
+	('台南市', '東山區', 23.3263, 120.4036),
+	('台南市', '六甲區', 23.2338, 120.3477),
+	('台南市', '下營區', 23.2353, 120.2641),
+	('台南市', '柳營區', 23.2780, 120.3110),
+	('台南市', '鹽水區', 23.3199, 120.2665),
+	('台南市', '善化區', 23.1325, 120.2969),
+	('台南市', '大內區', 23.1195, 120.3488),
+	('台南市', '山上區', 23.1032, 120.3528),
+	('台南市', '新市區', 23.0786, 120.2951),
+	('台南市', '安定區', 23.1212, 120.2372),
+	('高雄市', '楠梓區', 22.7279, 120.3262),
+	('高雄市', '左營區', 22.6900, 120.2950),
+	('高雄市', '鼓山區', 22.6417, 120.2750),
+	('高雄市', '三民區', 22.6476, 120.3000),
+	('高雄市', '鹽埕區', 22.6245, 120.2850),
+	('高雄市', '前金區', 22.6274, 120.2944),
+	('高雄市', '新興區', 22.6310, 120.3095),
+	('高雄市', '苓雅區', 22.6218, 120.3120),
+	('高雄市', '前鎮區', 22.5946, 120.3140),
+	('高雄市', '旗津區', 22.5905, 120.2680),
+	('高雄市', '小港區', 22.5650, 120.3378),
+	('高雄市', '鳳山區', 22.6270, 120.3560),
+	('高雄市', '林園區', 22.5130, 120.3950),
+	('高雄市', '大寮區', 22.6050, 120.3950),
+	('高雄市', '大樹區', 22.6935, 120.4320),
+	('高雄市', '大社區', 22.7300, 120.3470),
+	('高雄市', '仁武區', 22.7017, 120.3475),
+	('高雄市', '鳥松區', 22.6597, 120.3640),
+	('高雄市', '岡山區', 22.7968, 120.2958),
+	('高雄市', '橋頭區', 22.7575, 120.3060),
+	('高雄市', '燕巢區', 22.7935, 120.3620),
+	('高雄市', '田寮區', 22.8690, 120.3595),
+	('高雄市', '阿蓮區', 22.8833, 120.3270),
+	('高雄市', '路竹區', 22.8566, 120.2614),
+	('高雄市', '湖內區', 22.9080, 120.2115),
+	('高雄市', '茄萣區', 22.9066, 120.1826),
+	('高雄市', '永安區', 22.8190, 120.2250),
+	('高雄市', '彌陀區', 22.7826, 120.2470),
+	('高雄市', '梓官區', 22.7606, 120.2670),
+	('高雄市', '旗山區', 22.8885, 120.4833),
+	('高雄市', '美濃區', 22.8983, 120.5418),
+	('高雄市', '六龜區', 22.9975, 120.6330),
+	('高雄市', '甲仙區', 23.0840, 120.5880),
+	('高雄市', '杉林區', 22.9707, 120.5390),
+	('高雄市', '內門區', 22.9435, 120.4620),
+	('高雄市', '茂林區', 22.8865, 120.6630),
+	('高雄市', '桃源區', 23.1590, 120.7620),
+	('高雄市', '那瑪夏區', 23.2170, 120.7020),
+	('基隆市', '仁愛區', 25.1280, 121.7400),
+	('基隆市', '信義區', 25.1290, 121.7600),
+	('基隆市', '中正區', 25.1420, 121.7750),
+	('基隆市', '中山區', 25.1500, 121.7300),
+	('基隆市', '安樂區', 25.1200, 121.7100),
+	('基隆市', '暖暖區', 25.0990, 121.7400),
+	('基隆市', '七堵區', 25.0950, 121.7130),
+	('新竹市', '東區', 24.8039, 120.9716),
+	('新竹市', '北區', 24.8163, 120.9590),
+	('新竹市', '香山區', 24.7750, 120.9200),
+	('嘉義市', '東區', 23.4860, 120.4630),
+	('嘉義市', '西區', 23.4790, 120.4340),
+	('新竹縣', '竹北市', 24.8383, 121.0043),
+	('新竹縣', '竹東鎮', 24.7369, 121.0900),
+	('新竹縣', '新埔鎮', 24.8275, 121.0730),
+	('新竹縣', '關西鎮', 24.7880, 121.1770),
+	('新竹縣', '湖口鄉', 24.9030, 121.0440),
+	('新竹縣', '新豐鄉', 24.8990, 120.9830),
+	('新竹縣', '芎林鄉', 24.7750, 121.0920),
+	('新竹縣', '橫山鄉', 24.7210, 121.1160),
+	('新竹縣', '北埔鄉', 24.7000, 121.0560),
+	('新竹縣', '寶山鄉', 24.7600, 120.9990),
+	('新竹縣', '峨眉鄉', 24.6880, 121.0150),
+	('新竹縣', '尖石鄉', 24.7050, 121.2000),
+	('新竹縣', '五峰鄉', 24.6360, 121.1200),
+	('苗栗縣', '苗栗市', 24.5650, 120.8200),
+	('苗栗縣', '頭份市', 24.6880, 120.9100),
+	('苗栗縣', '竹南鎮', 24.6860, 120.8720),
+	('苗栗縣', '後龍鎮', 24.6120, 120.7860),
+	('苗栗縣', '通霄鎮', 24.4890, 120.6770),
+	('苗栗縣', '苑裡鎮', 24.4410, 120.6520),
+	('苗栗縣', '卓蘭鎮', 24.3100, 120.8240),
+	('苗栗縣', '大湖鄉', 24.4230, 120.8640),
+	('苗栗縣', '公館鄉', 24.4990, 120.8230),
+	('苗栗縣', '銅鑼鄉', 24.4870, 120.7870),
+	('苗栗縣', '南庄鄉', 24.5970, 121.0000),
+	('苗栗縣', '頭屋鄉', 24.5750, 120.8460),
+	('苗栗縣', '三義鄉', 24.4130, 120.7650),
+	('苗栗縣', '西湖鄉', 24.5550, 120.7450),
+	('苗栗縣', '造橋鄉', 24.6400, 120.8690),
+	('苗栗縣', '三灣鄉', 24.6510, 120.9520),
+	('苗栗縣', '獅潭鄉', 24.5400, 120.9230),
+	('苗栗縣', '泰安鄉', 24.4430, 120.9050),
+	('彰化縣', '彰化市', 24.0750, 120.5420),
+	('彰化縣', '員林市', 23.9590, 120.5740),
+	('彰化縣', '和美鎮', 24.1110, 120.5000),
+	('彰化縣', '鹿港鎮', 24.0570, 120.4350),
+	('彰化縣', '溪湖鎮', 23.9620, 120.4790),
+	('彰化縣', '二林鎮', 23.8990, 120.3740),
+	('彰化縣', '田中鎮', 23.8580, 120.5810),
+	('彰化縣', '北斗鎮', 23.8700, 120.5200),
+	('彰化縣', '花壇鄉', 24.0290, 120.5380),
+	('彰化縣', '芬園鄉', 24.0140, 120.6290),
+	('彰化縣', '大村鄉', 23.9930, 120.5400),
+	('彰化縣', '永靖鄉', 23.9240, 120.5480),
+	('彰化縣', '伸港鄉', 24.1550, 120.4840),
+	('彰化縣', '線西鄉', 24.1330, 120.4660),
+	('彰化縣', '福興鄉', 24.0470, 120.4440),
+	('彰化縣', '秀水鄉', 24.0350, 120.5030),
+	('彰化縣', '埔心鄉', 23.9530, 120.5430),
+	('彰化縣', '埔鹽鄉', 23.9990, 120.4640),
+	('彰化縣', '大城鄉', 23.8530, 120.3200),
+	('彰化縣', '芳苑鄉', 23.9250, 120.3200),
+	('彰化縣', '竹塘鄉', 23.8600, 120.4270),
+	('彰化縣', '社頭鄉', 23.8960, 120.5830),
+	('彰化縣', '二水鄉', 23.8130, 120.6180),
+	('彰化縣', '田尾鄉', 23.8900, 120.5250),
+	('彰化縣', '埤頭鄉', 23.8900, 120.4620),
+	('彰化縣', '溪州鄉', 23.8510, 120.4920),
+	('南投縣', '南投市', 23.9160, 120.6840),
+	('南投縣', '埔里鎮', 23.9650, 120.9680),
+	('南投縣', '草屯鎮', 23.9740, 120.6800),
+	('南投縣', '竹山鎮', 23.7580, 120.6720),
+	('南投縣', '集集鎮', 23.8290, 120.7830),
+	('南投縣', '名間鄉', 23.8380, 120.6780),
+	('南投縣', '中寮鄉', 23.8790, 120.7670),
+	('南投縣', '國姓鄉', 24.0420, 120.8580),
+	('南投縣', '水里鄉', 23.8120, 120.8530),
+	('南投縣', '魚池鄉', 23.8960, 120.9360),
+	('南投縣', '信義鄉', 23.7000, 120.8550),
+	('南投縣', '仁愛鄉', 24.0240, 121.1330),
+	('南投縣', '鹿谷鄉', 23.7450, 120.7530),
+	('雲林縣', '斗六市', 23.7090, 120.5440),
+	('雲林縣', '斗南鎮', 23.6800, 120.4790),
+	('雲林縣', '虎尾鎮', 23.7080, 120.4320),
+	('雲林縣', '西螺鎮', 23.7990, 120.4660),
+	('雲林縣', '土庫鎮', 23.6780, 120.3920),
+	('雲林縣', '北港鎮', 23.5700, 120.3030),
+	('雲林縣', '林內鄉', 23.7590, 120.6150),
+	('雲林縣', '古坑鄉', 23.6430, 120.5620),
+	('雲林縣', '大埤鄉', 23.6460, 120.4300),
+	('雲林縣', '莿桐鄉', 23.7610, 120.5020),
+	('雲林縣', '崙背鄉', 23.7590, 120.3540),
+	('雲林縣', '二崙鄉', 23.7710, 120.4150),
+	('雲林縣', '麥寮鄉', 23.7540, 120.2520),
+	('雲林縣', '東勢鄉', 23.6750, 120.2530),
+	('雲林縣', '褒忠鄉', 23.6940, 120.3100),
+	('雲林縣', '台西鄉', 23.7030, 120.1960),
+	('雲林縣', '元長鄉', 23.6500, 120.3110),
+	('雲林縣', '四湖鄉', 23.6370, 120.2250),
+	('雲林縣', '口湖鄉', 23.5850, 120.1850),
+	('雲林縣', '水林鄉', 23.5730, 120.2450),
+	('嘉義縣', '太保市', 23.4590, 120.3330),
+	('嘉義縣', '朴子市', 23.4650, 120.2470),
+	('嘉義縣', '布袋鎮', 23.3780, 120.1670),
+	('嘉義縣', '大林鎮', 23.6010, 120.4710),
+	('嘉義縣', '民雄鄉', 23.5520, 120.4290),
+	('嘉義縣', '溪口鄉', 23.6020, 120.3940),
+	('嘉義縣', '新港鄉', 23.5520, 120.3480),
+	('嘉義縣', '六腳鄉', 23.4950, 120.2910),
+	('嘉義縣', '東石鄉', 23.4590, 120.1540),
+	('嘉義縣', '義竹鄉', 23.3360, 120.2430),
+	('嘉義縣', '鹿草鄉', 23.4110, 120.3080),
+	('嘉義縣', '水上鄉', 23.4280, 120.3980),
+	('嘉義縣', '中埔鄉', 23.4250, 120.5230),
+	('嘉義縣', '竹崎鄉', 23.5230, 120.5510),
+	('嘉義縣', '梅山鄉', 23.5840, 120.5570),
+	('嘉義縣', '番路鄉', 23.4650, 120.5550),
+	('嘉義縣', '大埔鄉', 23.2970, 120.5930),
+	('嘉義縣', '阿里山鄉', 23.4680, 120.7330),
+	('屏東縣', '屏東市', 22.6720, 120.4880),
+	('屏東縣', '潮州鎮', 22.5500, 120.5420),
+	('屏東縣', '東港鎮', 22.4660, 120.4540),
+	('屏東縣', '恆春鎮', 22.0020, 120.7450),
+	('屏東縣', '萬丹鄉', 22.5890, 120.4860),
+	('屏東縣', '長治鄉', 22.6770, 120.5270),
+	('屏東縣', '麟洛鄉', 22.6500, 120.5270),
+	('屏東縣', '九如鄉', 22.7400, 120.4900),
+	('屏東縣', '里港鄉', 22.7790, 120.4940),
+	('屏東縣', '鹽埔鄉', 22.7550, 120.5730),
+	('屏東縣', '高樹鄉', 22.8260, 120.6000),
+	('屏東縣', '萬巒鄉', 22.5720, 120.5670),
+	('屏東縣', '內埔鄉', 22.6120, 120.5670),
+	('屏東縣', '竹田鄉', 22.5850, 120.5440),
+	('屏東縣', '新埤鄉', 22.4700, 120.5500),
+	('屏東縣', '枋寮鄉', 22.3660, 120.5930),
+	('屏東縣', '新園鄉', 22.5440, 120.4610),
+	('屏東縣', '崁頂鄉', 22.5140, 120.5140),
+	('屏東縣', '林邊鄉', 22.4310, 120.5150),
+	('屏東縣', '南州鄉', 22.4900, 120.5100),
+	('屏東縣', '佳冬鄉', 22.4170, 120.5450),
+	('屏東縣', '琉球鄉', 22.3400, 120.3700),
+	('屏東縣', '車城鄉', 22.0720, 120.7110),
+	('屏東縣', '滿州鄉', 22.0210, 120.8390),
+	('屏東縣', '枋山鄉', 22.2600, 120.6560),
+	('屏東縣', '霧台鄉', 22.7450, 120.7320),
+	('屏東縣', '瑪家鄉', 22.7070, 120.6440),
+	('屏東縣', '泰武鄉', 22.5920, 120.6330),
+	('屏東縣', '來義鄉', 22.5260, 120.6330),
+	('屏東縣', '春日鄉', 22.3710, 120.6280),
+	('屏東縣', '獅子鄉', 22.2010, 120.7050),
+	('屏東縣', '牡丹鄉', 22.1290, 120.7700),
+	('屏東縣', '三地門鄉', 22.7160, 120.6540),
+	('宜蘭縣', '宜蘭市', 24.7570, 121.7530),
+	('宜蘭縣', '羅東鎮', 24.6770, 121.7670),
+	('宜蘭縣', '蘇澳鎮', 24.5950, 121.8510),
+	('宜蘭縣', '頭城鎮', 24.8590, 121.8230),
+	('宜蘭縣', '礁溪鄉', 24.8270, 121.7700),
+	('宜蘭縣', '壯圍鄉', 24.7450, 121.7810),
+	('宜蘭縣', '員山鄉', 24.7460, 121.7220),
+	('宜蘭縣', '冬山鄉', 24.6360, 121.7920),
+	('宜蘭縣', '五結鄉', 24.6850, 121.7980),
+	('宜蘭縣', '三星鄉', 24.6670, 121.6530),
+	('宜蘭縣', '大同鄉', 24.6760, 121.6030),
+	('宜蘭縣', '南澳鄉', 24.4650, 121.8000),
+	('花蓮縣', '花蓮市', 23.9770, 121.6040),
+	('花蓮縣', '鳳林鎮', 23.7440, 121.4520),
+	('花蓮縣', '玉里鎮', 23.3360, 121.3110),
+	('花蓮縣', '新城鄉', 24.1280, 121.6400),
+	('花蓮縣', '吉安鄉', 23.9620, 121.5680),
+	('花蓮縣', '壽豐鄉', 23.8700, 121.5090),
+	('花蓮縣', '光復鄉', 23.6690, 121.4230),
+	('花蓮縣', '豐濱鄉', 23.5970, 121.5200),
+	('花蓮縣', '瑞穗鄉', 23.4970, 121.3760),
+	('花蓮縣', '富里鄉', 23.1800, 121.2480),
+	('花蓮縣', '秀林鄉', 24.1170, 121.6200),
+	('花蓮縣', '萬榮鄉', 23.7150, 121.4070),
+	('花蓮縣', '卓溪鄉', 23.3460, 121.3030),
+	('台東縣', '台東市', 22.7560, 121.1440),
+	('台東縣', '成功鎮', 23.0970, 121.3800),
+	('台東縣', '關山鎮', 23.0470, 121.1630),
+	('台東縣', '長濱鄉', 23.3150, 121.4510),
+	('台東縣', '池上鄉', 23.1000, 121.2190),
+	('台東縣', '東河鄉', 22.9700, 121.3000),
+	('台東縣', '鹿野鄉', 22.9130, 121.1360),
+	('台東縣', '卑南鄉', 22.7860, 121.0830),
+	('台東縣', '大武鄉', 22.3400, 120.8900),
+	('台東縣', '綠島鄉', 22.6610, 121.4900),
+	('台東縣', '海端鄉', 23.1010, 121.1720),
+	('台東縣', '延平鄉', 22.9020, 121.0840),
+	('台東縣', '金峰鄉', 22.5950, 120.9700),
+	('台東縣', '達仁鄉', 22.2950, 120.8850),
+	('台東縣', '蘭嶼鄉', 22.0450, 121.5500),
+	('澎湖縣', '馬公市', 23.5650, 119.5860),
+	('澎湖縣', '湖西鄉', 23.5830, 119.6590),
+	('澎湖縣', '白沙鄉', 23.6660, 119.5980),
+	('澎湖縣', '西嶼鄉', 23.6000, 119.5070),
+	('澎湖縣', '望安鄉', 23.3580, 119.5040),
+	('澎湖縣', '七美鄉', 23.2060, 119.4300),
+	('金門縣', '金城鎮', 24.4340, 118.3170),
+	('金門縣', '金湖鎮', 24.4390, 118.4190),
+	('金門縣', '金沙鎮', 24.4910, 118.4130),
+	('金門縣', '金寧鄉', 24.4560, 118.3340),
+	('金門縣', '烈嶼鄉', 24.4330, 118.2460),
+	('金門縣', '烏坵鄉', 24.9920, 119.4500),
+	('連江縣', '南竿鄉', 26.1550, 119.9450),
+	('連江縣', '北竿鄉', 26.2220, 119.9980),
+	('連江縣', '莒光鄉', 25.9680, 119.9470),
+	('連江縣', '東引鄉', 26.3680, 120.4900)
+) AS centroids(city, district, latitude, longitude)
+WHERE "gigs"."city" = centroids.city
+	AND "gigs"."district" = centroids.district
+	AND "gigs"."latitude" IS NULL;
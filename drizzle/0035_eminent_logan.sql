@@ -0,0 +1,13 @@
+CREATE TABLE "application_messages" (
+	"message_id" varchar(21) PRIMARY KEY NOT NULL,
+	"application_id" varchar(21) NOT NULL,
+	"sender_role" varchar NOT NULL,
+	"sender_id" varchar(21) NOT NULL,
+	"content" text,
+	"attachments" json DEFAULT '[]'::json NOT NULL,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_messages" ADD CONSTRAINT "application_messages_application_id_gig_applications_application_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."gig_applications"("application_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "application_messages_application_index" ON "application_messages" USING btree ("application_id","created_at");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "deferred_notifications" (
+	"delivery_id" varchar(21) PRIMARY KEY NOT NULL,
+	"receiver_id" varchar(21) NOT NULL,
+	"receiver_role" varchar NOT NULL,
+	"channel" varchar NOT NULL,
+	"title" varchar(256) NOT NULL,
+	"message" text NOT NULL,
+	"type" varchar(128) NOT NULL,
+	"resource_id" varchar(21),
+	"deliver_after" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification_preferences" (
+	"user_id" varchar(21) PRIMARY KEY NOT NULL,
+	"channels" json DEFAULT '{}'::json NOT NULL,
+	"quiet_hours_start" varchar(5),
+	"quiet_hours_end" varchar(5),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "deferred_notifications_deliver_after_index" ON "deferred_notifications" USING btree ("deliver_after");
\ No newline at end of file
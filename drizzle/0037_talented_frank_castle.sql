@@ -0,0 +1,2 @@
+ALTER TABLE "deferred_notifications" ADD COLUMN "email_content" json;--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD COLUMN "email_digest" boolean DEFAULT false NOT NULL;
\ No newline at end of file
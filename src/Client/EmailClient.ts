@@ -4,7 +4,7 @@ import { getTransporter, resetTransporter } from './OAuth2Client';
  * 發送電子郵件。
  * 從 OAuth2Client 獲取 transporter，並處理郵件的建構和發送。
  */
-export const sendEmail = async (to: string, subject: string, html: string): Promise<any> => {
+export const sendEmail = async (to: string, subject: string, html: string, text?: string): Promise<any> => {
   try {
     // 1. 從 OAuth2Client 獲取經過認證的 transporter
     const emailTransporter = await getTransporter();
@@ -15,6 +15,8 @@ export const sendEmail = async (to: string, subject: string, html: string): Prom
       to: to,
       subject: subject,
       html: html,
+      // 純文字版本（選填），供不支援 HTML 的郵件客戶端顯示
+      ...(text ? { text } : {}),
     };
 
     // 3. 發送郵件
@@ -46,6 +46,13 @@ class FCMClient {
     }
   }
 
+  /**
+   * Firebase 是否已初始化（配置不完整時推播功能停用）
+   */
+  public isEnabled(): boolean {
+    return !!this.adminApp;
+  }
+
   /**
    * 發送單一推播通知
    */
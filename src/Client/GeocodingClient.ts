@@ -0,0 +1,69 @@
+import { geocodingConfig } from "../config";
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  formattedAddress: string;
+}
+
+/**
+ * Google Geocoding API：將地址轉換為座標
+ */
+class GeocodingClient {
+  private static readonly API_URL = "https://maps.googleapis.com/maps/api/geocode/json";
+
+  // 地址轉換在建立與更新工作的請求中執行，逾時即放棄，避免拖慢儲存
+  private static readonly TIMEOUT_MS = 3000;
+
+  /**
+   * 將地址轉換為座標，查無結果或未設定 API Key 時回傳 null
+   * 請求失敗或逾時時拋出錯誤
+   */
+  static async geocode(address: string): Promise<GeocodeResult | null> {
+    if (!geocodingConfig.apiKey) {
+      console.warn("未設定 GOOGLE_MAPS_API_KEY，無法進行地址轉換");
+      return null;
+    }
+
+    const params = new URLSearchParams({
+      address,
+      key: geocodingConfig.apiKey,
+      region: "tw",
+      language: "zh-TW",
+    });
+
+    const response = await fetch(`${this.API_URL}?${params}`, {
+      signal: AbortSignal.timeout(this.TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`地址轉換失敗: HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as {
+      status: string;
+      results: Array<{
+        formatted_address: string;
+        geometry: { location: { lat: number; lng: number } };
+      }>;
+    };
+
+    if (data.status === "ZERO_RESULTS" || data.results.length === 0) {
+      return null;
+    }
+
+    if (data.status !== "OK") {
+      throw new Error(`地址轉換失敗: ${data.status}`);
+    }
+
+    const [result] = data.results;
+
+    return {
+      latitude: result.geometry.location.lat,
+      longitude: result.geometry.location.lng,
+      formattedAddress: result.formatted_address,
+    };
+  }
+}
+
+export default GeocodingClient;
@@ -136,4 +136,13 @@ export const uploadEnvironmentPhotos = createFileUploadMiddleware([
     maxCount: 3,
     accept: ["jpg", "jpeg", "png", "webp"],
   }
-]);
\ No newline at end of file
+]);
+
+export const uploadMessageAttachments = createFileUploadMiddleware([
+  {
+    name: "attachments",
+    maxSize: 5 * 1024 * 1024, // 5MB
+    maxCount: 3,
+    accept: ["pdf", "jpg", "jpeg", "png", "webp"],
+  }
+]);
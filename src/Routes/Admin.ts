@@ -4,10 +4,10 @@ import type { HonoGenericContext } from "../Types/types";
 import { authenticated } from "../Middleware/authentication";
 import { requireAdmin } from "../Middleware/guards";
 import dbClient from "../Client/DrizzleClient";
-import { eq } from "drizzle-orm";
-import { admins, employers } from "../Schema/DatabaseSchema";
+import { eq, and, desc } from "drizzle-orm";
+import { admins, employers, workers, employerBlocks } from "../Schema/DatabaseSchema";
 import { zValidator } from "@hono/zod-validator";
-import { adminRegisterSchema } from "../Types/zodSchema";
+import { adminRegisterSchema, replayDeliveryJobsSchema } from "../Types/zodSchema";
 import { hash } from "@node-rs/argon2";
 import { argon2Config } from "../config";
 import NotificationHelper from "../Utils/NotificationHelper";
@@ -15,6 +15,9 @@ import { UserCache } from "../Client/Cache/Index";
 import { Role } from "../Types/types";
 import SessionManager from "../Utils/SessionManager";
 import {FileManager} from "../Client/Cache/Index";
+import CronManager from "../Utils/CronManager";
+import GigMaintenance from "../Utils/GigMaintenance";
+import DeliveryQueue from "../Utils/DeliveryQueue";
 
 const router = new Hono<HonoGenericContext>();
 
@@ -189,4 +192,186 @@ router.get("/active-sessions", authenticated, async (c) => {
 	}
 });
 
+// 查看排程方式與各排程任務最近一次的執行結果
+router.get("/jobs", authenticated, requireAdmin, async (c) => {
+	try {
+		const schedulerMode = CronManager.getSchedulerMode();
+		const pgCronJobs = schedulerMode === "pg_cron" ? await CronManager.getCronJobsStatus() : [];
+		const latestRuns = await GigMaintenance.getLatestRuns();
+
+		return c.json({
+			message: "獲取排程任務狀態成功",
+			data: {
+				schedulerMode,
+				pgCronJobs,
+				latestRuns,
+			},
+		});
+	} catch (error) {
+		console.error("獲取排程任務狀態失敗:", error);
+		return c.text("獲取排程任務狀態失敗", 500);
+	}
+});
+
+// 查看排程任務執行記錄：?jobName=auto_cleanup_expired_gigs&limit=20&offset=0
+router.get("/jobs/runs", authenticated, requireAdmin, async (c) => {
+	try {
+		const jobName = c.req.query("jobName");
+		const requestLimit = Number.parseInt(c.req.query("limit") || "20");
+		const requestOffset = Number.parseInt(c.req.query("offset") || "0");
+
+		const runs = await GigMaintenance.getRuns(jobName, requestLimit + 1, requestOffset);
+		const hasMore = runs.length > requestLimit;
+		const actualRuns = hasMore ? runs.slice(0, requestLimit) : runs;
+
+		return c.json({
+			message: "獲取排程任務執行記錄成功",
+			data: {
+				runs: actualRuns,
+				pagination: {
+					limit: requestLimit,
+					offset: requestOffset,
+					hasMore,
+					returned: actualRuns.length,
+				},
+			},
+		});
+	} catch (error) {
+		console.error("獲取排程任務執行記錄失敗:", error);
+		return c.text("獲取排程任務執行記錄失敗", 500);
+	}
+});
+
+// 手動執行工作過期清理
+router.post("/jobs/cleanup/run", authenticated, requireAdmin, async (c) => {
+	try {
+		const result = await GigMaintenance.runExpiredGigCleanup("manual");
+
+		return c.json({
+			message: "工作過期清理執行完成",
+			data: result,
+		});
+	} catch (error) {
+		console.error("手動執行工作過期清理失敗:", error);
+		return c.text("手動執行工作過期清理失敗", 500);
+	}
+});
+
+// 查看推播與郵件發送佇列狀態與失敗任務：?limit=20&offset=0
+router.get("/delivery-queue", authenticated, requireAdmin, async (c) => {
+	try {
+		const requestLimit = Number.parseInt(c.req.query("limit") || "20");
+		const requestOffset = Number.parseInt(c.req.query("offset") || "0");
+
+		const [stats, jobs] = await Promise.all([
+			DeliveryQueue.getStats(),
+			DeliveryQueue.getDeadJobs(requestLimit + 1, requestOffset),
+		]);
+		const hasMore = jobs.length > requestLimit;
+		const deadJobs = hasMore ? jobs.slice(0, requestLimit) : jobs;
+
+		return c.json({
+			message: "獲取發送佇列狀態成功",
+			data: {
+				stats,
+				deadJobs,
+				pagination: {
+					limit: requestLimit,
+					offset: requestOffset,
+					hasMore,
+					returned: deadJobs.length,
+				},
+			},
+		});
+	} catch (error) {
+		console.error("獲取發送佇列狀態失敗:", error);
+		return c.text("獲取發送佇列狀態失敗", 500);
+	}
+});
+
+// 重送失敗的推播與郵件任務
+router.post(
+	"/delivery-queue/replay",
+	authenticated,
+	requireAdmin,
+	zValidator("json", replayDeliveryJobsSchema),
+	async (c) => {
+		try {
+			const { jobIds } = c.req.valid("json");
+			const replayed = await DeliveryQueue.replay(jobIds);
+
+			return c.json({
+				message: `已重新排入 ${replayed} 個任務`,
+				data: {
+					replayed,
+				},
+			});
+		} catch (error) {
+			console.error("重送失敗任務失敗:", error);
+			return c.text("重送失敗任務失敗", 500);
+		}
+	}
+);
+
+// 處理爭議時查看商家封鎖名單：?employerId=xxx&workerId=xxx&limit=20&offset=0
+router.get("/block-lists", authenticated, requireAdmin, async (c) => {
+	try {
+		const employerId = c.req.query("employerId");
+		const workerId = c.req.query("workerId");
+		const requestLimit = Number.parseInt(c.req.query("limit") || "20");
+		const requestOffset = Number.parseInt(c.req.query("offset") || "0");
+
+		const whereConditions = [];
+
+		if (employerId) {
+			whereConditions.push(eq(employerBlocks.employerId, employerId));
+		}
+
+		if (workerId) {
+			whereConditions.push(eq(employerBlocks.workerId, workerId));
+		}
+
+		const blocks = await dbClient
+			.select({
+				blockId: employerBlocks.blockId,
+				employerId: employerBlocks.employerId,
+				employerName: employers.employerName,
+				workerId: employerBlocks.workerId,
+				workerFirstName: workers.firstName,
+				workerLastName: workers.lastName,
+				reason: employerBlocks.reason,
+				createdAt: employerBlocks.createdAt,
+			})
+			.from(employerBlocks)
+			.innerJoin(employers, eq(employerBlocks.employerId, employers.employerId))
+			.innerJoin(workers, eq(employerBlocks.workerId, workers.workerId))
+			.where(and(...whereConditions))
+			.orderBy(desc(employerBlocks.createdAt))
+			.limit(requestLimit + 1)
+			.offset(requestOffset);
+
+		const hasMore = blocks.length > requestLimit;
+		const actualBlocks = hasMore ? blocks.slice(0, requestLimit) : blocks;
+
+		return c.json({
+			message: "獲取封鎖名單成功",
+			data: {
+				blocks: actualBlocks.map(({ workerFirstName, workerLastName, ...block }) => ({
+					...block,
+					workerName: `${workerFirstName} ${workerLastName}`,
+				})),
+				pagination: {
+					limit: requestLimit,
+					offset: requestOffset,
+					hasMore,
+					returned: actualBlocks.length,
+				},
+			},
+		});
+	} catch (error) {
+		console.error("獲取封鎖名單失敗:", error);
+		return c.text("獲取封鎖名單失敗", 500);
+	}
+});
+
 export default { path: "/admin", router } as IRouter;
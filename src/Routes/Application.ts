@@ -14,11 +14,20 @@ import {
   gigApplications,
   employers,
   workers,
+  applicationCancellations,
 } from "../Schema/DatabaseSchema";
 import { zValidator } from "@hono/zod-validator";
-import { reviewApplicationSchema, workerConfirmApplicationSchema } from "../Types/zodSchema";
+import { reviewApplicationSchema, workerConfirmApplicationSchema, withdrawApplicationSchema } from "../Types/zodSchema";
 import { DateUtils } from "../Utils/DateUtils";
+import { GigShiftManager } from "../Utils/GigShiftManager";
+import WaitlistManager from "../Utils/WaitlistManager";
+import ApplicationStateMachine from "../Utils/ApplicationStateMachine";
+import CancellationPolicy from "../Utils/CancellationPolicy";
+import BlockListManager from "../Utils/BlockListManager";
+import QualificationMatcher from "../Utils/QualificationMatcher";
+import WorkerReliability from "../Utils/WorkerReliability";
 import NotificationHelper from "../Utils/NotificationHelper";
+import CursorPagination, { type CursorSortKey } from "../Utils/CursorPagination";
 import { Role } from "../Types/types";
 
 const router = new Hono<HonoGenericContext>();
@@ -54,6 +63,29 @@ router.post(
         }, 404);
       }
 
+      if (await BlockListManager.isBlocked(gig.employerId, user.workerId)) {
+        return c.json({
+          message: "您已被此商家封鎖，無法申請此商家的工作",
+        }, 403);
+      }
+
+      // 不符合必要資格條件時無法申請
+      const qualificationMatch = QualificationMatcher.match(gig.requirements, user, DateUtils.formatDate(gig.dateStart));
+
+      if (!qualificationMatch.meetsMandatory) {
+        return c.json({
+          message: "您不符合此工作的必要資格條件",
+          unmetRequirements: qualificationMatch.checks
+            .filter(check => check.mandatory && check.met !== true)
+            .map(check => ({
+              kind: check.kind,
+              requirement: check.requirement,
+              // 資料不足時請打工者先補齊個人資料
+              missingProfileData: check.met === null,
+            })),
+        }, 403);
+      }
+
       // 檢查是否已經申請過這個工作
       const existingApplication = await dbClient.query.gigApplications.findFirst({
         where: and(
@@ -84,6 +116,11 @@ router.post(
         })
         .returning();
 
+      await ApplicationStateMachine.recordHistory(dbClient, newApplication[0].applicationId, null, "pending_employer_review", {
+        actor: "worker",
+        actorId: user.workerId,
+      });
+
       // 發送通知給商家
       await NotificationHelper.notifyApplicationReceived(
         gig.employerId,
@@ -136,19 +173,26 @@ router.post("/cancel/:applicationId", authenticated, requireWorker, async (c) =>
       }, 404);
     }
 
-    if (application.status !== "pending_employer_review") {
+    // 已確認的工作須依取消政策取消
+    if (application.status === "worker_confirmed") {
       return c.json({
-        message: `無法取消`,
+        message: "已確認的工作請使用確認後取消，並填寫取消原因",
+        currentStatus: application.status,
       }, 400);
     }
 
-    await dbClient
-      .update(gigApplications)
-      .set({
-        status: "worker_cancelled",
-        updatedAt: sql`now()`,
-      })
-      .where(eq(gigApplications.applicationId, applicationId));
+    // 移出候補名單並遞補下一位由狀態機處理
+    const result = await ApplicationStateMachine.apply(applicationId, "worker_cancelled", {
+      actor: "worker",
+      actorId: user.workerId,
+    });
+
+    if (!result.success) {
+      return c.json({
+        message: `無法取消`,
+        currentStatus: result.from,
+      }, 400);
+    }
 
     return c.json({
       message: "申請已成功取消",
@@ -167,6 +211,107 @@ router.post("/cancel/:applicationId", authenticated, requireWorker, async (c) =>
   }
 });
 
+/**
+ * Worker 確認工作後取消（依工作的取消政策記錄是否為臨時取消）
+ * POST /application/:applicationId/withdraw
+ */
+router.post(
+  "/:applicationId/withdraw",
+  authenticated,
+  requireWorker,
+  zValidator("json", withdrawApplicationSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const applicationId = c.req.param("applicationId");
+      const { reason } = c.req.valid("json");
+
+      const application = await dbClient.query.gigApplications.findFirst({
+        where: and(
+          eq(gigApplications.applicationId, applicationId),
+          eq(gigApplications.workerId, user.workerId)
+        ),
+        with: {
+          gig: {
+            columns: { gigId: true, title: true, freeCancellationHours: true },
+          },
+        },
+      });
+
+      if (!application) {
+        return c.json({
+          message: "申請記錄不存在",
+        }, 404);
+      }
+
+      if (application.status !== "worker_confirmed") {
+        return c.json({
+          message: "只有已確認的工作可以使用確認後取消",
+          currentStatus: application.status,
+        }, 400);
+      }
+
+      const assessment = await CancellationPolicy.assess(application.gigId, application.gig.freeCancellationHours);
+
+      if (!assessment || assessment.hasEnded) {
+        return c.json({
+          message: "此工作已結束，無法取消",
+        }, 400);
+      }
+
+      const context = { actor: "worker" as const, actorId: user.workerId, reason };
+
+      const result = await dbClient.transaction(async (tx) => {
+        const transition = await ApplicationStateMachine.transition(tx, applicationId, "worker_cancelled", context);
+
+        if (transition.success) {
+          await tx.insert(applicationCancellations).values({
+            applicationId,
+            gigId: application.gigId,
+            workerId: user.workerId,
+            reason,
+            minutesBeforeShift: assessment.minutesBeforeShift,
+            isLate: assessment.isLate,
+          });
+        }
+
+        return transition;
+      });
+
+      if (!result.success) {
+        return c.json({
+          message: result.message,
+          currentStatus: result.from,
+        }, 400);
+      }
+
+      // 通知企業並由候補名單遞補
+      await ApplicationStateMachine.runSideEffects(applicationId, result.from, "worker_cancelled", context);
+
+      return c.json({
+        message: assessment.isLate
+          ? `已取消工作。距離第一個班次開始不足 ${assessment.freeCancellationHours} 小時，將記錄為臨時取消`
+          : "已取消工作",
+        data: {
+          applicationId,
+          status: "worker_cancelled",
+          isLateCancellation: assessment.isLate,
+          firstShiftStart: assessment.firstShiftStart,
+          freeCancellationHours: assessment.freeCancellationHours,
+          minutesBeforeShift: assessment.minutesBeforeShift,
+        },
+      }, 200);
+
+    } catch (error) {
+      console.error("確認後取消工作時發生錯誤:", error);
+      return c.json({
+        message: "取消工作失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
 /**
  * Worker 查看自己的申請記錄
  * GET /application/my-applications
@@ -177,6 +322,19 @@ router.get("/my-applications", authenticated, requireWorker, async (c) => {
     const status = c.req.query("status");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
+
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(gigApplications.createdAt), direction: "desc", type: "timestamp" },
+      { expression: gigApplications.applicationId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
 
     // 建立查詢條件
     const whereConditions = [eq(gigApplications.workerId, user.workerId)];
@@ -194,6 +352,10 @@ router.get("/my-applications", authenticated, requireWorker, async (c) => {
       whereConditions.push(eq(gigApplications.status, status as any));
     }
 
+    if (cursorValues) {
+      whereConditions.push(CursorPagination.after(cursorKeys, cursorValues));
+    }
+
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
 
@@ -207,14 +369,17 @@ router.get("/my-applications", authenticated, requireWorker, async (c) => {
           },
         },
       },
-      orderBy: [desc(gigApplications.createdAt)],
+      orderBy: CursorPagination.orderBy(cursorKeys),
       limit: requestLimit + 1, // 多查一筆來判斷 hasMore
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
     // 判斷是否有更多數據
-    const hasMore = applications.length > requestLimit;
-    const actualApplications = hasMore ? applications.slice(0, requestLimit) : applications;
+    const { items: actualApplications, hasMore, nextCursor } = CursorPagination.paginate(
+      applications,
+      requestLimit,
+      app => [app.createdAt, app.applicationId]
+    );
 
     return c.json({
       applications: actualApplications.map(app => ({
@@ -233,6 +398,7 @@ router.get("/my-applications", authenticated, requireWorker, async (c) => {
         offset: requestOffset,
         hasMore: hasMore,
         returned: actualApplications.length,
+        nextCursor,
       },
     }, 200);
 
@@ -280,7 +446,9 @@ router.put(
         }, 404);
       }
 
-      if (application.status !== "pending_worker_confirmation") {
+      const newStatus = action === "accept" ? "worker_confirmed" : "worker_declined";
+
+      if (!ApplicationStateMachine.canTransition(application.status, newStatus, "worker")) {
         return c.json({
           message: "此申請不在待確認狀態",
           currentStatus: application.status,
@@ -301,59 +469,27 @@ router.put(
         }, 400);
       }
 
-      if (action === "accept") {
-        await dbClient
-          .update(gigApplications)
-          .set({
-            status: "worker_confirmed",
-            updatedAt: sql`now()`,
-          })
-          .where(eq(gigApplications.applicationId, applicationId));
-
-        // 發送通知給企業
-        await NotificationHelper.notifyEmployerWorkerConfirmed(
-          application.gig.employerId,
-          Role.EMPLOYER,
-          `${user.firstName} ${user.lastName}`,
-          application.gig.title,
-          application.gig.gigId,
-        );
-
-        return c.json({
-          message: "已確認接受工作",
-          data: {
-            applicationId: applicationId,
-            status: "worker_confirmed",
-          },
-        }, 200);
-      } else {
-        // 打工者拒絕工作
-        await dbClient
-          .update(gigApplications)
-          .set({
-            status: "worker_declined",
-            updatedAt: sql`now()`,
-          })
-          .where(eq(gigApplications.applicationId, applicationId));
-
-        // 發送通知給企業
-        await NotificationHelper.notifyEmployerWorkerDeclined(
-          application.gig.employerId,
-          Role.EMPLOYER,
-          `${user.firstName} ${user.lastName}`,
-          application.gig.title,
-          application.gig.gigId,
-        );
+      // 通知企業、取消時間衝突的申請或由候補名單遞補，由狀態機處理
+      const result = await ApplicationStateMachine.apply(applicationId, newStatus, {
+        actor: "worker",
+        actorId: user.workerId,
+      });
 
+      if (!result.success) {
         return c.json({
-          message: "已拒絕接受工作",
-          data: {
-            applicationId: applicationId,
-            status: "worker_declined",
-          },
-        }, 200);
+          message: "此申請不在待確認狀態",
+          currentStatus: result.from,
+        }, 400);
       }
 
+      return c.json({
+        message: action === "accept" ? "已確認接受工作" : "已拒絕接受工作",
+        data: {
+          applicationId: applicationId,
+          status: newStatus,
+        },
+      }, 200);
+
     } catch (error) {
       console.error("確認工作時發生錯誤:", error);
       return c.json({
@@ -396,7 +532,9 @@ router.get("/worker/calendar", authenticated, requireWorker, async (c) => {
       eq(gigApplications.status, "worker_confirmed")
     ];
 
-    // 根據日期參數添加過濾條件
+    // 根據日期參數添加過濾條件：範圍內有班次的工作
+    let shiftRange: { dateStart?: string; dateEnd?: string };
+
     if (hasYearMonth) {
       // 月份查詢模式
       const yearNum = Number.parseInt(year);
@@ -410,31 +548,14 @@ router.get("/worker/calendar", authenticated, requireWorker, async (c) => {
 
       const { startDate, endDate } = DateUtils.getMonthRange(yearNum, monthNum);
 
-      // 過濾工作期間與該月有重疊的工作
-      whereConditions.push(
-        and(
-          lte(gigs.dateStart, endDate),
-          gte(gigs.dateEnd, startDate)
-        )
-      );
-    } else if (hasDateRange) {
-      if (dateStart && dateEnd) {
-        // 工作期間與搜尋範圍有重疊
-        whereConditions.push(
-          and(
-            lte(gigs.dateStart, dateEnd),    // 工作開始 <= 搜尋結束
-            gte(gigs.dateEnd, dateStart)     // 工作結束 >= 搜尋開始
-          )
-        );
-      } else if (dateStart) {
-        // 只提供開始日期：工作結束日期 >= 搜尋開始日期
-        whereConditions.push(gte(gigs.dateEnd, dateStart));
-      } else if (dateEnd) {
-        // 只提供結束日期：工作開始日期 <= 搜尋結束日期
-        whereConditions.push(lte(gigs.dateStart, dateEnd));
-      }
+      // 過濾該月有班次的工作
+      shiftRange = { dateStart: startDate, dateEnd: endDate };
+    } else {
+      // 過濾搜尋範圍內有班次的工作（可只提供開始或結束日期）
+      shiftRange = { dateStart, dateEnd };
     }
 
+    whereConditions.push(GigShiftManager.hasShiftInRange(gigs.gigId, shiftRange));
     whereConditions.push(eq(gigs.isActive, true));
 
     // 執行資料庫查詢
@@ -462,6 +583,12 @@ router.get("/worker/calendar", authenticated, requireWorker, async (c) => {
     const hasMore = results.length > requestLimit;
     const actualResults = hasMore ? results.slice(0, requestLimit) : results;
 
+    // 附上範圍內的班次
+    const shiftsByGig = await GigShiftManager.getShiftsByGigIds(
+      actualResults.map(row => row.gigId),
+      shiftRange
+    );
+
     const calendarGigs = actualResults.map(row => {
       return {
         gigId: row.gigId,
@@ -470,6 +597,7 @@ router.get("/worker/calendar", authenticated, requireWorker, async (c) => {
         dateEnd: row.dateEnd,
         timeStart: row.timeStart,
         timeEnd: row.timeEnd,
+        shifts: shiftsByGig[row.gigId] ?? [],
         employer: {
           employerId: row.employerId,
           employerName: row.employerName,
@@ -688,6 +816,9 @@ router.get("/gig/:gigId", authenticated, requireEmployer, requireApprovedEmploye
         workerCertificates: workers.certificates,
         workerJobExperience: workers.jobExperience,
         workerProfilePhoto: workers.profilePhoto,
+        workerStudyStatus: workers.studyStatus,
+        workerLanguages: workers.languages,
+        workerBirthDate: workers.birthDate,
         totalRatings: sql<number>`COALESCE(rating_stats.total_ratings, 0)`,
         averageRating: sql<number>`COALESCE(rating_stats.average_rating, 0)`,
       })
@@ -711,6 +842,7 @@ router.get("/gig/:gigId", authenticated, requireEmployer, requireApprovedEmploye
 
     const hasMore = applicationsWithRatings.length > requestLimit;
     const actualApplications = hasMore ? applicationsWithRatings.slice(0, requestLimit) : applicationsWithRatings;
+    const reliabilityByWorker = await WorkerReliability.getByWorkerIds(actualApplications.map(app => app.workerId));
     const applicationsWithRatingData = actualApplications.map(app => ({
       applicationId: app.applicationId,
       workerId: app.workerId,
@@ -729,6 +861,14 @@ router.get("/gig/:gigId", authenticated, requireEmployer, requireApprovedEmploye
         totalRatings: Number(app.totalRatings),
         averageRating: Number(Number(app.averageRating).toFixed(2)),
       },
+      workerReliability: reliabilityByWorker[app.workerId],
+      qualificationMatch: QualificationMatcher.match(gig.requirements, {
+        highestEducation: app.workerEducation,
+        studyStatus: app.workerStudyStatus,
+        certificates: app.workerCertificates,
+        languages: app.workerLanguages,
+        birthDate: app.workerBirthDate,
+      }, DateUtils.formatDate(gig.dateStart)),
     }));
 
     return c.json({
@@ -754,6 +894,45 @@ router.get("/gig/:gigId", authenticated, requireEmployer, requireApprovedEmploye
   }
 });
 
+/**
+ * Employer 查看工作名額與候補名單
+ * GET /application/gig/:gigId/waitlist
+ */
+router.get("/gig/:gigId/waitlist", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const gigId = c.req.param("gigId");
+
+    const gig = await dbClient.query.gigs.findFirst({
+      where: and(eq(gigs.gigId, gigId), eq(gigs.employerId, user.employerId)),
+      columns: { gigId: true, title: true },
+    });
+
+    if (!gig) {
+      return c.json({
+        message: "工作不存在或無權限查看",
+      }, 404);
+    }
+
+    const waitlistInfo = await WaitlistManager.getWaitlist(gigId);
+
+    return c.json({
+      message: "獲取候補名單成功",
+      data: {
+        gigTitle: gig.title,
+        ...waitlistInfo,
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("查看候補名單時發生錯誤:", error);
+    return c.json({
+      message: "獲取候補名單失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
 /**
  * Employer 審核申請（核准或拒絕）
  * PUT /application/:applicationId/review
@@ -807,42 +986,66 @@ router.put(
         }, 400);
       }
 
-      // 只有 pending_employer_review 狀態的申請可以審核
-      if (application.status !== "pending_employer_review") {
+      const newStatus = action === "approve" ? "pending_worker_confirmation" : "employer_rejected";
+
+      // 只有待企業審核的申請可以審核
+      if (!ApplicationStateMachine.canTransition(application.status, newStatus, "employer")) {
         return c.json({
           message: "此申請已經處理過了",
           currentStatus: application.status,
         }, 400);
       }
 
-      // 根據 action 更新申請狀態
-      const newStatus = action === "approve" ? "pending_worker_confirmation" : "employer_rejected";
-
-      await dbClient
-        .update(gigApplications)
-        .set({
-          status: newStatus,
-          updatedAt: sql`now()`,
-        })
-        .where(eq(gigApplications.applicationId, applicationId));
-
-      // 發送通知給打工者
       if (action === "approve") {
-        await NotificationHelper.notifyWorkerPendingConfirmation(
-          application.workerId,
-          Role.WORKER,
-          application.gig.title,
-          user.employerName,
-          application.gig.gigId,
-        );
-      } else if (action === "reject") {
-        await NotificationHelper.notifyApplicationRejected(
-          application.workerId,
-          Role.WORKER,
-          application.gig.title,
-          user.employerName,
-          application.gig.gigId,
-        );
+        // 名額已滿時排入候補名單
+        const waitlistPosition = await WaitlistManager.getPosition(dbClient, applicationId);
+
+        if (waitlistPosition !== null) {
+          return c.json({
+            message: "此申請已在候補名單中",
+            waitlistPosition,
+          }, 400);
+        }
+
+        const result = await WaitlistManager.approveOrWaitlist(application.gigId, applicationId, user.employerId);
+
+        if (result.status === "not_pending") {
+          return c.json({
+            message: "此申請已經處理過了",
+            currentStatus: result.currentStatus,
+          }, 409);
+        }
+
+        if (result.status === "waitlisted") {
+          await NotificationHelper.notifyWorkerWaitlisted(
+            application.workerId,
+            Role.WORKER,
+            application.gig.title,
+            result.position,
+            application.gig.gigId,
+          );
+
+          return c.json({
+            message: `名額已滿，申請已列入候補第 ${result.position} 位`,
+            data: {
+              applicationId: applicationId,
+              status: "pending_employer_review",
+              waitlistPosition: result.position,
+            },
+          }, 200);
+        }
+      } else {
+        const result = await ApplicationStateMachine.apply(applicationId, "employer_rejected", {
+          actor: "employer",
+          actorId: user.employerId,
+        });
+
+        if (!result.success) {
+          return c.json({
+            message: "此申請已經處理過了",
+            currentStatus: result.from,
+          }, 400);
+        }
       }
 
       const actionText = action === "approve" ? "核准，已通知打工者確認" : "拒絕";
@@ -865,5 +1068,67 @@ router.put(
   }
 );
 
+/**
+ * 查看申請的狀態歷程（申請的打工者、工作所屬商家或管理員）
+ * GET /application/:applicationId/history
+ */
+router.get("/:applicationId/history", authenticated, async (c) => {
+  try {
+    const user = c.get("user");
+    const applicationId = c.req.param("applicationId");
+
+    const application = await dbClient.query.gigApplications.findFirst({
+      where: eq(gigApplications.applicationId, applicationId),
+      columns: {
+        applicationId: true,
+        workerId: true,
+        status: true,
+      },
+      with: {
+        gig: {
+          columns: { gigId: true, title: true, employerId: true },
+        },
+      },
+    });
+
+    if (!application) {
+      return c.json({
+        message: "申請記錄不存在",
+      }, 404);
+    }
+
+    const canView =
+      (user.role === Role.WORKER && application.workerId === user.workerId) ||
+      (user.role === Role.EMPLOYER && application.gig.employerId === user.employerId) ||
+      user.role === Role.ADMIN;
+
+    if (!canView) {
+      return c.json({
+        message: "您無權查看此申請",
+      }, 403);
+    }
+
+    const history = await ApplicationStateMachine.getHistory(applicationId);
+
+    return c.json({
+      message: "獲取申請狀態歷程成功",
+      data: {
+        applicationId,
+        gigId: application.gig.gigId,
+        gigTitle: application.gig.title,
+        currentStatus: application.status,
+        history,
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取申請狀態歷程時發生錯誤:", error);
+    return c.json({
+      message: "獲取申請狀態歷程失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
 // 導出路由
 export default { path: "/application", router } as IRouter;
\ No newline at end of file
@@ -4,21 +4,43 @@ import { requireApprovedEmployer, requireEmployer, requireWorker } from "../Midd
 import type IRouter from "../Interfaces/IRouter";
 import type { HonoGenericContext } from "../Types/types";
 import dbClient from "../Client/DrizzleClient";
-import { eq, and, desc, gte, lte, sql } from "drizzle-orm";
+import { eq, and, desc, gte, lte, sql, inArray, ne } from "drizzle-orm";
 import { 
   gigs, 
   attendanceCodes, 
   attendanceRecords, 
   gigApplications,
-  employers
+  gigShifts,
+  employers,
+  workers,
+  attendanceCorrections
 } from "../Schema/DatabaseSchema";
 import { zValidator } from "@hono/zod-validator";
 import {
   attendanceCheckSchema,
   getAttendanceRecordsSchema,
-  updateAttendanceRecordSchema
+  updateAttendanceRecordSchema,
+  reviewAttendanceRecordSchema,
+  createAttendanceCorrectionSchema,
+  reviewAttendanceCorrectionSchema
 } from "../Types/zodSchema";
 import { DateUtils } from "../Utils/DateUtils";
+import { GigShiftManager } from "../Utils/GigShiftManager";
+import NoShowDetector from "../Utils/NoShowDetector";
+import {
+  generateAttendanceSecret,
+  generateRotatingCode,
+  getRotatingCodeWindow,
+  verifyRotatingCode,
+  buildAttendanceQrPayload,
+  evaluateCheckStatus,
+  ROTATING_CODE_PERIOD_SECONDS
+} from "../Utils/AttendanceUtils";
+import GeoUtils from "../Utils/GeoUtils";
+import NotificationHelper from "../Utils/NotificationHelper";
+import PayrollCalculator from "../Utils/PayrollCalculator";
+import RealtimeEvents from "../Utils/RealtimeEvents";
+import { Role } from "../Types/types";
 
 const router = new Hono<HonoGenericContext>();
 
@@ -33,25 +55,54 @@ router.post(
   zValidator("json", attendanceCheckSchema),
   async (c) => {
     const user = c.get("user");
-    const { gigId, attendanceCode, checkType } = c.req.valid("json");
+    const { gigId, attendanceCode, rotatingCode, latitude, longitude, checkType } = c.req.valid("json");
     
     try {
       const today = DateUtils.getCurrentDate();
+      let validCode: typeof attendanceCodes.$inferSelect | undefined;
+      let checkMethod: "code" | "rotating_code" | "geofence" = "geofence";
       
-      // 驗證打卡碼
-      const validCode = await dbClient.query.attendanceCodes.findFirst({
-        where: and(
-          eq(attendanceCodes.gigId, gigId),
-          eq(attendanceCodes.attendanceCode, attendanceCode),
-          eq(attendanceCodes.validDate, today),
-          gte(attendanceCodes.expiresAt, sql`now()`)
-        )
-      });
+      const codeGig = rotatingCode || attendanceCode
+        ? await dbClient.query.gigs.findFirst({
+            where: eq(gigs.gigId, gigId),
+            columns: { attendanceSecret: true }
+          })
+        : undefined;
 
-      if (!validCode) {
-        return c.json({
-          message: "無效的打卡碼或打卡碼已過期"
-        }, 400);
+      // 驗證動態打卡碼（只接受目前與前一個輪替區間）
+      if (rotatingCode) {
+        if (!codeGig?.attendanceSecret || !verifyRotatingCode(codeGig.attendanceSecret, rotatingCode)) {
+          return c.json({
+            message: "無效的動態打卡碼或打卡碼已過期"
+          }, 400);
+        }
+
+        checkMethod = "rotating_code";
+      } else if (attendanceCode) {
+        // 已啟用動態打卡碼的工作不再接受固定打卡碼，避免截圖或轉傳的打卡碼整天有效
+        if (codeGig?.attendanceSecret) {
+          return c.json({
+            message: "此工作已改用動態打卡碼，請輸入商家畫面上顯示的動態打卡碼"
+          }, 400);
+        }
+
+        // 驗證打卡碼（皆未提供時改以定位打卡）
+        validCode = await dbClient.query.attendanceCodes.findFirst({
+          where: and(
+            eq(attendanceCodes.gigId, gigId),
+            eq(attendanceCodes.attendanceCode, attendanceCode),
+            eq(attendanceCodes.validDate, today),
+            gte(attendanceCodes.expiresAt, sql`now()`)
+          )
+        });
+
+        if (!validCode) {
+          return c.json({
+            message: "無效的打卡碼或打卡碼已過期"
+          }, 400);
+        }
+
+        checkMethod = "code";
       }
 
       // 檢查是否有核准的工作申請
@@ -60,7 +111,12 @@ router.post(
           eq(gigApplications.workerId, user.workerId),
           eq(gigApplications.gigId, gigId),
           eq(gigApplications.status, "worker_confirmed")
-        )
+        ),
+        with: {
+          gig: {
+            columns: { employerId: true },
+          },
+        },
       });
 
       if (!application) {
@@ -69,32 +125,56 @@ router.post(
         }, 404);
       }
 
-      // 獲取工作資訊以判斷是否準時
-      const gig = await dbClient.query.gigs.findFirst({
-        where: eq(gigs.gigId, gigId),
-        columns: {
-          timeStart: true,
-          timeEnd: true
-        }
-      });
+      // 獲取今天的班次與前一天延續到今天的跨夜班次
+      const shifts = await GigShiftManager.getShiftsCoveringDate(gigId, today);
 
-      if (!gig) {
+      if (shifts.length === 0) {
         return c.json({
-          message: "工作不存在"
-        }, 404);
+          message: "今日沒有排定班次，無法打卡"
+        }, 400);
       }
 
-      // 檢查打卡記錄狀態
-      const todayRecords = await dbClient.query.attendanceRecords.findMany({
+      // 查詢這些班次的打卡記錄（已駁回的定位打卡不計）
+      const shiftRecords = await dbClient.query.attendanceRecords.findMany({
         where: and(
           eq(attendanceRecords.workerId, user.workerId),
           eq(attendanceRecords.gigId, gigId),
-          eq(attendanceRecords.workDate, today)
+          inArray(attendanceRecords.workDate, shifts.map(shift => shift.workDate)),
+          ne(attendanceRecords.reviewStatus, "rejected")
         )
       });
 
-      const hasCheckIn = todayRecords.some(record => record.checkType === "check_in");
-      const hasCheckOut = todayRecords.some(record => record.checkType === "check_out");
+      const now = DateUtils.getCurrentDateTime();
+      const candidates = shifts.map(shift => {
+        const { start, end } = DateUtils.getShiftRange(shift.workDate, shift.timeStart, shift.timeEnd);
+        const records = shiftRecords.filter(record => record.workDate === shift.workDate);
+
+        return {
+          shift,
+          start,
+          end,
+          hasCheckIn: records.some(record => record.checkType === "check_in"),
+          hasCheckOut: records.some(record => record.checkType === "check_out"),
+        };
+      });
+
+      // 找出此次打卡所屬的班次：
+      // 上班打卡為目前在打卡時段內的班次，下班打卡為已上班且尚未下班的班次
+      // 找不到時以今天的班次判斷，以回傳對應的錯誤訊息
+      const target = (checkType === "check_in"
+        ? candidates.find(candidate =>
+            !now.isBefore(candidate.start.clone().subtract(30, 'minutes')) &&
+            !now.isAfter(candidate.start.clone().add(30, 'minutes'))
+          )
+        : candidates.find(candidate =>
+            candidate.hasCheckIn &&
+            !candidate.hasCheckOut &&
+            !now.isAfter(candidate.end.clone().add(30, 'minutes'))
+          ))
+        ?? candidates.find(candidate => candidate.shift.workDate === today)
+        ?? candidates[candidates.length - 1];
+
+      const { shift, hasCheckIn, hasCheckOut } = target;
 
       // 檢查重複打卡
       if (checkType === "check_in" && hasCheckIn) {
@@ -116,17 +196,15 @@ router.post(
         }, 400);
       }
 
-      // 判斷打卡狀態和時間限制
-      const now = DateUtils.getCurrentDateTime();
-      const todayTimeStart = DateUtils.createDateTime(today, gig.timeStart);
-      const todayTimeEnd = DateUtils.createDateTime(today, gig.timeEnd);
+      // 判斷打卡狀態和時間限制（跨夜班次的下班時間在隔天）
+      const { start: shiftStart, end: shiftEnd } = target;
       
       let status: "on_time" | "late" | "early";
       
       if (checkType === "check_in") {
         // 上班打卡：最早工作開始前 30 分鐘，最晚遲到 30 分鐘
-        const earliestAllowed = todayTimeStart.clone().subtract(30, 'minutes');
-        const latestAllowed = todayTimeStart.clone().add(30, 'minutes');
+        const earliestAllowed = shiftStart.clone().subtract(30, 'minutes');
+        const latestAllowed = shiftStart.clone().add(30, 'minutes');
         
         if (now.isBefore(earliestAllowed)) {
           return c.json({
@@ -140,16 +218,16 @@ router.post(
           }, 400);
         }
         
-        if (now.isAfter(todayTimeStart)) {
+        if (now.isAfter(shiftStart)) {
           status = "late";
         } else {
           status = "on_time";
         }
       } else {
         // 下班打卡：最遲延後 30 分鐘
-        const latestAllowed = todayTimeEnd.clone().add(30, 'minutes');
+        const latestAllowed = shiftEnd.clone().add(30, 'minutes');
         
-        if (now.isBefore(todayTimeEnd)) {
+        if (now.isBefore(shiftEnd)) {
           status = "early";
         } else if (now.isAfter(latestAllowed)) {
           return c.json({
@@ -160,15 +238,85 @@ router.post(
         }
       }
 
-      await dbClient.insert(attendanceRecords).values({
+      // 定位打卡：計算與工作地點的距離，超出範圍的打卡交由商家審核
+      let distanceMeters: number | null = null;
+      let reviewStatus: "not_required" | "pending" = "not_required";
+
+      if (latitude !== undefined) {
+        const gig = await dbClient.query.gigs.findFirst({
+          where: eq(gigs.gigId, gigId),
+          columns: {
+            title: true,
+            employerId: true,
+            latitude: true,
+            longitude: true,
+            locationSource: true,
+            geofenceRadius: true,
+          }
+        });
+
+        // 行政區中心點僅供距離搜尋，不能作為打卡位置
+        if (gig.latitude === null || gig.longitude === null || gig.locationSource === "district") {
+          if (checkMethod === "geofence") {
+            return c.json({
+              message: "此工作尚未設定打卡位置，請使用打卡碼打卡"
+            }, 400);
+          }
+        } else {
+          distanceMeters = Math.round(GeoUtils.distanceInMeters(latitude, longitude, gig.latitude, gig.longitude));
+
+          if (checkMethod === "geofence" && distanceMeters > gig.geofenceRadius) {
+            reviewStatus = "pending";
+
+            await NotificationHelper.notifyEmployerAttendanceFlagged(
+              gig.employerId,
+              Role.EMPLOYER,
+              `${user.firstName} ${user.lastName}`,
+              gig.title,
+              distanceMeters,
+              gigId,
+            );
+          }
+        }
+      }
+
+      const [record] = await dbClient.insert(attendanceRecords).values({
         gigId,
         workerId: user.workerId,
-        attendanceCodeId: validCode.codeId,
+        attendanceCodeId: validCode?.codeId ?? null,
+        checkMethod,
+        latitude: latitude ?? null,
+        longitude: longitude ?? null,
+        distanceMeters,
+        reviewStatus,
         checkType,
-        workDate: today,
+        // 跨夜班次隔天的下班打卡仍歸屬於上班當天
+        workDate: shift.workDate,
         status: status
+      }).returning();
+
+      await RealtimeEvents.publish([application.gig.employerId], "attendance", {
+        recordId: record.recordId,
+        gigId,
+        workerId: user.workerId,
+        workerName: `${user.firstName} ${user.lastName}`,
+        checkType,
+        status,
+        reviewStatus,
+        workDate: shift.workDate,
+        createdAt: record.createdAt,
       });
 
+      // 上下班打卡都完成時產生該班次的薪資結算資料
+      PayrollCalculator.syncInBackground({ gigId, workerId: user.workerId, dateStart: shift.workDate, dateEnd: shift.workDate });
+
+      if (reviewStatus === "pending") {
+        return c.json({
+          message: `打卡位置距離工作地點 ${distanceMeters} 公尺，超出允許範圍，已送交商家審核`,
+          reviewStatus,
+        });
+      }
+
       return c.json({
         message: "打卡成功",
       });
@@ -182,6 +330,76 @@ router.post(
   }
 );
 
+/**
+ * 雇主獲取動態打卡碼與 QR Code 內容（每 30 秒輪替）
+ * GET /attendance/qr/:gigId
+ */
+router.get(
+  "/qr/:gigId",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  async (c) => {
+    const user = c.get("user");
+    const gigId = c.req.param("gigId");
+
+    try {
+      const gig = await dbClient.query.gigs.findFirst({
+        where: and(
+          eq(gigs.gigId, gigId),
+          eq(gigs.employerId, user.employerId),
+          eq(gigs.isActive, true)
+        ),
+        columns: { attendanceSecret: true }
+      });
+
+      if (!gig) {
+        return c.json({
+          message: "工作不存在或無權限查看"
+        }, 404);
+      }
+
+      const today = DateUtils.getCurrentDate();
+      const todayShifts = await GigShiftManager.getShiftsCoveringDate(gigId, today);
+
+      if (todayShifts.length === 0) {
+        return c.json({
+          message: "今日沒有排定班次，無需打卡碼"
+        }, 400);
+      }
+
+      // 首次使用時建立密鑰（同時請求時以先寫入者為準）
+      let secret = gig.attendanceSecret;
+
+      if (!secret) {
+        const [updatedGig] = await dbClient
+          .update(gigs)
+          .set({ attendanceSecret: sql`COALESCE(${gigs.attendanceSecret}, ${generateAttendanceSecret()})` })
+          .where(eq(gigs.gigId, gigId))
+          .returning({ attendanceSecret: gigs.attendanceSecret });
+
+        secret = updatedGig.attendanceSecret;
+      }
+
+      const window = getRotatingCodeWindow();
+      const code = generateRotatingCode(secret, window);
+
+      return c.json({
+        code,
+        qrPayload: buildAttendanceQrPayload(gigId, code),
+        periodSeconds: ROTATING_CODE_PERIOD_SECONDS,
+        expiresAt: new Date((window + 1) * ROTATING_CODE_PERIOD_SECONDS * 1000)
+      });
+
+    } catch (error) {
+      console.error("產生動態打卡碼時出錯:", error);
+      return c.json({
+        message: "產生動態打卡碼失敗"
+      }, 500);
+    }
+  }
+);
+
 /**
  * 打工者查看今天的工作安排
  * GET /attendance/today-jobs
@@ -195,13 +413,15 @@ router.get(
     
     try {
       const today = DateUtils.getCurrentDate();
+      const yesterday = DateUtils.addDays(today, -1);
       
-      const todayJobs = await dbClient
+      const shiftJobs = await dbClient
         .select({
           gigId: gigs.gigId,
           title: gigs.title,
-          timeStart: gigs.timeStart,
-          timeEnd: gigs.timeEnd,
+          workDate: gigShifts.workDate,
+          timeStart: gigShifts.timeStart,
+          timeEnd: gigShifts.timeEnd,
           city: gigs.city,
           district: gigs.district,
           address: gigs.address,
@@ -209,21 +429,36 @@ router.get(
         .from(gigApplications)
         .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
         .innerJoin(employers, eq(gigs.employerId, employers.employerId))
+        .innerJoin(gigShifts, and(
+          eq(gigShifts.gigId, gigs.gigId),
+          inArray(gigShifts.workDate, [yesterday, today])
+        ))
         .where(and(
           eq(gigApplications.workerId, user.workerId),
-          eq(gigApplications.status, "worker_confirmed"),
-          lte(gigs.dateStart, today),
-          gte(gigs.dateEnd, today)
-        ));
+          eq(gigApplications.status, "worker_confirmed")
+        ))
+        .orderBy(gigShifts.workDate, gigShifts.timeStart);
 
-      // 查詢今天的打卡記錄
+      // 今天的班次，以及前一天尚未結束的跨夜班次
+      const now = DateUtils.getCurrentDateTime();
+      const todayJobs = shiftJobs.filter(job => {
+        if (job.workDate === today) {
+          return true;
+        }
+        const { end } = DateUtils.getShiftRange(job.workDate, job.timeStart, job.timeEnd);
+        return DateUtils.isOvernight(job.timeStart, job.timeEnd) && !now.isAfter(end.clone().add(30, 'minutes'));
+      });
+
+      // 查詢這些班次的打卡記錄
       const todayAttendance = await dbClient.query.attendanceRecords.findMany({
         where: and(
           eq(attendanceRecords.workerId, user.workerId),
-          eq(attendanceRecords.workDate, today)
+          inArray(attendanceRecords.workDate, [yesterday, today]),
+          ne(attendanceRecords.reviewStatus, "rejected")
         ),
         columns: {
           gigId: true,
+          workDate: true,
           checkType: true
         }
       });
@@ -231,11 +466,12 @@ router.get(
       // 簽到和簽退狀態
       const jobsWithCheckStatus = todayJobs.map(job => ({
         ...job,
+        isOvernight: DateUtils.isOvernight(job.timeStart, job.timeEnd),
         checkedIn: todayAttendance.some(record => 
-          record.gigId === job.gigId && record.checkType === "check_in"
+          record.gigId === job.gigId && record.workDate === job.workDate && record.checkType === "check_in"
         ),
         checkedOut: todayAttendance.some(record => 
-          record.gigId === job.gigId && record.checkType === "check_out"
+          record.gigId === job.gigId && record.workDate === job.workDate && record.checkType === "check_out"
         )
       }));
       
@@ -350,6 +586,9 @@ router.get(
         workDate: record.workDate,
         status: record.status,
         notes: record.notes,
+        checkMethod: record.checkMethod,
+        distanceMeters: record.distanceMeters,
+        reviewStatus: record.reviewStatus,
         gig: user.role === "worker" ? record.gig : undefined,
         worker: user.role === "employer" ? record.worker : undefined,
         updatedAt: record.updatedAt,
@@ -440,4 +679,579 @@ router.put(
   }
 );
 
+/**
+ * 雇主查看待審核的定位打卡（超出打卡範圍）
+ * GET /attendance/review
+ */
+router.get(
+  "/review",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  async (c) => {
+    const user = c.get("user");
+
+    try {
+      const gigId = c.req.query("gigId");
+      const limit = c.req.query("limit") || "10";
+      const offset = c.req.query("offset") || "0";
+      const requestLimit = Number.parseInt(limit);
+      const requestOffset = Number.parseInt(offset);
+
+      const whereConditions = [
+        eq(gigs.employerId, user.employerId),
+        eq(attendanceRecords.reviewStatus, "pending")
+      ];
+
+      if (gigId) whereConditions.push(eq(attendanceRecords.gigId, gigId));
+
+      const records = await dbClient
+        .select({
+          recordId: attendanceRecords.recordId,
+          gigId: attendanceRecords.gigId,
+          gigTitle: gigs.title,
+          workerId: attendanceRecords.workerId,
+          workerFirstName: workers.firstName,
+          workerLastName: workers.lastName,
+          checkType: attendanceRecords.checkType,
+          workDate: attendanceRecords.workDate,
+          status: attendanceRecords.status,
+          latitude: attendanceRecords.latitude,
+          longitude: attendanceRecords.longitude,
+          distanceMeters: attendanceRecords.distanceMeters,
+          geofenceRadius: gigs.geofenceRadius,
+          createdAt: attendanceRecords.createdAt,
+        })
+        .from(attendanceRecords)
+        .innerJoin(gigs, eq(attendanceRecords.gigId, gigs.gigId))
+        .innerJoin(workers, eq(attendanceRecords.workerId, workers.workerId))
+        .where(and(...whereConditions))
+        .orderBy(desc(attendanceRecords.createdAt))
+        .limit(requestLimit + 1) // 多查一筆來判斷hasMore
+        .offset(requestOffset);
+
+      const hasMore = records.length > requestLimit;
+      const returnRecords = hasMore ? records.slice(0, requestLimit) : records;
+
+      const formattedRecords = returnRecords.map(({ workerFirstName, workerLastName, ...record }) => ({
+        ...record,
+        workerName: `${workerFirstName} ${workerLastName}`,
+      }));
+
+      return c.json({
+        records: formattedRecords,
+        pagination: {
+          limit: requestLimit,
+          offset: requestOffset,
+          hasMore,
+          returned: formattedRecords.length
+        }
+      });
+
+    } catch (error) {
+      console.error("查詢待審核打卡記錄時出錯:", error);
+      return c.json({
+        message: "查詢失敗"
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 雇主審核超出範圍的定位打卡
+ * PUT /attendance/record/:recordId/review
+ */
+router.put(
+  "/record/:recordId/review",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", reviewAttendanceRecordSchema),
+  async (c) => {
+    const user = c.get("user");
+    const recordId = c.req.param("recordId");
+    const { action, notes } = c.req.valid("json");
+
+    try {
+      const record = await dbClient
+        .select({
+          recordId: attendanceRecords.recordId,
+          reviewStatus: attendanceRecords.reviewStatus,
+        })
+        .from(attendanceRecords)
+        .innerJoin(gigs, eq(attendanceRecords.gigId, gigs.gigId))
+        .where(and(
+          eq(attendanceRecords.recordId, recordId),
+          eq(gigs.employerId, user.employerId)
+        ))
+        .limit(1);
+
+      if (record.length === 0) {
+        return c.json({
+          message: "打卡記錄不存在或無權限審核"
+        }, 404);
+      }
+
+      if (record[0].reviewStatus !== "pending") {
+        return c.json({
+          message: "此打卡記錄不需要審核或已審核",
+          reviewStatus: record[0].reviewStatus
+        }, 400);
+      }
+
+      const [updatedRecord] = await dbClient
+        .update(attendanceRecords)
+        .set({
+          reviewStatus: action === "approve" ? "approved" : "rejected",
+          reviewedAt: sql`now()`,
+          notes,
+          updatedAt: sql`now()`
+        })
+        .where(eq(attendanceRecords.recordId, recordId))
+        .returning();
+
+      if (action === "approve") {
+        PayrollCalculator.syncInBackground({
+          gigId: updatedRecord.gigId,
+          workerId: updatedRecord.workerId,
+          dateStart: updatedRecord.workDate,
+          dateEnd: updatedRecord.workDate,
+        });
+      }
+
+      return c.json({
+        message: action === "approve" ? "已核准打卡記錄" : "已駁回打卡記錄",
+        record: {
+          recordId: updatedRecord.recordId,
+          checkType: updatedRecord.checkType,
+          reviewStatus: updatedRecord.reviewStatus,
+          notes: updatedRecord.notes,
+          reviewedAt: updatedRecord.reviewedAt
+        }
+      });
+
+    } catch (error) {
+      console.error("審核打卡記錄時出錯:", error);
+      return c.json({
+        message: "審核失敗"
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 打工者提出打卡補登申請（漏打卡或打卡時間有誤）
+ * POST /attendance/corrections
+ */
+router.post(
+  "/corrections",
+  authenticated,
+  requireWorker,
+  zValidator("json", createAttendanceCorrectionSchema),
+  async (c) => {
+    const user = c.get("user");
+    const { gigId, workDate, checkType, claimedAt, reason } = c.req.valid("json");
+
+    try {
+      // 檢查是否有核准的工作申請
+      const application = await dbClient.query.gigApplications.findFirst({
+        where: and(
+          eq(gigApplications.workerId, user.workerId),
+          eq(gigApplications.gigId, gigId),
+          eq(gigApplications.status, "worker_confirmed")
+        ),
+        with: {
+          gig: {
+            columns: {
+              title: true,
+              employerId: true,
+            }
+          }
+        }
+      });
+
+      if (!application) {
+        return c.json({
+          message: "未找到核准的工作申請"
+        }, 404);
+      }
+
+      const shift = await GigShiftManager.getShiftForDate(gigId, workDate);
+
+      if (!shift) {
+        return c.json({
+          message: "該日沒有排定班次，無法申請補登"
+        }, 400);
+      }
+
+      // 主張的打卡時間必須落在班次前後 30 分鐘內，且不能是未來時間
+      const { start, end } = DateUtils.getShiftRange(shift.workDate, shift.timeStart, shift.timeEnd);
+      const earliestAllowed = start.clone().subtract(30, 'minutes');
+      const latestAllowed = end.clone().add(30, 'minutes');
+
+      if (earliestAllowed.isAfter(claimedAt) || latestAllowed.isBefore(claimedAt)) {
+        return c.json({
+          message: `補登時間必須介於 ${earliestAllowed.format('MM/DD HH:mm')} 至 ${latestAllowed.format('MM/DD HH:mm')} 之間`
+        }, 400);
+      }
+
+      if (DateUtils.getCurrentDateTime().isBefore(claimedAt)) {
+        return c.json({
+          message: "補登時間不能是未來的時間"
+        }, 400);
+      }
+
+      // 同一筆打卡只能有一個待審核的申請
+      const pendingCorrection = await dbClient.query.attendanceCorrections.findFirst({
+        where: and(
+          eq(attendanceCorrections.workerId, user.workerId),
+          eq(attendanceCorrections.gigId, gigId),
+          eq(attendanceCorrections.workDate, workDate),
+          eq(attendanceCorrections.checkType, checkType),
+          eq(attendanceCorrections.status, "pending")
+        ),
+        columns: { correctionId: true }
+      });
+
+      if (pendingCorrection) {
+        return c.json({
+          message: "此打卡已有待審核的補登申請"
+        }, 400);
+      }
+
+      // 已有打卡記錄時為修正時間，否則為補登漏打的卡
+      const existingRecord = await dbClient.query.attendanceRecords.findFirst({
+        where: and(
+          eq(attendanceRecords.workerId, user.workerId),
+          eq(attendanceRecords.gigId, gigId),
+          eq(attendanceRecords.workDate, workDate),
+          eq(attendanceRecords.checkType, checkType),
+          ne(attendanceRecords.reviewStatus, "rejected")
+        ),
+        columns: { recordId: true }
+      });
+
+      const [correction] = await dbClient
+        .insert(attendanceCorrections)
+        .values({
+          gigId,
+          workerId: user.workerId,
+          recordId: existingRecord?.recordId ?? null,
+          workDate,
+          checkType,
+          claimedAt,
+          reason,
+        })
+        .returning();
+
+      await NotificationHelper.notifyEmployerCorrectionRequested(
+        application.gig.employerId,
+        Role.EMPLOYER,
+        `${user.firstName} ${user.lastName}`,
+        application.gig.title,
+        workDate,
+        correction.correctionId,
+      );
+
+      return c.json({
+        message: "補登申請已送出，等待商家審核",
+        correction: {
+          correctionId: correction.correctionId,
+          correctionType: existingRecord ? "amend" : "missing",
+          status: correction.status,
+          createdAt: correction.createdAt
+        }
+      }, 201);
+
+    } catch (error) {
+      console.error("提出打卡補登申請時出錯:", error);
+      return c.json({
+        message: "提出補登申請失敗"
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 查看打卡補登申請（打工者查看自己的申請，雇主查看自己工作的申請）
+ * GET /attendance/corrections
+ */
+router.get(
+  "/corrections",
+  authenticated,
+  async (c) => {
+    const user = c.get("user");
+
+    try {
+      const gigId = c.req.query("gigId");
+      const status = c.req.query("status");
+      const limit = c.req.query("limit") || "10";
+      const offset = c.req.query("offset") || "0";
+      const requestLimit = Number.parseInt(limit);
+      const requestOffset = Number.parseInt(offset);
+      const whereConditions = [];
+
+      if (user.role === "worker") {
+        whereConditions.push(eq(attendanceCorrections.workerId, user.workerId));
+      } else if (user.role === "employer") {
+        whereConditions.push(eq(gigs.employerId, user.employerId));
+      } else {
+        return c.json({
+          message: "無權限查看補登申請"
+        }, 403);
+      }
+
+      if (gigId) whereConditions.push(eq(attendanceCorrections.gigId, gigId));
+      if (status === "pending" || status === "approved" || status === "rejected") {
+        whereConditions.push(eq(attendanceCorrections.status, status));
+      }
+
+      const corrections = await dbClient
+        .select({
+          correctionId: attendanceCorrections.correctionId,
+          gigId: attendanceCorrections.gigId,
+          gigTitle: gigs.title,
+          workerId: attendanceCorrections.workerId,
+          workerFirstName: workers.firstName,
+          workerLastName: workers.lastName,
+          recordId: attendanceCorrections.recordId,
+          workDate: attendanceCorrections.workDate,
+          checkType: attendanceCorrections.checkType,
+          claimedAt: attendanceCorrections.claimedAt,
+          reason: attendanceCorrections.reason,
+          status: attendanceCorrections.status,
+          originalValues: attendanceCorrections.originalValues,
+          correctedValues: attendanceCorrections.correctedValues,
+          reviewNotes: attendanceCorrections.reviewNotes,
+          reviewedAt: attendanceCorrections.reviewedAt,
+          createdAt: attendanceCorrections.createdAt,
+        })
+        .from(attendanceCorrections)
+        .innerJoin(gigs, eq(attendanceCorrections.gigId, gigs.gigId))
+        .innerJoin(workers, eq(attendanceCorrections.workerId, workers.workerId))
+        .where(and(...whereConditions))
+        .orderBy(desc(attendanceCorrections.createdAt))
+        .limit(requestLimit + 1) // 多查一筆來判斷hasMore
+        .offset(requestOffset);
+
+      const hasMore = corrections.length > requestLimit;
+      const returnCorrections = hasMore ? corrections.slice(0, requestLimit) : corrections;
+
+      const formattedCorrections = returnCorrections.map(({ workerFirstName, workerLastName, ...correction }) => ({
+        ...correction,
+        workerName: `${workerFirstName} ${workerLastName}`,
+      }));
+
+      return c.json({
+        corrections: formattedCorrections,
+        pagination: {
+          limit: requestLimit,
+          offset: requestOffset,
+          hasMore,
+          returned: formattedCorrections.length
+        }
+      });
+
+    } catch (error) {
+      console.error("查詢打卡補登申請時出錯:", error);
+      return c.json({
+        message: "查詢失敗"
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 雇主審核打卡補登申請，核准後建立或修正打卡記錄
+ * PUT /attendance/corrections/:correctionId/review
+ */
+router.put(
+  "/corrections/:correctionId/review",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", reviewAttendanceCorrectionSchema),
+  async (c) => {
+    const user = c.get("user");
+    const correctionId = c.req.param("correctionId");
+    const { action, reviewNotes } = c.req.valid("json");
+
+    try {
+      const [correction] = await dbClient
+        .select({
+          correction: attendanceCorrections,
+          gigTitle: gigs.title,
+        })
+        .from(attendanceCorrections)
+        .innerJoin(gigs, eq(attendanceCorrections.gigId, gigs.gigId))
+        .where(and(
+          eq(attendanceCorrections.correctionId, correctionId),
+          eq(gigs.employerId, user.employerId)
+        ))
+        .limit(1);
+
+      if (!correction) {
+        return c.json({
+          message: "補登申請不存在或無權限審核"
+        }, 404);
+      }
+
+      const request = correction.correction;
+
+      // 依班次時間重新判斷打卡狀態
+      let status: "on_time" | "late" | "early" = "on_time";
+
+      if (action === "approve") {
+        const shift = await GigShiftManager.getShiftForDate(request.gigId, request.workDate);
+
+        if (shift) {
+          const { start, end } = DateUtils.getShiftRange(shift.workDate, shift.timeStart, shift.timeEnd);
+          status = evaluateCheckStatus(request.checkType, request.claimedAt, start, end);
+        }
+      }
+
+      const notes = `補登申請：${request.reason}`;
+
+      const reviewed = await dbClient.transaction(async (tx) => {
+        // 以待審核狀態作為更新條件，同時審核時只有一個請求會成功
+        const [claimed] = await tx
+          .update(attendanceCorrections)
+          .set({
+            status: action === "approve" ? "approved" : "rejected",
+            reviewNotes,
+            reviewedAt: sql`now()`,
+            updatedAt: sql`now()`
+          })
+          .where(and(
+            eq(attendanceCorrections.correctionId, correctionId),
+            eq(attendanceCorrections.status, "pending")
+          ))
+          .returning({ correctionId: attendanceCorrections.correctionId });
+
+        if (!claimed) {
+          return false;
+        }
+
+        if (action === "reject") {
+          return true;
+        }
+
+        // 未指定記錄時，沿用申請後才打的卡或先前補登產生的同類型記錄，避免同一班次出現兩筆上班或下班打卡
+        const [originalRecord] = await tx
+          .select()
+          .from(attendanceRecords)
+          .where(request.recordId
+            ? eq(attendanceRecords.recordId, request.recordId)
+            : and(
+                eq(attendanceRecords.gigId, request.gigId),
+                eq(attendanceRecords.workerId, request.workerId),
+                eq(attendanceRecords.workDate, request.workDate),
+                eq(attendanceRecords.checkType, request.checkType),
+                ne(attendanceRecords.reviewStatus, "rejected")
+              ))
+          .orderBy(desc(attendanceRecords.createdAt))
+          .limit(1);
+
+        let recordId: string;
+
+        if (originalRecord) {
+          // 修正既有記錄的打卡時間（打卡時間即記錄的 createdAt）
+          await tx
+            .update(attendanceRecords)
+            .set({
+              createdAt: request.claimedAt,
+              status,
+              notes,
+              reviewStatus: originalRecord.reviewStatus === "pending" ? "approved" : originalRecord.reviewStatus,
+              updatedAt: sql`now()`
+            })
+            .where(eq(attendanceRecords.recordId, originalRecord.recordId));
+
+          recordId = originalRecord.recordId;
+        } else {
+          // 補登漏打的卡
+          const [newRecord] = await tx
+            .insert(attendanceRecords)
+            .values({
+              gigId: request.gigId,
+              workerId: request.workerId,
+              checkMethod: "correction",
+              checkType: request.checkType,
+              workDate: request.workDate,
+              status,
+              notes,
+              createdAt: request.claimedAt,
+            })
+            .returning({ recordId: attendanceRecords.recordId });
+
+          recordId = newRecord.recordId;
+        }
+
+        if (request.checkType === "check_in") {
+          await NoShowDetector.clearNoShow(tx, request.gigId, request.workerId, request.workDate);
+        }
+
+        await tx
+          .update(attendanceCorrections)
+          .set({
+            recordId,
+            originalValues: originalRecord
+              ? {
+                  checkedAt: originalRecord.createdAt,
+                  status: originalRecord.status,
+                  notes: originalRecord.notes,
+                }
+              : null,
+            correctedValues: {
+              checkedAt: request.claimedAt,
+              status,
+              notes,
+            },
+          })
+          .where(eq(attendanceCorrections.correctionId, correctionId));
+
+        return true;
+      });
+
+      if (!reviewed) {
+        return c.json({
+          message: "此補登申請已審核"
+        }, 409);
+      }
+
+      if (action === "approve") {
+        PayrollCalculator.syncInBackground({
+          gigId: request.gigId,
+          workerId: request.workerId,
+          dateStart: request.workDate,
+          dateEnd: request.workDate,
+        });
+      }
+
+      await NotificationHelper.notifyWorkerCorrectionReviewed(
+        request.workerId,
+        Role.WORKER,
+        correction.gigTitle,
+        request.workDate,
+        action === "approve",
+        correctionId,
+      );
+
+      return c.json({
+        message: action === "approve" ? "已核准補登申請，打卡記錄已更新" : "已駁回補登申請",
+        correction: {
+          correctionId,
+          status: action === "approve" ? "approved" : "rejected"
+        }
+      });
+
+    } catch (error) {
+      console.error("審核打卡補登申請時出錯:", error);
+      return c.json({
+        message: "審核失敗"
+      }, 500);
+    }
+  }
+);
+
 export default { path: "/attendance", router } as IRouter;
\ No newline at end of file
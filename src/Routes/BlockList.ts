@@ -0,0 +1,157 @@
+import { Hono } from "hono";
+import { authenticated } from "../Middleware/authentication";
+import { requireEmployer, requireApprovedEmployer } from "../Middleware/guards";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext } from "../Types/types";
+import dbClient from "../Client/DrizzleClient";
+import { eq, and, desc } from "drizzle-orm";
+import { workers, employerBlocks } from "../Schema/DatabaseSchema";
+import { zValidator } from "@hono/zod-validator";
+import { blockWorkerSchema } from "../Types/zodSchema";
+import BlockListManager from "../Utils/BlockListManager";
+
+const router = new Hono<HonoGenericContext>();
+
+/**
+ * 商家封鎖打工者
+ * POST /block-list
+ */
+router.post(
+  "/",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", blockWorkerSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { workerId, reason } = c.req.valid("json");
+
+      const worker = await dbClient.query.workers.findFirst({
+        where: eq(workers.workerId, workerId),
+        columns: { workerId: true },
+      });
+
+      if (!worker) {
+        return c.json({
+          message: "打工者不存在",
+        }, 404);
+      }
+
+      const block = await BlockListManager.block(user.employerId, workerId, reason);
+
+      if (!block) {
+        return c.json({
+          message: "此打工者已在封鎖名單中",
+        }, 409);
+      }
+
+      return c.json({
+        message: "已封鎖此打工者",
+        data: block,
+      }, 201);
+
+    } catch (error) {
+      console.error("封鎖打工者時發生錯誤:", error);
+      return c.json({
+        message: "封鎖打工者失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 商家查看封鎖名單
+ * GET /block-list?limit=10&offset=0
+ */
+router.get("/", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const limit = c.req.query("limit") || "10";
+    const offset = c.req.query("offset") || "0";
+
+    const requestLimit = Number.parseInt(limit);
+    const requestOffset = Number.parseInt(offset);
+
+    const blocks = await dbClient
+      .select({
+        blockId: employerBlocks.blockId,
+        workerId: employerBlocks.workerId,
+        workerFirstName: workers.firstName,
+        workerLastName: workers.lastName,
+        reason: employerBlocks.reason,
+        createdAt: employerBlocks.createdAt,
+      })
+      .from(employerBlocks)
+      .innerJoin(workers, eq(employerBlocks.workerId, workers.workerId))
+      .where(eq(employerBlocks.employerId, user.employerId))
+      .orderBy(desc(employerBlocks.createdAt))
+      .limit(requestLimit + 1) // 多查一筆來判斷 hasMore
+      .offset(requestOffset);
+
+    const hasMore = blocks.length > requestLimit;
+    const actualBlocks = hasMore ? blocks.slice(0, requestLimit) : blocks;
+
+    return c.json({
+      message: "獲取封鎖名單成功",
+      data: {
+        blocks: actualBlocks.map(({ workerFirstName, workerLastName, ...block }) => ({
+          ...block,
+          workerName: `${workerFirstName} ${workerLastName}`,
+        })),
+        pagination: {
+          limit: requestLimit,
+          offset: requestOffset,
+          hasMore,
+          returned: actualBlocks.length,
+        },
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取封鎖名單時發生錯誤:", error);
+    return c.json({
+      message: "獲取封鎖名單失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+/**
+ * 商家解除封鎖打工者
+ * DELETE /block-list/:workerId
+ */
+router.delete("/:workerId", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const workerId = c.req.param("workerId");
+
+    const [removed] = await dbClient
+      .delete(employerBlocks)
+      .where(and(
+        eq(employerBlocks.employerId, user.employerId),
+        eq(employerBlocks.workerId, workerId)
+      ))
+      .returning({ blockId: employerBlocks.blockId });
+
+    if (!removed) {
+      return c.json({
+        message: "此打工者不在封鎖名單中",
+      }, 404);
+    }
+
+    return c.json({
+      message: "已解除封鎖",
+    }, 200);
+
+  } catch (error) {
+    console.error("解除封鎖時發生錯誤:", error);
+    return c.json({
+      message: "解除封鎖失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+export default { path: "/block-list", router } as IRouter;
@@ -7,12 +7,21 @@ import dbClient from "../Client/DrizzleClient";
 import { eq, and, desc, sql, gte, lte, lt, gt, count, inArray } from "drizzle-orm";
 import { gigs, attendanceCodes, gigApplications } from "../Schema/DatabaseSchema";
 import { zValidator } from "@hono/zod-validator";
-import { createGigSchema, updateGigSchema } from "../Types/zodSchema";
+import { createGigSchema, updateGigSchema, updateGigLocationSchema } from "../Types/zodSchema";
 import { uploadEnvironmentPhotos } from "../Middleware/fileUpload";
 import { FileManager, s3Client, GigCache } from "../Client/Cache/Index";
 import { DateUtils } from "../Utils/DateUtils";
 import { generateAttendanceCode } from "../Utils/AttendanceUtils";
 import { ApplicationConflictChecker } from "../Utils/ApplicationConflictChecker";
+import { GigShiftManager, type ShiftInput } from "../Utils/GigShiftManager";
+import WaitlistManager from "../Utils/WaitlistManager";
+import BlockListManager from "../Utils/BlockListManager";
+import SavedSearchManager from "../Utils/SavedSearchManager";
+import GigRecommender from "../Utils/GigRecommender";
+import GigFacets from "../Utils/GigFacets";
+import CursorPagination, { type CursorSortKey } from "../Utils/CursorPagination";
+import GeoUtils from "../Utils/GeoUtils";
+import PayrollCalculator from "../Utils/PayrollCalculator";
 import { Role } from "../Types/types";
 
 const router = new Hono<HonoGenericContext>();
@@ -176,34 +185,45 @@ async function formatEnvironmentPhotos(environmentPhotos: any, limit?: number) {
   return environmentPhotos;
 }
 
-// 構建工作數據物件
-function buildGigData(body: any, user: any, environmentPhotosInfo: any) {
-  const {
-    dateStart,
-    dateEnd,
-  } = body;
+// 構建工作數據物件（日期與時段由班次摘要而來）
+function buildGigData(body: any, user: any, environmentPhotosInfo: any, shifts: ShiftInput[]) {
+  const { shifts: _shifts, ...gigBody } = body;
+  const summary = GigShiftManager.summarize(shifts);
 
   return {
     employerId: user.employerId,
-    ...body,
-    dateStart: DateUtils.formatDate(dateStart),
-    dateEnd: DateUtils.formatDate(dateEnd),
-    publishedAt: DateUtils.formatDate(dateStart),
+    ...gigBody,
+    ...summary,
+    publishedAt: summary.dateStart,
     environmentPhotos: environmentPhotosInfo ? environmentPhotosInfo : null,
   };
 }
 
+// 未指定班次時，依日期範圍與每日時段產生每天一個班次
+function resolveShifts(body: any): ShiftInput[] {
+  if (body.shifts) {
+    return body.shifts;
+  }
+
+  return GigShiftManager.buildDailyShifts(body.dateStart, body.dateEnd, body.timeStart, body.timeEnd, body.headcount);
+}
+
 // 獲取所有可用工作
 router.get("/public", async (c) => {
   try {
     const limit = c.req.query("limit") || "10";
     const page = c.req.query("page") || "1";
+    const cursor = c.req.query("cursor");
     const city = c.req.query("city");
     const district = c.req.query("district");
     const minRate = c.req.query("minRate");
     const maxRate = c.req.query("maxRate");
     const dateStart = c.req.query("dateStart");
     const searchQuery = c.req.query("searchQuery");
+    const lat = c.req.query("lat");
+    const lng = c.req.query("lng");
+    const radiusKm = c.req.query("radiusKm");
+    const sort = c.req.query("sort");
 
     // 驗證 city 和 district 必須成對
     if (district && !city) {
@@ -215,6 +235,32 @@ router.get("/public", async (c) => {
       );
     }
 
+    // 距離搜尋：lat 與 lng 必須成對，radiusKm 與 sort=distance 需要提供座標
+    const latitude = lat !== undefined ? Number(lat) : null;
+    const longitude = lng !== undefined ? Number(lng) : null;
+    const radiusKmFilter = radiusKm !== undefined ? Number(radiusKm) : null;
+    const hasLocation = latitude !== null && longitude !== null;
+
+    if ((latitude === null) !== (longitude === null)) {
+      return c.json({ error: "緯度與經度必須同時提供" }, 400);
+    }
+
+    if (hasLocation && (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180))) {
+      return c.json({ error: "座標格式不正確" }, 400);
+    }
+
+    if (radiusKmFilter !== null && (!hasLocation || !(radiusKmFilter > 0 && radiusKmFilter <= 100))) {
+      return c.json({ error: "依距離篩選時必須提供座標，且半徑需介於 0 到 100 公里" }, 400);
+    }
+
+    if (sort !== undefined && sort !== "date" && sort !== "distance") {
+      return c.json({ error: "排序方式必須為 date 或 distance" }, 400);
+    }
+
+    if (sort === "distance" && !hasLocation) {
+      return c.json({ error: "依距離排序時必須提供座標" }, 400);
+    }
+
     const requestLimit = Number.parseInt(limit);
     const requestPage = Number.parseInt(page);
     const minRateFilter = minRate ? Number.parseInt(minRate) : null;
@@ -251,35 +297,94 @@ router.get("/public", async (c) => {
     // PGroonga 關鍵字搜尋（title / description 任一符合）
     searchQuery ? whereConditions.push(sql`(${gigs.title} &@~ ${searchQuery} OR ${gigs.description} &@~ ${searchQuery})`) : null;
 
-    const availableGigs = await dbClient.query.gigs.findMany({
-      where: and(...whereConditions),
-      orderBy: [
-        sql`CASE WHEN ${gigs.dateStart}::date >= ${today}::date THEN 0 ELSE 1 END ASC`,
-        sql`ABS(${gigs.dateStart}::date - ${today}::date) ASC`,
-      ],
-      limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestLimit * (requestPage - 1),
-      columns: {
-        gigId: true,
-        title: true,
-        hourlyRate: true,
-        city: true,
-        district: true,
-        updatedAt: true,
-      },
-    });
+    // 已登入的打工者看不到封鎖自己的商家所刊登的工作
+    const session = c.get("session");
+    const userId = session.get("id");
+
+    if (userId && session.get("role") === Role.WORKER) {
+      whereConditions.push(BlockListManager.excludeBlockedGigs(userId));
+    }
+
+    const distanceKm = hasLocation ? GeoUtils.distanceKmSql(gigs.latitude, gigs.longitude, latitude, longitude) : null;
 
-    const hasMore = availableGigs.length > requestLimit;
-    hasMore ? availableGigs.pop() : null;
+    if (radiusKmFilter) {
+      whereConditions.push(GeoUtils.boundingBoxSql(gigs.latitude, gigs.longitude, latitude, longitude, radiusKmFilter));
+      whereConditions.push(sql`${distanceKm} <= ${radiusKmFilter}`);
+    }
+
+    // 先顯示尚未開始的工作，再依開始日期與今天的距離排序
+    // 排序依賴今天的日期，游標記錄產生當天的日期，跨日後舊游標失效
+    const datePriority = sql<number>`CASE WHEN ${gigs.dateStart}::date >= ${today}::date THEN 0 ELSE 1 END`;
+    const dateDistance = sql<number>`ABS(${gigs.dateStart}::date - ${today}::date)`;
+
+    // 依距離排序時沒有座標的工作排在最後
+    const cursorKeys: CursorSortKey[] = [
+      ...(sort === "distance" ? [
+        { expression: sql`(${distanceKm} IS NULL)::int`, direction: "asc" as const, type: "number" as const },
+        { expression: sql`COALESCE(${distanceKm}, 0)`, direction: "asc" as const, type: "number" as const },
+      ] : []),
+      { expression: datePriority, direction: "asc", type: "number" },
+      { expression: dateDistance, direction: "asc", type: "number" },
+      { expression: gigs.gigId, direction: "asc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys, today) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({ error: "無效或已過期的分頁游標，請重新載入" }, 400);
+    }
+
+    const where = and(...whereConditions);
+
+    // 篩選介面所需的分類數量與列表使用相同的查詢條件（不含游標）
+    const [availableGigs, facets] = await Promise.all([
+      dbClient.query.gigs.findMany({
+        where: cursorValues ? and(where, CursorPagination.after(cursorKeys, cursorValues)) : where,
+        orderBy: CursorPagination.orderBy(cursorKeys),
+        limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
+        offset: cursorValues ? 0 : requestLimit * (requestPage - 1),
+        columns: {
+          gigId: true,
+          title: true,
+          hourlyRate: true,
+          city: true,
+          district: true,
+          updatedAt: true,
+        },
+        extras: {
+          // 距離（公里），未提供座標或工作沒有座標時為 null
+          distanceKm: (distanceKm ?? sql<number | null>`NULL::double precision`).as("distance_km"),
+          datePriority: datePriority.as("date_priority"),
+          dateDistance: dateDistance.as("date_distance"),
+        },
+      }),
+      GigFacets.compute(where),
+    ]);
+
+    const { items: pageGigs, hasMore, nextCursor } = CursorPagination.paginate(
+      availableGigs,
+      requestLimit,
+      gig => [
+        ...(sort === "distance" ? [gig.distanceKm === null ? 1 : 0, gig.distanceKm === null ? 0 : Number(gig.distanceKm)] : []),
+        Number(gig.datePriority),
+        Number(gig.dateDistance),
+        gig.gigId,
+      ],
+      today
+    );
 
     const response_data = {
-      gigs: availableGigs,
+      gigs: pageGigs.map(({ datePriority, dateDistance, ...gig }) => ({
+        ...gig,
+        distanceKm: gig.distanceKm === null ? null : Number(Number(gig.distanceKm).toFixed(2)),
+      })),
       pagination: {
         limit: requestLimit,
         page: requestPage,
         hasMore,
-        returned: availableGigs.length,
+        returned: pageGigs.length,
+        nextCursor,
       },
+      facets,
       filters: {
         city,
         district,
@@ -287,6 +392,10 @@ router.get("/public", async (c) => {
         maxRate: maxRateFilter,
         dateStart: searchDateStart,
         searchQuery: searchQuery || null,
+        lat: latitude,
+        lng: longitude,
+        radiusKm: radiusKmFilter,
+        sort: sort || "date",
       },
     };
 
@@ -315,10 +424,20 @@ router.get("/public/:gigId", async (c) => {
       sql`(${gigs.unlistedAt} IS NULL OR ${gigs.unlistedAt} >= ${today})`,
     ];
 
+    // 檢查用戶是否已登入
+    const session = c.get("session");
+    const userId = session.get("id");
+    const role = session.get("role");
+
+    if (userId && role === Role.WORKER) {
+      whereConditions.push(BlockListManager.excludeBlockedGigs(userId));
+    }
+
     const gig = await dbClient.query.gigs.findFirst({
       where: and(...whereConditions),
       columns: {
         createdAt: false,
+        attendanceSecret: false,
       },
       with: {
         employer: {
@@ -350,10 +469,6 @@ router.get("/public/:gigId", async (c) => {
       }
     }
 
-    // 檢查用戶是否已登入
-    const session = c.get("session");
-    const userId = session.get("id");
-    const role = session.get("role");
     let applicationStatus: string | null;
     let hasConflict = false;
     let hasPendingConflict = false;
@@ -394,6 +509,7 @@ router.get("/public/:gigId", async (c) => {
     const formattedGig = {
       ...gig,
       environmentPhotos: await formatEnvironmentPhotos(gig.environmentPhotos),
+      shifts: await GigShiftManager.getGigShifts(gigId, { dateStart: today }),
       applicationStatus,
       hasConflict,
       hasPendingConflict,
@@ -425,6 +541,15 @@ router.get("/public/:gigId/conflicts", authenticated, requireWorker, async (c) =
       sql`(${gigs.unlistedAt} IS NULL OR ${gigs.unlistedAt} >= ${today})`,
     ];
 
+    // 檢查用戶是否已登入
+    const session = c.get("session");
+    const userId = session.get("id");
+    const role = session.get("role");
+
+    if (userId && role === Role.WORKER) {
+      whereConditions.push(BlockListManager.excludeBlockedGigs(userId));
+    }
+
     const gig = await dbClient.query.gigs.findFirst({
       where: and(...whereConditions),
       columns: {
@@ -513,6 +638,34 @@ router.get("/public/:gigId/conflicts", authenticated, requireWorker, async (c) =
   }
 });
 
+// Worker 獲取推薦工作（依申請記錄、偏好地區、時薪、經歷證照與行程排序）
+router.get("/recommended", authenticated, requireWorker, async (c) => {
+  try {
+    const user = c.get("user");
+    const limit = c.req.query("limit") || "10";
+    const offset = c.req.query("offset") || "0";
+
+    const requestLimit = Number.parseInt(limit);
+    const requestOffset = Number.parseInt(offset);
+
+    const recommendedGigs = await GigRecommender.recommend(user.workerId);
+    const gigsInPage = recommendedGigs.slice(requestOffset, requestOffset + requestLimit);
+
+    return c.json({
+      gigs: gigsInPage,
+      pagination: {
+        limit: requestLimit,
+        offset: requestOffset,
+        hasMore: recommendedGigs.length > requestOffset + requestLimit,
+        returned: gigsInPage.length,
+      },
+    }, 200);
+  } catch (error) {
+    console.error("獲取推薦工作時出錯:", error);
+    return c.text("伺服器內部錯誤", 500);
+  }
+});
+
 // 發佈新工作
 router.post(
   "/create",
@@ -533,13 +686,31 @@ router.post(
       uploadedFiles = filesList;
 
       // 構建工作數據
-      const gigData = buildGigData(body, user, environmentPhotosInfo);
+      const shifts = resolveShifts(body);
+      const gigData = buildGigData(body, user, environmentPhotosInfo, shifts);
+
+      // 未標記座標時，以工作地址轉換座標供定位打卡使用，轉換失敗時以行政區中心點供距離搜尋
+      if (gigData.latitude === undefined) {
+        const location = await GeoUtils.resolveGigLocation(body.city, body.district, body.address);
+        if (location) {
+          gigData.latitude = location.latitude;
+          gigData.longitude = location.longitude;
+          gigData.locationSource = location.locationSource;
+        }
+      } else {
+        gigData.locationSource = "employer";
+      }
 
-      // 創建工作
-      const insertedGig = await dbClient.insert(gigs).values(gigData).returning();
+      // 創建工作與班次
+      const newGig = await dbClient.transaction(async (tx) => {
+        const [insertedGig] = await tx.insert(gigs).values(gigData).returning();
+        await GigShiftManager.createShifts(tx, insertedGig.gigId, shifts);
+        return insertedGig;
+      });
       await GigCache.clearMyGigsCount(user.employerId);
 
-      const newGig = insertedGig[0];
+      // 在背景通知儲存的搜尋條件符合此工作的打工者
+      SavedSearchManager.matchGigInBackground(newGig.gigId);
 
       return c.json(
         {
@@ -549,6 +720,9 @@ router.post(
             title: newGig.title,
             description: newGig.description,
             environmentPhotos: environmentPhotosInfo,
+            dateStart: newGig.dateStart,
+            dateEnd: newGig.dateEnd,
+            shiftCount: shifts.length,
             isActive: newGig.isActive,
             createdAt: newGig.createdAt,
           }
@@ -576,10 +750,21 @@ router.get("/my-gigs", authenticated, requireEmployer, async (c) => {
     const offset = c.req.query("offset") || "0";
     const status = c.req.query("status") || "ongoing";
     const search = c.req.query("search");
+    const cursor = c.req.query("cursor");
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const currentDate = DateUtils.getCurrentDate();
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(gigs.createdAt), direction: "desc", type: "timestamp" },
+      { expression: gigs.gigId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({ error: "無效的分頁游標" }, 400);
+    }
+
     // 建立基本查詢條件
     const whereConditions = [eq(gigs.employerId, user.employerId)];
 
@@ -612,9 +797,10 @@ router.get("/my-gigs", authenticated, requireEmployer, async (c) => {
       whereConditions.push(sql`(${gigs.title} &@~ ${search} OR ${gigs.description} &@~ ${search})`);
     }
 
+    // 總數與分頁無關，游標條件只用於列表查詢
     const myGigs = await dbClient.query.gigs.findMany({
-      where: and(...whereConditions),
-      orderBy: [desc(gigs.createdAt), desc(gigs.gigId)],
+      where: and(...whereConditions, cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined),
+      orderBy: CursorPagination.orderBy(cursorKeys),
       columns: {
         gigId: true,
         title: true,
@@ -626,18 +812,22 @@ router.get("/my-gigs", authenticated, requireEmployer, async (c) => {
         unlistedAt: true,
         isActive: true,
         environmentPhotos: true,
+        createdAt: true,
       },
       limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
     // 檢查是否有更多資料
-    const hasMore = myGigs.length > requestLimit;
-    const returnGigs = hasMore ? myGigs.slice(0, requestLimit) : myGigs;
+    const { items: returnGigs, hasMore, nextCursor } = CursorPagination.paginate(
+      myGigs,
+      requestLimit,
+      gig => [gig.createdAt, gig.gigId]
+    );
 
     // 只取 1 張環境照片
     const gigsWithPhotos = await Promise.all(
-      returnGigs.map(async (gig) => ({
+      returnGigs.map(async ({ createdAt, ...gig }) => ({
         ...gig,
         dateStart: DateUtils.formatDate(gig.dateStart),
         dateEnd: DateUtils.formatDate(gig.dateEnd),
@@ -682,6 +872,7 @@ router.get("/my-gigs", authenticated, requireEmployer, async (c) => {
           offset: requestOffset,
           hasMore,
           returned: gigsWithPhotos.length,
+          nextCursor,
           totalCount: totalCountValue,
           totalPage,
         },
@@ -702,6 +893,9 @@ router.get("/:gigId", authenticated, requireEmployer, async (c) => {
     const gigId = c.req.param("gigId");
     const gig = await dbClient.query.gigs.findFirst({
       where: and(eq(gigs.gigId, gigId), eq(gigs.employerId, user.employerId)),
+      columns: {
+        attendanceSecret: false,
+      },
     });
 
     if (!gig) {
@@ -715,10 +909,12 @@ router.get("/:gigId", authenticated, requireEmployer, async (c) => {
       dateEnd: gig.dateEnd,
     });
 
+    const today = DateUtils.getCurrentDate();
+    const todayShifts = await GigShiftManager.getShiftsCoveringDate(gigId, today);
     let attendanceCodeInfo: any = undefined;
 
-    if (gigStatus === "已刊登") {
-      const today = DateUtils.getCurrentDate();
+    // 只有今天有上班時段（含前一天的跨夜班次）時才需要打卡碼
+    if (gigStatus === "已刊登" && todayShifts.length > 0) {
       const existingCode = await dbClient.query.attendanceCodes.findFirst({
         where: and(
           eq(attendanceCodes.gigId, gigId),
@@ -761,6 +957,7 @@ router.get("/:gigId", authenticated, requireEmployer, async (c) => {
       {
         ...gig,
         environmentPhotos: await formatEnvironmentPhotos(gig.environmentPhotos),
+        shifts: await GigShiftManager.getGigShifts(gigId),
         attendanceCodeInfo,
         status: gigStatus,
       },
@@ -810,6 +1007,23 @@ router.put(
         return c.text("工作已關閉，無法更新", 400);
       }
 
+      // 需求人數與尚未開始的各班次人數不可少於已佔用的名額（已確認的打工者須出席每個班次）
+      if (body.headcount !== undefined || body.shifts) {
+        const occupied = await WaitlistManager.countOccupiedSlots(dbClient, gigId);
+
+        if (body.headcount !== undefined && body.headcount < occupied) {
+          return c.text(`需求人數不可少於已核准的人數 (${occupied})`, 400);
+        }
+
+        const understaffedShift = (body.shifts as ShiftInput[] | undefined)?.find(shift =>
+          shift.workDate >= today && (shift.headcount ?? 1) < occupied
+        );
+
+        if (understaffedShift) {
+          return c.text(`${understaffedShift.workDate} 班次人數不可少於已核准的人數 (${occupied})`, 400);
+        }
+      }
+
       // 獲取現有照片
       let currentPhotos = Array.isArray(existingGig.environmentPhotos) ? existingGig.environmentPhotos : [];
       let deletedCount = 0;
@@ -861,6 +1075,20 @@ router.put(
       const { environmentPhotosInfo, uploadedFiles: filesList, addedCount, totalCount, message } = await handlePhotoUpload(reqFile, currentPhotos);
       uploadedFiles = filesList;
 
+      // 有調整日期或時段時，重新產生今天之後的班次
+      let upcomingShifts = (body.shifts as ShiftInput[] | undefined) ?? null;
+
+      if (!upcomingShifts && (body.dateStart || body.dateEnd || body.timeStart || body.timeEnd)) {
+        const dateStart = DateUtils.formatDate(body.dateStart ?? existingGig.dateStart);
+        upcomingShifts = GigShiftManager.buildDailyShifts(
+          dateStart > today ? dateStart : today,
+          body.dateEnd ?? existingGig.dateEnd,
+          body.timeStart ?? existingGig.timeStart,
+          body.timeEnd ?? existingGig.timeEnd,
+          body.headcount ?? existingGig.headcount
+        );
+      }
+
       const updateData: any = {
         ...body,
         updatedAt: sql`now()`,
@@ -873,13 +1101,59 @@ router.put(
         updateData.environmentPhotos = environmentPhotosInfo;
       }
 
-      // 移除 deletedPhotoIds 欄位
+      // 移除 deletedPhotoIds 與 shifts 欄位
       delete updateData.deletedPhotoFiles;
+      delete updateData.shifts;
+
+      // 重新標記座標時以商家座標為準；地址變更時重新轉換座標
+      // 商家手動標記的座標不會被覆寫，轉換失敗時保留原座標
+      if (body.latitude !== undefined) {
+        updateData.locationSource = "employer";
+      } else if ((body.address || body.city || body.district) && existingGig.locationSource !== "employer") {
+        const location = await GeoUtils.resolveGigLocation(
+          body.city ?? existingGig.city,
+          body.district ?? existingGig.district,
+          body.address ?? existingGig.address
+        );
 
-      await dbClient
-        .update(gigs)
-        .set(updateData)
-        .where(eq(gigs.gigId, gigId));
+        if (location) {
+          updateData.latitude = location.latitude;
+          updateData.longitude = location.longitude;
+          updateData.locationSource = location.locationSource;
+        }
+      }
+
+      await dbClient.transaction(async (tx) => {
+        if (upcomingShifts) {
+          const summary = await GigShiftManager.replaceUpcomingShifts(tx, gigId, upcomingShifts);
+
+          if (!summary) {
+            throw new Error("工作至少需要一個班次");
+          }
+
+          Object.assign(updateData, summary);
+
+          // 尚未刊登的工作，刊登日跟著第一個班次調整
+          if (DateUtils.formatDate(existingGig.publishedAt) > today) {
+            updateData.publishedAt = summary.dateStart;
+          }
+        }
+
+        await tx
+          .update(gigs)
+          .set(updateData)
+          .where(eq(gigs.gigId, gigId));
+      });
+
+      // 需求人數增加或班次調整後可能有名額釋出，由候補名單遞補
+      if ((body.headcount !== undefined && body.headcount > existingGig.headcount) || upcomingShifts) {
+        await WaitlistManager.promoteNext(gigId);
+      }
+
+      // 時薪變更時重新計算尚未核准的薪資結算
+      if (body.hourlyRate !== undefined && body.hourlyRate !== existingGig.hourlyRate) {
+        PayrollCalculator.syncInBackground({ gigId });
+      }
 
       let responseMessage = "工作更新成功";
       const photoOperations: string[] = [];
@@ -918,6 +1192,85 @@ router.put(
         return c.json(errorMessage, 500);
       }
 
+      if (errorMessage.includes("工作至少需要一個班次")) {
+        return c.text(errorMessage, 400);
+      }
+
+      return c.text("伺服器內部錯誤", 500);
+    }
+  }
+);
+
+// 設定工作打卡位置（標記座標，或以工作地址轉換座標）
+router.put(
+  "/:gigId/location",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", updateGigLocationSchema),
+  async (c) => {
+    const user = c.get("user");
+    const body = c.req.valid("json");
+
+    try {
+      const gigId = c.req.param("gigId");
+      const existingGig = await dbClient.query.gigs.findFirst({
+        where: and(eq(gigs.gigId, gigId), eq(gigs.employerId, user.employerId)),
+        columns: {
+          city: true,
+          district: true,
+          address: true,
+        },
+      });
+
+      if (!existingGig) {
+        return c.text("工作不存在或無權限修改", 404);
+      }
+
+      let latitude = body.latitude;
+      let longitude = body.longitude;
+      let formattedAddress: string | undefined;
+
+      if (latitude === undefined) {
+        const location = await GeoUtils.geocodeGigAddress(existingGig.city, existingGig.district, existingGig.address);
+
+        if (!location) {
+          return c.text("無法由工作地址取得座標，請手動標記位置", 400);
+        }
+
+        latitude = location.latitude;
+        longitude = location.longitude;
+        formattedAddress = location.formattedAddress;
+      }
+
+      const [updatedGig] = await dbClient
+        .update(gigs)
+        .set({
+          latitude,
+          longitude,
+          locationSource: body.latitude === undefined ? "geocoded" : "employer",
+          geofenceRadius: body.geofenceRadius,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(gigs.gigId, gigId))
+        .returning({
+          latitude: gigs.latitude,
+          longitude: gigs.longitude,
+          geofenceRadius: gigs.geofenceRadius,
+        });
+
+      return c.json(
+        {
+          message: "打卡位置設定成功",
+          location: {
+            ...updatedGig,
+            formattedAddress,
+          },
+        },
+        200
+      );
+    } catch (error) {
+      console.error("設定工作打卡位置時出錯:", error);
       return c.text("伺服器內部錯誤", 500);
     }
   }
@@ -1032,6 +1385,11 @@ router.patch("/:gigId/toggle-listing", authenticated, requireEmployer, requireAp
       })
       .where(eq(gigs.gigId, gigId));
 
+    // 重新上架時在背景通知儲存的搜尋條件符合此工作的打工者
+    if (!isCurrentlyListed) {
+      SavedSearchManager.matchGigInBackground(gigId);
+    }
+
     return c.json(
       {
         message: `工作已${isCurrentlyListed ? "下架" : "上架"}`,
@@ -1077,7 +1435,9 @@ router.get("/employer/calendar", authenticated, requireEmployer, requireApproved
       sql`(${gigs.unlistedAt} IS NULL OR ${gigs.unlistedAt} >= ${currentDate})`,
     ];
 
-    // 處理日期查詢邏輯
+    // 處理日期查詢邏輯：以範圍內是否有班次判斷
+    let shiftRange: { dateStart?: string; dateEnd?: string };
+
     if (hasYearMonth) {
       // 月份查詢模式
       const yearNum = Number.parseInt(year);
@@ -1096,21 +1456,15 @@ router.get("/employer/calendar", authenticated, requireEmployer, requireApproved
       // 建立該月份的開始和結束日期
       const { startDate, endDate } = DateUtils.getMonthRange(yearNum, monthNum);
 
-      // 查詢工作期間與該月有重疊的工作
-      whereConditions.push(and(lte(gigs.dateStart, endDate), gte(gigs.dateEnd, startDate)));
-    } else if (hasDateRange) {
-      if (dateStart && dateEnd) {
-        // 工作期間與搜尋範圍有重疊
-        whereConditions.push(and(lte(gigs.dateStart, dateEnd), gte(gigs.dateEnd, dateStart)));
-      } else if (dateStart) {
-        // 只提供開始日期
-        whereConditions.push(gte(gigs.dateEnd, dateStart));
-      } else if (dateEnd) {
-        // 只提供結束日期
-        whereConditions.push(lte(gigs.dateStart, dateEnd));
-      }
+      // 查詢該月有班次的工作
+      shiftRange = { dateStart: startDate, dateEnd: endDate };
+    } else {
+      // 查詢搜尋範圍內有班次的工作（可只提供開始或結束日期）
+      shiftRange = { dateStart, dateEnd };
     }
 
+    whereConditions.push(GigShiftManager.hasShiftInRange(gigs.gigId, shiftRange));
+
     const calendarGigs = await dbClient.query.gigs.findMany({
       where: and(...whereConditions),
       orderBy: [gigs.dateStart, gigs.timeStart],
@@ -1131,11 +1485,18 @@ router.get("/employer/calendar", authenticated, requireEmployer, requireApproved
     const hasMore = calendarGigs.length > requestLimit;
     const actualCalendarGigs = hasMore ? calendarGigs.slice(0, requestLimit) : calendarGigs;
 
+    // 附上範圍內的班次
+    const shiftsByGig = await GigShiftManager.getShiftsByGigIds(
+      actualCalendarGigs.map(gig => gig.gigId),
+      shiftRange
+    );
+
     // 為每個工作處理環境照片，只取 1 張
     const gigsWithPhotos = await Promise.all(
       actualCalendarGigs.map(async (gig) => ({
         ...gig,
         environmentPhotos: await formatEnvironmentPhotos(gig.environmentPhotos, 1),
+        shifts: shiftsByGig[gig.gigId] ?? [],
       }))
     );
 
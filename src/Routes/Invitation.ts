@@ -0,0 +1,455 @@
+import { Hono } from "hono";
+import { authenticated } from "../Middleware/authentication";
+import {
+  requireWorker,
+  requireEmployer,
+  requireApprovedEmployer
+} from "../Middleware/guards";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext } from "../Types/types";
+import dbClient from "../Client/DrizzleClient";
+import { eq, and, desc, gte, sql } from "drizzle-orm";
+import { gigs, gigInvitations, workers, employers } from "../Schema/DatabaseSchema";
+import { zValidator } from "@hono/zod-validator";
+import { createInvitationSchema, respondInvitationSchema } from "../Types/zodSchema";
+import { DateUtils } from "../Utils/DateUtils";
+import InvitationManager from "../Utils/InvitationManager";
+import NotificationHelper from "../Utils/NotificationHelper";
+import { Role } from "../Types/types";
+
+const router = new Hono<HonoGenericContext>();
+
+const validStatuses = ["pending", "accepted", "declined", "cancelled", "expired"];
+
+const ineligibleMessages = {
+  blocked: "此打工者在您的封鎖名單中",
+  pending_invitation: "已邀請過此打工者，請等待回覆",
+  already_applied: "此打工者已申請這個工作",
+  conflict: "此打工者在工作時段已有其他確認的工作",
+};
+
+// ========== Employer 相關路由 ==========
+
+/**
+ * Employer 邀請打工者參加工作
+ * POST /invitation
+ */
+router.post(
+  "/",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", createInvitationSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { gigId, workerId, message } = c.req.valid("json");
+      const currentDate = DateUtils.getCurrentDate();
+
+      const gig = await dbClient.query.gigs.findFirst({
+        where: and(
+          eq(gigs.gigId, gigId),
+          eq(gigs.employerId, user.employerId),
+          eq(gigs.isActive, true),
+          gte(gigs.dateEnd, currentDate)
+        ),
+        columns: { gigId: true, title: true },
+      });
+
+      if (!gig) {
+        return c.json({
+          message: "工作不存在、已結束或無權限邀請",
+        }, 404);
+      }
+
+      const worker = await dbClient.query.workers.findFirst({
+        where: eq(workers.workerId, workerId),
+        columns: { workerId: true },
+      });
+
+      if (!worker) {
+        return c.json({
+          message: "打工者不存在",
+        }, 404);
+      }
+
+      const ineligibleReason = await InvitationManager.getIneligibleReason(user.employerId, workerId, gigId);
+
+      if (ineligibleReason) {
+        return c.json({
+          message: ineligibleMessages[ineligibleReason],
+        }, ineligibleReason === "conflict" ? 409 : 400);
+      }
+
+      const invitation = await InvitationManager.invite(
+        gig,
+        { employerId: user.employerId, employerName: user.employerName },
+        workerId,
+        message,
+      );
+
+      return c.json({
+        message: "邀請已送出",
+        data: {
+          invitationId: invitation.invitationId,
+          gigId,
+          workerId,
+          status: invitation.status,
+          createdAt: invitation.createdAt,
+        },
+      }, 201);
+
+    } catch (error) {
+      console.error("建立工作邀請時發生錯誤:", error);
+      return c.json({
+        message: "建立工作邀請失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * Employer 查看已送出的邀請
+ * GET /invitation/sent?gigId=xxx&status=pending&limit=10&offset=0
+ */
+router.get("/sent", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const gigId = c.req.query("gigId");
+    const status = c.req.query("status");
+    const limit = c.req.query("limit") || "10";
+    const offset = c.req.query("offset") || "0";
+
+    const whereConditions = [eq(gigInvitations.employerId, user.employerId)];
+
+    if (gigId) {
+      whereConditions.push(eq(gigInvitations.gigId, gigId));
+    }
+
+    if (status && validStatuses.includes(status)) {
+      whereConditions.push(eq(gigInvitations.status, status as any));
+    }
+
+    const requestLimit = Number.parseInt(limit);
+    const requestOffset = Number.parseInt(offset);
+
+    const invitations = await dbClient
+      .select({
+        invitationId: gigInvitations.invitationId,
+        gigId: gigInvitations.gigId,
+        gigTitle: gigs.title,
+        workerId: gigInvitations.workerId,
+        workerFirstName: workers.firstName,
+        workerLastName: workers.lastName,
+        message: gigInvitations.message,
+        status: gigInvitations.status,
+        applicationId: gigInvitations.applicationId,
+        respondedAt: gigInvitations.respondedAt,
+        createdAt: gigInvitations.createdAt,
+      })
+      .from(gigInvitations)
+      .innerJoin(gigs, eq(gigInvitations.gigId, gigs.gigId))
+      .innerJoin(workers, eq(gigInvitations.workerId, workers.workerId))
+      .where(and(...whereConditions))
+      .orderBy(desc(gigInvitations.createdAt))
+      .limit(requestLimit + 1) // 多查一筆來判斷 hasMore
+      .offset(requestOffset);
+
+    const hasMore = invitations.length > requestLimit;
+    const actualInvitations = hasMore ? invitations.slice(0, requestLimit) : invitations;
+
+    return c.json({
+      message: "獲取已送出的邀請成功",
+      data: {
+        invitations: actualInvitations.map(({ workerFirstName, workerLastName, ...invitation }) => ({
+          ...invitation,
+          workerName: `${workerFirstName} ${workerLastName}`,
+        })),
+        pagination: {
+          limit: requestLimit,
+          offset: requestOffset,
+          hasMore,
+          returned: actualInvitations.length,
+        },
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取已送出的邀請時發生錯誤:", error);
+    return c.json({
+      message: "獲取已送出的邀請失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+/**
+ * Employer 撤回待回覆的邀請
+ * PUT /invitation/:invitationId/cancel
+ */
+router.put("/:invitationId/cancel", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const invitationId = c.req.param("invitationId");
+
+    const [cancelled] = await dbClient
+      .update(gigInvitations)
+      .set({
+        status: "cancelled",
+        updatedAt: sql`now()`,
+      })
+      .where(and(
+        eq(gigInvitations.invitationId, invitationId),
+        eq(gigInvitations.employerId, user.employerId),
+        eq(gigInvitations.status, "pending")
+      ))
+      .returning({ invitationId: gigInvitations.invitationId });
+
+    if (!cancelled) {
+      return c.json({
+        message: "邀請不存在或已回覆，無法撤回",
+      }, 400);
+    }
+
+    return c.json({
+      message: "邀請已撤回",
+      data: {
+        invitationId,
+        status: "cancelled",
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("撤回邀請時發生錯誤:", error);
+    return c.json({
+      message: "撤回邀請失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+// ========== Worker 相關路由 ==========
+
+/**
+ * Worker 查看收到的邀請
+ * GET /invitation/inbox?status=pending&limit=10&offset=0
+ */
+router.get("/inbox", authenticated, requireWorker, async (c) => {
+  try {
+    const user = c.get("user");
+    const status = c.req.query("status");
+    const limit = c.req.query("limit") || "10";
+    const offset = c.req.query("offset") || "0";
+
+    const whereConditions = [eq(gigInvitations.workerId, user.workerId)];
+
+    if (status && validStatuses.includes(status)) {
+      whereConditions.push(eq(gigInvitations.status, status as any));
+    }
+
+    const requestLimit = Number.parseInt(limit);
+    const requestOffset = Number.parseInt(offset);
+
+    const invitations = await dbClient
+      .select({
+        invitationId: gigInvitations.invitationId,
+        gigId: gigs.gigId,
+        gigTitle: gigs.title,
+        dateStart: gigs.dateStart,
+        dateEnd: gigs.dateEnd,
+        timeStart: gigs.timeStart,
+        timeEnd: gigs.timeEnd,
+        hourlyRate: gigs.hourlyRate,
+        city: gigs.city,
+        district: gigs.district,
+        employerId: employers.employerId,
+        employerName: employers.employerName,
+        message: gigInvitations.message,
+        status: gigInvitations.status,
+        respondedAt: gigInvitations.respondedAt,
+        createdAt: gigInvitations.createdAt,
+      })
+      .from(gigInvitations)
+      .innerJoin(gigs, eq(gigInvitations.gigId, gigs.gigId))
+      .innerJoin(employers, eq(gigInvitations.employerId, employers.employerId))
+      .where(and(...whereConditions))
+      .orderBy(desc(gigInvitations.createdAt))
+      .limit(requestLimit + 1) // 多查一筆來判斷 hasMore
+      .offset(requestOffset);
+
+    const hasMore = invitations.length > requestLimit;
+    const actualInvitations = hasMore ? invitations.slice(0, requestLimit) : invitations;
+
+    return c.json({
+      message: "獲取工作邀請成功",
+      data: {
+        invitations: actualInvitations,
+        pagination: {
+          limit: requestLimit,
+          offset: requestOffset,
+          hasMore,
+          returned: actualInvitations.length,
+        },
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取工作邀請時發生錯誤:", error);
+    return c.json({
+      message: "獲取工作邀請失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+/**
+ * Worker 回覆邀請：接受後直接建立已確認的申請
+ * PUT /invitation/:invitationId/respond
+ */
+router.put(
+  "/:invitationId/respond",
+  authenticated,
+  requireWorker,
+  zValidator("json", respondInvitationSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const invitationId = c.req.param("invitationId");
+      const { action } = c.req.valid("json");
+
+      const invitation = await dbClient.query.gigInvitations.findFirst({
+        where: and(
+          eq(gigInvitations.invitationId, invitationId),
+          eq(gigInvitations.workerId, user.workerId)
+        ),
+        with: {
+          gig: {
+            columns: { gigId: true, title: true, employerId: true, isActive: true, dateEnd: true },
+          },
+        },
+      });
+
+      if (!invitation) {
+        return c.json({
+          message: "邀請不存在",
+        }, 404);
+      }
+
+      if (invitation.status !== "pending") {
+        return c.json({
+          message: "此邀請已回覆或已失效",
+          currentStatus: invitation.status,
+        }, 400);
+      }
+
+      const workerName = `${user.firstName} ${user.lastName}`;
+
+      if (action === "decline") {
+        const [declined] = await dbClient
+          .update(gigInvitations)
+          .set({
+            status: "declined",
+            respondedAt: sql`now()`,
+            updatedAt: sql`now()`,
+          })
+          .where(and(
+            eq(gigInvitations.invitationId, invitationId),
+            eq(gigInvitations.status, "pending")
+          ))
+          .returning({ invitationId: gigInvitations.invitationId });
+
+        // 同時有其他請求已處理此邀請
+        if (!declined) {
+          return c.json({
+            message: "此邀請已回覆或已失效",
+          }, 400);
+        }
+
+        await NotificationHelper.notifyEmployerInvitationResponded(
+          invitation.gig.employerId,
+          Role.EMPLOYER,
+          workerName,
+          invitation.gig.title,
+          false,
+          invitationId,
+        );
+
+        return c.json({
+          message: "已拒絕邀請",
+          data: {
+            invitationId,
+            status: "declined",
+          },
+        }, 200);
+      }
+
+      if (!invitation.gig.isActive || invitation.gig.dateEnd < DateUtils.getCurrentDate()) {
+        return c.json({
+          message: "此工作已結束，無法接受邀請",
+        }, 400);
+      }
+
+      const result = await InvitationManager.accept(invitationId, user.workerId, invitation.gig.gigId);
+
+      switch (result.status) {
+        case "conflict":
+          return c.json({
+            message: "您在工作時段已有其他確認的工作",
+            conflictingGigs: result.conflictingGigs,
+          }, 409);
+        case "already_applied":
+          return c.json({
+            message: "您已經申請過這個工作",
+            applicationStatus: result.applicationStatus,
+          }, 400);
+        case "unqualified":
+          return c.json({
+            message: "您不符合此工作的必要資格條件",
+            unmetRequirements: result.unmetRequirements.map(check => ({
+              kind: check.kind,
+              requirement: check.requirement,
+              // 資料不足時請打工者先補齊個人資料
+              missingProfileData: check.met === null,
+            })),
+          }, 403);
+        case "full":
+          return c.json({
+            message: "工作名額已滿，無法接受邀請",
+          }, 400);
+        case "not_pending":
+          return c.json({
+            message: "此邀請已回覆或已失效",
+          }, 400);
+      }
+
+      await NotificationHelper.notifyEmployerInvitationResponded(
+        invitation.gig.employerId,
+        Role.EMPLOYER,
+        workerName,
+        invitation.gig.title,
+        true,
+        invitationId,
+      );
+
+      return c.json({
+        message: "已接受邀請，工作已確認",
+        data: {
+          invitationId,
+          status: "accepted",
+          applicationId: result.applicationId,
+          applicationStatus: "worker_confirmed",
+        },
+      }, 200);
+
+    } catch (error) {
+      console.error("回覆工作邀請時發生錯誤:", error);
+      return c.json({
+        message: "回覆工作邀請失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+export default { path: "/invitation", router } as IRouter;
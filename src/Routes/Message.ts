@@ -0,0 +1,328 @@
+import { Hono } from "hono";
+import { authenticated } from "../Middleware/authentication";
+import { requireRole } from "../Middleware/guards";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext, sessionUser } from "../Types/types";
+import dbClient from "../Client/DrizzleClient";
+import { eq, and, ne, isNull, sql } from "drizzle-orm";
+import { gigApplications, applicationMessages } from "../Schema/DatabaseSchema";
+import { zValidator } from "@hono/zod-validator";
+import { sendApplicationMessageSchema } from "../Types/zodSchema";
+import { uploadMessageAttachments } from "../Middleware/fileUpload";
+import { FileManager, s3Client } from "../Client/Cache/Index";
+import CursorPagination, { type CursorSortKey } from "../Utils/CursorPagination";
+import NotificationHelper from "../Utils/NotificationHelper";
+import { Role } from "../Types/types";
+
+const router = new Hono<HonoGenericContext>();
+
+type ParticipantRole = "worker" | "employer";
+
+/**
+ * 取得申請與對話雙方的資料
+ */
+async function findConversation(applicationId: string) {
+  return dbClient.query.gigApplications.findFirst({
+    where: eq(gigApplications.applicationId, applicationId),
+    columns: {
+      applicationId: true,
+      workerId: true,
+      status: true,
+    },
+    with: {
+      gig: {
+        columns: { gigId: true, title: true, employerId: true },
+      },
+    },
+  });
+}
+
+/**
+ * 使用者在對話中的身份：申請的打工者或工作所屬商家，其他人（含管理員）為 null
+ */
+function getParticipantRole(
+  application: { workerId: string; gig: { employerId: string } },
+  user: Pick<sessionUser, "role"> & { workerId?: string; employerId?: string },
+): ParticipantRole | null {
+  if (user.role === Role.WORKER && application.workerId === user.workerId) {
+    return "worker";
+  }
+
+  if (user.role === Role.EMPLOYER && application.gig.employerId === user.employerId) {
+    return "employer";
+  }
+
+  return null;
+}
+
+/**
+ * 將對方的未讀訊息標記為已讀
+ * @returns 標記的訊息數量
+ */
+async function markAsRead(applicationId: string, readerRole: ParticipantRole): Promise<number> {
+  const updated = await dbClient
+    .update(applicationMessages)
+    .set({ readAt: sql`now()` })
+    .where(and(
+      eq(applicationMessages.applicationId, applicationId),
+      ne(applicationMessages.senderRole, readerRole),
+      isNull(applicationMessages.readAt)
+    ))
+    .returning({ messageId: applicationMessages.messageId });
+
+  return updated.length;
+}
+
+/**
+ * 為訊息附件產生下載連結
+ */
+async function formatMessage(message: typeof applicationMessages.$inferSelect) {
+  const attachments = await Promise.all(
+    message.attachments.map(async (attachment) => ({
+      originalName: attachment.originalName,
+      type: attachment.type,
+      size: attachment.size,
+      url: await FileManager.getPresignedUrl(`application-messages/${message.applicationId}/${attachment.r2Name}`),
+    }))
+  );
+
+  return {
+    messageId: message.messageId,
+    senderRole: message.senderRole,
+    senderId: message.senderId,
+    content: message.content,
+    attachments,
+    readAt: message.readAt,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * 打工者或商家在申請的對話中傳送訊息（可附加檔案）
+ * POST /message/:applicationId
+ */
+router.post(
+  "/:applicationId",
+  authenticated,
+  requireRole(Role.WORKER, Role.EMPLOYER),
+  uploadMessageAttachments,
+  zValidator("form", sendApplicationMessageSchema),
+  async (c) => {
+    // 已上傳的附件，寫入訊息失敗時刪除
+    const uploadedKeys: string[] = [];
+
+    try {
+      const user = c.get("user");
+      const applicationId = c.req.param("applicationId");
+      const { content } = c.req.valid("form");
+      const uploadedFiles = c.get("uploadedFiles") as Record<string, any>;
+      const files: { name: string; type: string; size: number; filename: string; file: File }[] = uploadedFiles.attachments || [];
+
+      if (!content && files.length === 0) {
+        return c.json({
+          message: "請輸入訊息內容或附加檔案",
+        }, 400);
+      }
+
+      const application = await findConversation(applicationId);
+
+      if (!application) {
+        return c.json({
+          message: "申請記錄不存在",
+        }, 404);
+      }
+
+      const senderRole = getParticipantRole(application, user);
+
+      if (!senderRole) {
+        return c.json({
+          message: "您無權在此申請中傳送訊息",
+        }, 403);
+      }
+
+      await Promise.all(
+        files.map(async (file) => {
+          const key = `application-messages/${applicationId}/${file.filename}`;
+          await s3Client.file(key).write(file.file as Blob, { type: file.type });
+          uploadedKeys.push(key);
+        })
+      );
+
+      const [message] = await dbClient
+        .insert(applicationMessages)
+        .values({
+          applicationId,
+          senderRole,
+          senderId: senderRole === "worker" ? user.workerId : user.employerId,
+          content: content || null,
+          attachments: files.map(file => ({
+            originalName: file.name,
+            type: file.type,
+            r2Name: file.filename,
+            size: file.size,
+          })),
+        })
+        .returning();
+
+      // 訊息已寫入，之後的錯誤不再刪除附件
+      uploadedKeys.length = 0;
+
+      // 推播給對方（不建立站內通知），依對方的通知偏好與勿擾時段發送
+      const senderName = senderRole === "worker" ? `${user.firstName} ${user.lastName}` : user.employerName;
+      const preview = content ? (content.length > 50 ? `${content.slice(0, 50)}…` : content) : "傳送了附件";
+
+      await NotificationHelper.notifyApplicationMessage(
+        senderRole === "worker" ? application.gig.employerId : application.workerId,
+        senderRole === "worker" ? Role.EMPLOYER : Role.WORKER,
+        `${senderName}（${application.gig.title}）`,
+        preview,
+        applicationId,
+        message.messageId,
+      );
+
+      return c.json({
+        message: "訊息已傳送",
+        data: await formatMessage(message),
+      }, 201);
+
+    } catch (error) {
+      console.error("傳送訊息時發生錯誤:", error);
+
+      await Promise.allSettled(uploadedKeys.map(key => s3Client.delete(key)));
+
+      return c.json({
+        message: "傳送訊息失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 查看申請的對話（由新到舊）
+ * 打工者與商家查看時會將對方的訊息標記為已讀；管理員僅供處理爭議時唯讀查看
+ * GET /message/:applicationId?limit=20&cursor=
+ */
+router.get("/:applicationId", authenticated, async (c) => {
+  try {
+    const user = c.get("user");
+    const applicationId = c.req.param("applicationId");
+    const limit = c.req.query("limit") || "20";
+    const cursor = c.req.query("cursor");
+    const requestLimit = Number.parseInt(limit);
+
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(applicationMessages.createdAt), direction: "desc", type: "timestamp" },
+      { expression: applicationMessages.messageId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
+    const application = await findConversation(applicationId);
+
+    if (!application) {
+      return c.json({
+        message: "申請記錄不存在",
+      }, 404);
+    }
+
+    const viewerRole = getParticipantRole(application, user);
+
+    if (!viewerRole && user.role !== Role.ADMIN) {
+      return c.json({
+        message: "您無權查看此對話",
+      }, 403);
+    }
+
+    const messages = await dbClient.query.applicationMessages.findMany({
+      where: and(
+        eq(applicationMessages.applicationId, applicationId),
+        cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined
+      ),
+      orderBy: CursorPagination.orderBy(cursorKeys),
+      limit: requestLimit + 1, // 多查一筆來判斷 hasMore
+    });
+
+    const { items, hasMore, nextCursor } = CursorPagination.paginate(
+      messages,
+      requestLimit,
+      message => [message.createdAt, message.messageId]
+    );
+
+    const markedCount = viewerRole ? await markAsRead(applicationId, viewerRole) : 0;
+
+    return c.json({
+      message: "獲取對話成功",
+      data: {
+        applicationId,
+        gigId: application.gig.gigId,
+        gigTitle: application.gig.title,
+        messages: await Promise.all(items.map(formatMessage)),
+        markedAsRead: markedCount,
+        pagination: {
+          limit: requestLimit,
+          hasMore,
+          returned: items.length,
+          nextCursor,
+        },
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取對話時發生錯誤:", error);
+    return c.json({
+      message: "獲取對話失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+/**
+ * 將對方傳送的訊息標記為已讀
+ * PUT /message/:applicationId/read
+ */
+router.put("/:applicationId/read", authenticated, requireRole(Role.WORKER, Role.EMPLOYER), async (c) => {
+  try {
+    const user = c.get("user");
+    const applicationId = c.req.param("applicationId");
+
+    const application = await findConversation(applicationId);
+
+    if (!application) {
+      return c.json({
+        message: "申請記錄不存在",
+      }, 404);
+    }
+
+    const readerRole = getParticipantRole(application, user);
+
+    if (!readerRole) {
+      return c.json({
+        message: "您無權查看此對話",
+      }, 403);
+    }
+
+    const markedCount = await markAsRead(applicationId, readerRole);
+
+    return c.json({
+      message: "訊息已標記為已讀",
+      data: {
+        markedAsRead: markedCount,
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("標記訊息已讀時發生錯誤:", error);
+    return c.json({
+      message: "標記訊息已讀失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+export default { path: "/message", router } as IRouter;
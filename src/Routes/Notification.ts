@@ -3,11 +3,13 @@ import { authenticated } from "../Middleware/authentication";
 import type IRouter from "../Interfaces/IRouter";
 import type { HonoGenericContext } from "../Types/types";
 import dbClient from "../Client/DrizzleClient";
-import { eq, and, desc, inArray, sql } from "drizzle-orm";
+import { eq, and, inArray, sql } from "drizzle-orm";
 import { notifications } from "../Schema/DatabaseSchema";
 import { zValidator } from "@hono/zod-validator";
-import { createNotificationSchema, markAsReadSchema, createBatchNotificationSchema, createGroupNotificationSchema } from "../Types/zodSchema";
+import { createNotificationSchema, markAsReadSchema, createBatchNotificationSchema, createGroupNotificationSchema, updateNotificationPreferencesSchema } from "../Types/zodSchema";
 import NotificationHelper from "../Utils/NotificationHelper";
+import NotificationPreferences from "../Utils/NotificationPreferences";
+import CursorPagination, { type CursorSortKey } from "../Utils/CursorPagination";
 import { Role } from "../Types/types";
 
 const router = new Hono<HonoGenericContext>();
@@ -18,11 +20,24 @@ router.get("/list", authenticated, async (c) => {
     const user = c.get("user");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const unreadOnly = c.req.query("unreadOnly") || "false";
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const isUnreadOnly = unreadOnly === "true";
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(notifications.createdAt), direction: "desc", type: "timestamp" },
+      { expression: notifications.notificationId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 建構查詢條件
     const whereConditions = [eq(notifications.receiverId, user.workerId || user.employerId || user.adminId)];
 
@@ -30,12 +45,16 @@ router.get("/list", authenticated, async (c) => {
       whereConditions.push(eq(notifications.isRead, false));
     }
 
+    if (cursorValues) {
+      whereConditions.push(CursorPagination.after(cursorKeys, cursorValues));
+    }
+
     const whereCondition = whereConditions.length === 1 ? whereConditions[0] : and(...whereConditions);
 
-    // 獲取通知列表
+    // 獲取通知列表（有游標時從游標之後開始，不使用 offset）
     const notificationList = await dbClient.query.notifications.findMany({
       where: whereCondition,
-      orderBy: [desc(notifications.createdAt)],
+      orderBy: CursorPagination.orderBy(cursorKeys),
       columns: {
         notificationId: true,
         title: true,
@@ -46,12 +65,15 @@ router.get("/list", authenticated, async (c) => {
         resourceId: true,
       },
       limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
     // 檢查是否有更多資料
-    const hasMore = notificationList.length > requestLimit;
-    const sliced = hasMore ? notificationList.slice(0, requestLimit) : notificationList;
+    const { items: sliced, hasMore, nextCursor } = CursorPagination.paginate(
+      notificationList,
+      requestLimit,
+      notification => [notification.createdAt, notification.notificationId]
+    );
 
     return c.json({
       data: {
@@ -61,6 +83,7 @@ router.get("/list", authenticated, async (c) => {
           offset: requestOffset,
           hasMore,
           returned: sliced.length,
+          nextCursor,
         },
       },
     }, 200);
@@ -73,6 +96,45 @@ router.get("/list", authenticated, async (c) => {
   }
 });
 
+// 獲取通知偏好設定（各類型的站內通知、推播、郵件開關與勿擾時段）
+router.get("/preferences", authenticated, async (c) => {
+  try {
+    const user = c.get("user");
+    const preferences = await NotificationPreferences.get(user.workerId || user.employerId || user.adminId);
+
+    return c.json({
+      data: preferences,
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取通知偏好設定失敗:", error);
+    return c.json({
+      message: "獲取通知偏好設定失敗",
+    }, 500);
+  }
+});
+
+// 更新通知偏好設定（只更新有提供的項目）
+router.put("/preferences", authenticated, zValidator("json", updateNotificationPreferencesSchema), async (c) => {
+  try {
+    const user = c.get("user");
+    const body = c.req.valid("json");
+
+    const preferences = await NotificationPreferences.update(user.workerId || user.employerId || user.adminId, body);
+
+    return c.json({
+      message: "通知偏好設定已更新",
+      data: preferences,
+    }, 200);
+
+  } catch (error) {
+    console.error("更新通知偏好設定失敗:", error);
+    return c.json({
+      message: "更新通知偏好設定失敗",
+    }, 500);
+  }
+});
+
 // 獲取是否有未讀通知
 router.get("/unread", authenticated, async (c) => {
     const user = c.get("user");
@@ -234,18 +296,13 @@ router.post("/create-group", authenticated, zValidator("json", createGroupNotifi
     }
 
     if (sendPush) {
-      const pushData = {
-        type,
-        resourceId: resourceId || "",
-      };
-
       const targetRoles: Role[] = [];
       groups.workers && targetRoles.push(Role.WORKER);
       groups.employers && targetRoles.push(Role.EMPLOYER);
       groups.admins && targetRoles.push(Role.ADMIN);
 
       if (targetRoles.length > 0) {
-        await NotificationHelper.sendPushToUserGroup(targetRoles, title, message, pushData);
+        await NotificationHelper.sendPushToUserGroup(targetRoles, title, message, type, resourceId);
       }
     }
 
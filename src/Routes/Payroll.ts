@@ -0,0 +1,435 @@
+import { Hono } from "hono";
+import { authenticated } from "../Middleware/authentication";
+import { requireEmployer, requireApprovedEmployer, requireWorker } from "../Middleware/guards";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext } from "../Types/types";
+import dbClient from "../Client/DrizzleClient";
+import { eq, and, desc, gte, lte, sql, inArray, count } from "drizzle-orm";
+import { gigs, payrollRecords, workers } from "../Schema/DatabaseSchema";
+import { zValidator } from "@hono/zod-validator";
+import {
+  payrollQuerySchema,
+  payrollSummaryQuerySchema,
+  adjustPayrollSchema,
+  approvePayrollSchema
+} from "../Types/zodSchema";
+import PayrollCalculator from "../Utils/PayrollCalculator";
+
+const router = new Hono<HonoGenericContext>();
+
+// 分鐘轉換為小時（保留兩位小數）
+function toHours(minutes: number): number {
+  return Number((Number(minutes) / 60).toFixed(2));
+}
+
+// ========== Employer 相關路由 ==========
+
+/**
+ * Employer 查看單一工作的薪資結算
+ * GET /payroll/employer/gig/:gigId
+ */
+router.get(
+  "/employer/gig/:gigId",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("query", payrollQuerySchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const gigId = c.req.param("gigId");
+      const { dateStart, dateEnd, status, limit: requestLimit, offset: requestOffset } = c.req.valid("query");
+
+      const gig = await dbClient.query.gigs.findFirst({
+        where: and(eq(gigs.gigId, gigId), eq(gigs.employerId, user.employerId)),
+        columns: {
+          gigId: true,
+          title: true,
+          hourlyRate: true,
+        },
+      });
+
+      if (!gig) {
+        return c.json({
+          message: "工作不存在或無權限查看",
+        }, 404);
+      }
+
+      const whereConditions = [eq(payrollRecords.gigId, gigId)];
+      if (dateStart) whereConditions.push(gte(payrollRecords.workDate, dateStart));
+      if (dateEnd) whereConditions.push(lte(payrollRecords.workDate, dateEnd));
+      if (status) whereConditions.push(eq(payrollRecords.status, status));
+
+      const records = await dbClient
+        .select({
+          payrollId: payrollRecords.payrollId,
+          workerId: payrollRecords.workerId,
+          workerFirstName: workers.firstName,
+          workerLastName: workers.lastName,
+          workDate: payrollRecords.workDate,
+          checkInAt: payrollRecords.checkInAt,
+          checkOutAt: payrollRecords.checkOutAt,
+          workedMinutes: payrollRecords.workedMinutes,
+          hourlyRate: payrollRecords.hourlyRate,
+          calculatedAmount: payrollRecords.calculatedAmount,
+          adjustedAmount: payrollRecords.adjustedAmount,
+          adjustmentReason: payrollRecords.adjustmentReason,
+          status: payrollRecords.status,
+          approvedAt: payrollRecords.approvedAt,
+        })
+        .from(payrollRecords)
+        .innerJoin(workers, eq(payrollRecords.workerId, workers.workerId))
+        .where(and(...whereConditions))
+        .orderBy(desc(payrollRecords.workDate), workers.lastName, workers.firstName)
+        .limit(requestLimit + 1) // 多查一筆來判斷 hasMore
+        .offset(requestOffset);
+
+      const hasMore = records.length > requestLimit;
+      const returnRecords = hasMore ? records.slice(0, requestLimit) : records;
+
+      const [summary] = await dbClient
+        .select({
+          totalRecords: count(),
+          totalMinutes: sql<number>`COALESCE(SUM(${payrollRecords.workedMinutes}), 0)::int`,
+          totalAmount: sql<number>`COALESCE(SUM(${PayrollCalculator.finalAmountSql()}), 0)::int`,
+          approvedAmount: sql<number>`COALESCE(SUM(CASE WHEN ${payrollRecords.status} = 'approved' THEN ${PayrollCalculator.finalAmountSql()} ELSE 0 END), 0)::int`,
+        })
+        .from(payrollRecords)
+        .where(and(...whereConditions));
+
+      return c.json({
+        message: "獲取工作薪資結算成功",
+        data: {
+          gig,
+          records: returnRecords.map(record => ({
+            payrollId: record.payrollId,
+            worker: {
+              workerId: record.workerId,
+              name: `${record.workerFirstName} ${record.workerLastName}`,
+            },
+            workDate: record.workDate,
+            checkInAt: record.checkInAt,
+            checkOutAt: record.checkOutAt,
+            workedHours: toHours(record.workedMinutes),
+            hourlyRate: record.hourlyRate,
+            calculatedAmount: record.calculatedAmount,
+            adjustedAmount: record.adjustedAmount,
+            adjustmentReason: record.adjustmentReason,
+            finalAmount: record.adjustedAmount ?? record.calculatedAmount,
+            status: record.status,
+            approvedAt: record.approvedAt,
+          })),
+          summary: {
+            totalRecords: Number(summary.totalRecords),
+            totalHours: toHours(summary.totalMinutes),
+            totalAmount: Number(summary.totalAmount),
+            approvedAmount: Number(summary.approvedAmount),
+            pendingAmount: Number(summary.totalAmount) - Number(summary.approvedAmount),
+          },
+          pagination: {
+            limit: requestLimit,
+            offset: requestOffset,
+            hasMore,
+            returned: returnRecords.length,
+          },
+        },
+      }, 200);
+    } catch (error) {
+      console.error("獲取工作薪資結算時發生錯誤:", error);
+      return c.json({
+        message: "獲取工作薪資結算失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * Employer 查看期間內各工作的薪資彙總
+ * GET /payroll/employer/summary
+ */
+router.get(
+  "/employer/summary",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("query", payrollSummaryQuerySchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { dateStart, dateEnd } = c.req.valid("query");
+
+      const gigSummaries = await dbClient
+        .select({
+          gigId: gigs.gigId,
+          title: gigs.title,
+          workerCount: sql<number>`COUNT(DISTINCT ${payrollRecords.workerId})::int`,
+          totalRecords: count(),
+          totalMinutes: sql<number>`COALESCE(SUM(${payrollRecords.workedMinutes}), 0)::int`,
+          totalAmount: sql<number>`COALESCE(SUM(${PayrollCalculator.finalAmountSql()}), 0)::int`,
+          approvedAmount: sql<number>`COALESCE(SUM(CASE WHEN ${payrollRecords.status} = 'approved' THEN ${PayrollCalculator.finalAmountSql()} ELSE 0 END), 0)::int`,
+        })
+        .from(payrollRecords)
+        .innerJoin(gigs, eq(payrollRecords.gigId, gigs.gigId))
+        .where(and(
+          eq(gigs.employerId, user.employerId),
+          gte(payrollRecords.workDate, dateStart),
+          lte(payrollRecords.workDate, dateEnd)
+        ))
+        .groupBy(gigs.gigId, gigs.title)
+        .orderBy(gigs.title);
+
+      const formattedGigs = gigSummaries.map(gig => ({
+        gigId: gig.gigId,
+        title: gig.title,
+        workerCount: Number(gig.workerCount),
+        totalRecords: Number(gig.totalRecords),
+        totalHours: toHours(gig.totalMinutes),
+        totalAmount: Number(gig.totalAmount),
+        approvedAmount: Number(gig.approvedAmount),
+        pendingAmount: Number(gig.totalAmount) - Number(gig.approvedAmount),
+      }));
+
+      return c.json({
+        message: "獲取薪資彙總成功",
+        data: {
+          period: { dateStart, dateEnd },
+          gigs: formattedGigs,
+          total: {
+            totalHours: Number(formattedGigs.reduce((sum, gig) => sum + gig.totalHours, 0).toFixed(2)),
+            totalAmount: formattedGigs.reduce((sum, gig) => sum + gig.totalAmount, 0),
+            approvedAmount: formattedGigs.reduce((sum, gig) => sum + gig.approvedAmount, 0),
+            pendingAmount: formattedGigs.reduce((sum, gig) => sum + gig.pendingAmount, 0),
+          },
+        },
+      }, 200);
+    } catch (error) {
+      console.error("獲取薪資彙總時發生錯誤:", error);
+      return c.json({
+        message: "獲取薪資彙總失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * Employer 批次核准薪資
+ * PUT /payroll/employer/approve
+ */
+router.put(
+  "/employer/approve",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", approvePayrollSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { payrollIds } = c.req.valid("json");
+
+      // 只保留屬於該商家且尚未核准的記錄
+      const ownedRecords = await dbClient
+        .select({ payrollId: payrollRecords.payrollId })
+        .from(payrollRecords)
+        .innerJoin(gigs, eq(payrollRecords.gigId, gigs.gigId))
+        .where(and(
+          inArray(payrollRecords.payrollId, payrollIds),
+          eq(gigs.employerId, user.employerId),
+          eq(payrollRecords.status, "pending")
+        ));
+
+      if (ownedRecords.length === 0) {
+        return c.json({
+          message: "找不到可核准的薪資記錄",
+        }, 404);
+      }
+
+      const approved = await dbClient
+        .update(payrollRecords)
+        .set({
+          status: "approved",
+          approvedAt: sql`now()`,
+          updatedAt: sql`now()`,
+        })
+        .where(inArray(payrollRecords.payrollId, ownedRecords.map(record => record.payrollId)))
+        .returning({ payrollId: payrollRecords.payrollId });
+
+      return c.json({
+        message: `已核准 ${approved.length} 筆薪資記錄`,
+        data: {
+          approvedIds: approved.map(record => record.payrollId),
+          skippedCount: payrollIds.length - approved.length,
+        },
+      }, 200);
+    } catch (error) {
+      console.error("核准薪資時發生錯誤:", error);
+      return c.json({
+        message: "核准薪資失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * Employer 調整薪資金額
+ * PUT /payroll/:payrollId/adjust
+ */
+router.put(
+  "/:payrollId/adjust",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", adjustPayrollSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const payrollId = c.req.param("payrollId");
+      const { amount, reason } = c.req.valid("json");
+
+      const [record] = await dbClient
+        .select({
+          payrollId: payrollRecords.payrollId,
+          status: payrollRecords.status,
+        })
+        .from(payrollRecords)
+        .innerJoin(gigs, eq(payrollRecords.gigId, gigs.gigId))
+        .where(and(
+          eq(payrollRecords.payrollId, payrollId),
+          eq(gigs.employerId, user.employerId)
+        ))
+        .limit(1);
+
+      if (!record) {
+        return c.json({
+          message: "薪資記錄不存在或無權限修改",
+        }, 404);
+      }
+
+      if (record.status === "approved") {
+        return c.json({
+          message: "薪資記錄已核准，無法調整",
+        }, 400);
+      }
+
+      const [updatedRecord] = await dbClient
+        .update(payrollRecords)
+        .set({
+          adjustedAmount: amount,
+          adjustmentReason: reason,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(payrollRecords.payrollId, payrollId))
+        .returning();
+
+      return c.json({
+        message: "薪資金額調整成功",
+        data: {
+          payrollId: updatedRecord.payrollId,
+          calculatedAmount: updatedRecord.calculatedAmount,
+          adjustedAmount: updatedRecord.adjustedAmount,
+          adjustmentReason: updatedRecord.adjustmentReason,
+          status: updatedRecord.status,
+        },
+      }, 200);
+    } catch (error) {
+      console.error("調整薪資時發生錯誤:", error);
+      return c.json({
+        message: "調整薪資失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+// ========== Worker 相關路由 ==========
+
+/**
+ * Worker 查看自己的收入
+ * GET /payroll/worker/my-earnings
+ */
+router.get(
+  "/worker/my-earnings",
+  authenticated,
+  requireWorker,
+  zValidator("query", payrollQuerySchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { dateStart, dateEnd, status, limit: requestLimit, offset: requestOffset } = c.req.valid("query");
+
+      const whereConditions = [eq(payrollRecords.workerId, user.workerId)];
+      if (dateStart) whereConditions.push(gte(payrollRecords.workDate, dateStart));
+      if (dateEnd) whereConditions.push(lte(payrollRecords.workDate, dateEnd));
+      if (status) whereConditions.push(eq(payrollRecords.status, status));
+
+      const earnings = await dbClient.query.payrollRecords.findMany({
+        where: and(...whereConditions),
+        with: {
+          gig: {
+            columns: {
+              gigId: true,
+              title: true,
+            },
+          },
+        },
+        orderBy: [desc(payrollRecords.workDate)],
+        limit: requestLimit + 1, // 多查一筆來判斷 hasMore
+        offset: requestOffset,
+      });
+
+      const hasMore = earnings.length > requestLimit;
+      const returnEarnings = hasMore ? earnings.slice(0, requestLimit) : earnings;
+
+      const [summary] = await dbClient
+        .select({
+          totalMinutes: sql<number>`COALESCE(SUM(${payrollRecords.workedMinutes}), 0)::int`,
+          totalAmount: sql<number>`COALESCE(SUM(${PayrollCalculator.finalAmountSql()}), 0)::int`,
+          approvedAmount: sql<number>`COALESCE(SUM(CASE WHEN ${payrollRecords.status} = 'approved' THEN ${PayrollCalculator.finalAmountSql()} ELSE 0 END), 0)::int`,
+        })
+        .from(payrollRecords)
+        .where(and(...whereConditions));
+
+      return c.json({
+        message: "獲取收入記錄成功",
+        data: {
+          earnings: returnEarnings.map(record => ({
+            payrollId: record.payrollId,
+            gig: record.gig,
+            workDate: record.workDate,
+            checkInAt: record.checkInAt,
+            checkOutAt: record.checkOutAt,
+            workedHours: toHours(record.workedMinutes),
+            hourlyRate: record.hourlyRate,
+            amount: record.adjustedAmount ?? record.calculatedAmount,
+            isAdjusted: record.adjustedAmount !== null,
+            adjustmentReason: record.adjustmentReason,
+            status: record.status,
+            approvedAt: record.approvedAt,
+          })),
+          summary: {
+            totalHours: toHours(summary.totalMinutes),
+            totalAmount: Number(summary.totalAmount),
+            approvedAmount: Number(summary.approvedAmount),
+            pendingAmount: Number(summary.totalAmount) - Number(summary.approvedAmount),
+          },
+          pagination: {
+            limit: requestLimit,
+            offset: requestOffset,
+            hasMore,
+            returned: returnEarnings.length,
+          },
+        },
+      }, 200);
+    } catch (error) {
+      console.error("獲取收入記錄時發生錯誤:", error);
+      return c.json({
+        message: "獲取收入記錄失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+export default { path: "/payroll", router } as IRouter;
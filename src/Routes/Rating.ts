@@ -4,11 +4,14 @@ import { requireWorker, requireEmployer, requireApprovedEmployer } from "../Midd
 import type IRouter from "../Interfaces/IRouter";
 import type { HonoGenericContext } from "../Types/types";
 import dbClient from "../Client/DrizzleClient";
-import { eq, and, desc, sql, count, lt, avg } from "drizzle-orm";
+import { eq, and, sql, count, lt, avg } from "drizzle-orm";
 import { gigs, gigApplications, workers, employers, workerRatings, employerRatings } from "../Schema/DatabaseSchema";
 import { zValidator } from "@hono/zod-validator";
 import { createRatingSchema } from "../Types/zodSchema";
 import { DateUtils } from "../Utils/DateUtils";
+import CursorPagination, { type CursorSortKey } from "../Utils/CursorPagination";
+import NotificationHelper from "../Utils/NotificationHelper";
+import { Role } from "../Types/types";
 
 const router = new Hono<HonoGenericContext>();
 
@@ -93,6 +96,14 @@ router.post(
         })
         .returning();
 
+      await NotificationHelper.notifyRatingReceived(
+        workerId,
+        Role.WORKER,
+        user.employerName,
+        ratingValue,
+        newRating.ratingId,
+      );
+
       return c.json({
         message: "評分成功",
         data: {
@@ -189,6 +200,14 @@ router.post(
         })
         .returning();
 
+      await NotificationHelper.notifyRatingReceived(
+        employerId,
+        Role.EMPLOYER,
+        `${user.firstName} ${user.lastName}`,
+        ratingValue,
+        newRating.ratingId,
+      );
+
       return c.json({
         message: "評分成功",
         data: {
@@ -330,13 +349,29 @@ router.get("/my-ratings/employer", authenticated, requireEmployer, requireApprov
     const user = c.get("user");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const employerId = user.employerId;
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(workerRatings.createdAt), direction: "desc", type: "timestamp" },
+      { expression: workerRatings.ratingId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 獲取商家的所有評分
     const myRatings = await dbClient.query.workerRatings.findMany({
-      where: eq(workerRatings.employerId, employerId),
+      where: and(
+        eq(workerRatings.employerId, employerId),
+        cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined
+      ),
       columns: {
         ratingId: true,
         ratingValue: true,
@@ -360,13 +395,16 @@ router.get("/my-ratings/employer", authenticated, requireEmployer, requireApprov
           },
         },
       },
-      orderBy: [desc(workerRatings.createdAt)],
+      orderBy: CursorPagination.orderBy(cursorKeys),
       limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
-    const hasMore = myRatings.length > requestLimit;
-    const returnRatings = hasMore ? myRatings.slice(0, requestLimit) : myRatings;
+    const { items: returnRatings, hasMore, nextCursor } = CursorPagination.paginate(
+      myRatings,
+      requestLimit,
+      rating => [rating.createdAt, rating.ratingId]
+    );
 
     return c.json({
       data: {
@@ -391,6 +429,7 @@ router.get("/my-ratings/employer", authenticated, requireEmployer, requireApprov
           offset: requestOffset,
           hasMore,
           returned: returnRatings.length,
+          nextCursor,
         },
       },
     }, 200);
@@ -411,13 +450,29 @@ router.get("/my-ratings/worker", authenticated, requireWorker, async (c) => {
     const user = c.get("user");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const workerId = user.workerId;
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(employerRatings.createdAt), direction: "desc", type: "timestamp" },
+      { expression: employerRatings.ratingId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 獲取打工者的所有評分
     const myRatings = await dbClient.query.employerRatings.findMany({
-      where: eq(employerRatings.workerId, workerId),
+      where: and(
+        eq(employerRatings.workerId, workerId),
+        cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined
+      ),
       columns: {
         ratingId: true,
         ratingValue: true,
@@ -441,13 +496,16 @@ router.get("/my-ratings/worker", authenticated, requireWorker, async (c) => {
           },
         },
       },
-      orderBy: [desc(employerRatings.createdAt)],
+      orderBy: CursorPagination.orderBy(cursorKeys),
       limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
-    const hasMore = myRatings.length > requestLimit;
-    const returnRatings = hasMore ? myRatings.slice(0, requestLimit) : myRatings;
+    const { items: returnRatings, hasMore, nextCursor } = CursorPagination.paginate(
+      myRatings,
+      requestLimit,
+      rating => [rating.createdAt, rating.ratingId]
+    );
 
     return c.json({
       data: {
@@ -472,6 +530,7 @@ router.get("/my-ratings/worker", authenticated, requireWorker, async (c) => {
           offset: requestOffset,
           hasMore,
           returned: returnRatings.length,
+          nextCursor,
         },
       },
     }, 200);
@@ -494,13 +553,29 @@ router.get("/received-ratings/employer", authenticated, requireEmployer, async (
     const user = c.get("user");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const employerId = user.employerId;
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(employerRatings.createdAt), direction: "desc", type: "timestamp" },
+      { expression: employerRatings.ratingId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 獲取商家收到的所有評分
     const receivedRatings = await dbClient.query.employerRatings.findMany({
-      where: eq(employerRatings.employerId, employerId),
+      where: and(
+        eq(employerRatings.employerId, employerId),
+        cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined
+      ),
       columns: {
         ratingId: true,
         ratingValue: true,
@@ -524,13 +599,16 @@ router.get("/received-ratings/employer", authenticated, requireEmployer, async (
           },
         },
       },
-      orderBy: [desc(employerRatings.createdAt)],
+      orderBy: CursorPagination.orderBy(cursorKeys),
       limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
-    const hasMore = receivedRatings.length > requestLimit;
-    const returnRatings = hasMore ? receivedRatings.slice(0, requestLimit) : receivedRatings;
+    const { items: returnRatings, hasMore, nextCursor } = CursorPagination.paginate(
+      receivedRatings,
+      requestLimit,
+      rating => [rating.createdAt, rating.ratingId]
+    );
 
     return c.json({
       data: {
@@ -555,6 +633,7 @@ router.get("/received-ratings/employer", authenticated, requireEmployer, async (
           offset: requestOffset,
           hasMore,
           returned: returnRatings.length,
+          nextCursor,
         },
       },
     }, 200);
@@ -575,13 +654,29 @@ router.get("/received-ratings/worker", authenticated, requireWorker, async (c) =
     const user = c.get("user");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const workerId = user.workerId;
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(workerRatings.createdAt), direction: "desc", type: "timestamp" },
+      { expression: workerRatings.ratingId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 獲取打工者收到的所有評分
     const receivedRatings = await dbClient.query.workerRatings.findMany({
-      where: eq(workerRatings.workerId, workerId),
+      where: and(
+        eq(workerRatings.workerId, workerId),
+        cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined
+      ),
       columns: {
         ratingId: true,
         ratingValue: true,
@@ -605,13 +700,16 @@ router.get("/received-ratings/worker", authenticated, requireWorker, async (c) =
           },
         },
       },
-      orderBy: [desc(workerRatings.createdAt)],
+      orderBy: CursorPagination.orderBy(cursorKeys),
       limit: requestLimit + 1, // 多查一筆來確認是否有更多資料
-      offset: requestOffset,
+      offset: cursorValues ? 0 : requestOffset,
     });
 
-    const hasMore = receivedRatings.length > requestLimit;
-    const returnRatings = hasMore ? receivedRatings.slice(0, requestLimit) : receivedRatings;
+    const { items: returnRatings, hasMore, nextCursor } = CursorPagination.paginate(
+      receivedRatings,
+      requestLimit,
+      rating => [rating.createdAt, rating.ratingId]
+    );
 
     return c.json({
       data: {
@@ -636,6 +734,7 @@ router.get("/received-ratings/worker", authenticated, requireWorker, async (c) =
           offset: requestOffset,
           hasMore,
           returned: returnRatings.length,
+          nextCursor,
         },
       },
     }, 200);
@@ -659,6 +758,7 @@ router.get("/list/employer/gig/:gigId", authenticated, requireEmployer, requireA
     const gigId = c.req.param("gigId");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const status = c.req.query("status") || "unrated"; // 預設顯示未評分
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
@@ -690,12 +790,28 @@ router.get("/list/employer/gig/:gigId", authenticated, requireEmployer, requireA
       }, 404);
     }
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: CursorPagination.timestamp(gigApplications.createdAt), direction: "asc", type: "timestamp" },
+      { expression: gigApplications.workerId, direction: "asc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 建立查詢條件
     const whereConditions = [
       eq(gigApplications.gigId, gigId),
       eq(gigApplications.status, "worker_confirmed"), // 必須是已批准的申請
     ];
 
+    if (cursorValues) {
+      whereConditions.push(CursorPagination.after(cursorKeys, cursorValues));
+    }
+
     // 根據篩選條件添加評分狀態篩選
     if (status === "rated") {
       whereConditions.push(sql`${workerRatings.ratingId} IS NOT NULL`); // 已評分
@@ -723,12 +839,15 @@ router.get("/list/employer/gig/:gigId", authenticated, requireEmployer, requireA
         eq(workerRatings.employerId, employerId)
       ))
       .where(and(...whereConditions))
-      .orderBy(gigApplications.createdAt)
+      .orderBy(...CursorPagination.orderBy(cursorKeys))
       .limit(requestLimit + 1) // 多查一筆來確認是否有更多資料
-      .offset(requestOffset);
+      .offset(cursorValues ? 0 : requestOffset);
 
-    const hasMore = workerList.length > requestLimit;
-    const returnWorkers = hasMore ? workerList.slice(0, requestLimit) : workerList;
+    const { items: returnWorkers, hasMore, nextCursor } = CursorPagination.paginate(
+      workerList,
+      requestLimit,
+      worker => [worker.appliedAt, worker.workerId]
+    );
 
     return c.json({
       data: {
@@ -749,6 +868,7 @@ router.get("/list/employer/gig/:gigId", authenticated, requireEmployer, requireA
           offset: requestOffset,
           hasMore,
           returned: returnWorkers.length,
+          nextCursor,
         },
       },
     }, 200);
@@ -769,11 +889,24 @@ router.get("/list/worker", authenticated, requireWorker, async (c) => {
     const user = c.get("user");
     const limit = c.req.query("limit") || "10";
     const offset = c.req.query("offset") || "0";
+    const cursor = c.req.query("cursor");
     const requestLimit = Number.parseInt(limit);
     const requestOffset = Number.parseInt(offset);
     const workerId = user.workerId;
     const currentDate = DateUtils.getCurrentDate();
 
+    const cursorKeys: CursorSortKey[] = [
+      { expression: gigs.dateEnd, direction: "desc", type: "date" },
+      { expression: gigs.gigId, direction: "desc", type: "string" },
+    ];
+    const cursorValues = cursor ? CursorPagination.decode(cursor, cursorKeys) : null;
+
+    if (cursor && !cursorValues) {
+      return c.json({
+        message: "無效的分頁游標",
+      }, 400);
+    }
+
     // 查詢該打工者可評分的工作
     const ratableGigs = await dbClient
       .select({
@@ -797,14 +930,18 @@ router.get("/list/worker", authenticated, requireWorker, async (c) => {
         eq(gigApplications.workerId, workerId),
         eq(gigApplications.status, "worker_confirmed"),
         lt(gigs.dateEnd, currentDate), // 工作必須已結束
-        sql`${employerRatings.ratingId} IS NULL` // 該打工者未評分
+        sql`${employerRatings.ratingId} IS NULL`, // 該打工者未評分
+        cursorValues ? CursorPagination.after(cursorKeys, cursorValues) : undefined
       ))
-      .orderBy(desc(gigs.dateEnd))
+      .orderBy(...CursorPagination.orderBy(cursorKeys))
       .limit(requestLimit + 1) // 多查一筆來確認是否有更多資料
-      .offset(requestOffset);
+      .offset(cursorValues ? 0 : requestOffset);
 
-    const hasMore = ratableGigs.length > requestLimit;
-    const returnGigs = hasMore ? ratableGigs.slice(0, requestLimit) : ratableGigs;
+    const { items: returnGigs, hasMore, nextCursor } = CursorPagination.paginate(
+      ratableGigs,
+      requestLimit,
+      gig => [gig.dateEnd, gig.gigId]
+    );
 
     return c.json({
       data: {
@@ -823,6 +960,7 @@ router.get("/list/worker", authenticated, requireWorker, async (c) => {
           offset: requestOffset,
           hasMore,
           returned: returnGigs.length,
+          nextCursor,
         },
       },
     }, 200);
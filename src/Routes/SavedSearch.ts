@@ -0,0 +1,183 @@
+import { Hono } from "hono";
+import { authenticated } from "../Middleware/authentication";
+import { requireWorker } from "../Middleware/guards";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext } from "../Types/types";
+import dbClient from "../Client/DrizzleClient";
+import { eq, and, desc, count, sql } from "drizzle-orm";
+import { savedSearches } from "../Schema/DatabaseSchema";
+import { zValidator } from "@hono/zod-validator";
+import { createSavedSearchSchema, updateSavedSearchFrequencySchema } from "../Types/zodSchema";
+import SavedSearchManager from "../Utils/SavedSearchManager";
+
+const router = new Hono<HonoGenericContext>();
+
+/**
+ * Worker 儲存搜尋條件
+ * POST /saved-search
+ */
+router.post(
+  "/",
+  authenticated,
+  requireWorker,
+  zValidator("json", createSavedSearchSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const body = c.req.valid("json");
+
+      const [{ total }] = await dbClient
+        .select({ total: count() })
+        .from(savedSearches)
+        .where(eq(savedSearches.workerId, user.workerId));
+
+      if (total >= SavedSearchManager.MAX_SEARCHES_PER_WORKER) {
+        return c.json({
+          message: `最多只能儲存 ${SavedSearchManager.MAX_SEARCHES_PER_WORKER} 個搜尋條件`,
+        }, 400);
+      }
+
+      const [savedSearch] = await dbClient
+        .insert(savedSearches)
+        .values({
+          workerId: user.workerId,
+          name: body.name,
+          city: body.city ?? null,
+          district: body.district ?? null,
+          minRate: body.minRate ?? null,
+          maxRate: body.maxRate ?? null,
+          dateStart: body.dateStart ?? null,
+          searchQuery: body.searchQuery ?? null,
+          frequency: body.frequency,
+        })
+        .returning();
+
+      return c.json({
+        message: "搜尋條件已儲存",
+        data: savedSearch,
+      }, 201);
+
+    } catch (error) {
+      console.error("儲存搜尋條件時發生錯誤:", error);
+      return c.json({
+        message: "儲存搜尋條件失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * Worker 查看已儲存的搜尋條件
+ * GET /saved-search
+ */
+router.get("/", authenticated, requireWorker, async (c) => {
+  try {
+    const user = c.get("user");
+
+    const searches = await dbClient.query.savedSearches.findMany({
+      where: eq(savedSearches.workerId, user.workerId),
+      orderBy: [desc(savedSearches.createdAt)],
+    });
+
+    return c.json({
+      message: "獲取搜尋條件成功",
+      data: {
+        searches,
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取搜尋條件時發生錯誤:", error);
+    return c.json({
+      message: "獲取搜尋條件失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+/**
+ * Worker 更改搜尋條件的通知頻率
+ * PUT /saved-search/:searchId/frequency
+ */
+router.put(
+  "/:searchId/frequency",
+  authenticated,
+  requireWorker,
+  zValidator("json", updateSavedSearchFrequencySchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const searchId = c.req.param("searchId");
+      const { frequency } = c.req.valid("json");
+
+      const [updated] = await dbClient
+        .update(savedSearches)
+        .set({
+          frequency,
+          updatedAt: sql`now()`,
+        })
+        .where(and(
+          eq(savedSearches.searchId, searchId),
+          eq(savedSearches.workerId, user.workerId)
+        ))
+        .returning();
+
+      if (!updated) {
+        return c.json({
+          message: "搜尋條件不存在",
+        }, 404);
+      }
+
+      return c.json({
+        message: "通知頻率已更新",
+        data: updated,
+      }, 200);
+
+    } catch (error) {
+      console.error("更新搜尋條件通知頻率時發生錯誤:", error);
+      return c.json({
+        message: "更新通知頻率失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * Worker 刪除搜尋條件
+ * DELETE /saved-search/:searchId
+ */
+router.delete("/:searchId", authenticated, requireWorker, async (c) => {
+  try {
+    const user = c.get("user");
+    const searchId = c.req.param("searchId");
+
+    const [removed] = await dbClient
+      .delete(savedSearches)
+      .where(and(
+        eq(savedSearches.searchId, searchId),
+        eq(savedSearches.workerId, user.workerId)
+      ))
+      .returning({ searchId: savedSearches.searchId });
+
+    if (!removed) {
+      return c.json({
+        message: "搜尋條件不存在",
+      }, 404);
+    }
+
+    return c.json({
+      message: "搜尋條件已刪除",
+    }, 200);
+
+  } catch (error) {
+    console.error("刪除搜尋條件時發生錯誤:", error);
+    return c.json({
+      message: "刪除搜尋條件失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+export default { path: "/saved-search", router } as IRouter;
@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { authenticated } from "../Middleware/authentication";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext } from "../Types/types";
+import RealtimeEvents from "../Utils/RealtimeEvents";
+import SessionManager from "../Utils/SessionManager";
+
+const router = new Hono<HonoGenericContext>();
+
+// Bun 預設閒置 10 秒會關閉連線，心跳間隔須短於此
+const HEARTBEAT_INTERVAL_MS = 8 * 1000;
+
+/**
+ * 即時事件串流（Server-Sent Events），以登入的 session cookie 驗證
+ * 事件：notification(新通知), application_status(申請狀態變更), attendance(打卡)
+ * 每次心跳重新檢查 session，被踢下線或登出後送出 session_expired 事件並關閉串流
+ * GET /stream/events
+ */
+router.get("/events", authenticated, async (c) => {
+  const user = c.get("user");
+  const userId: string = user.workerId || user.employerId || user.adminId;
+  const sessionId = c.get("session").getCache()._id;
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      const unsubscribe = await RealtimeEvents.subscribe(userId, (event) => {
+        stream.writeSSE({
+          event: event.type,
+          data: JSON.stringify(event.data),
+        }).catch((error) => {
+          console.error("傳送即時事件時出錯:", error);
+        });
+      });
+
+      try {
+        await stream.writeSSE({
+          event: "connected",
+          data: JSON.stringify({ userId, role: user.role }),
+        });
+
+        while (!stream.aborted && !stream.closed) {
+          await stream.sleep(HEARTBEAT_INTERVAL_MS);
+
+          if (!(await SessionManager.isActive(userId, sessionId))) {
+            await stream.writeSSE({ event: "session_expired", data: "{}" });
+            break;
+          }
+
+          await stream.write(": heartbeat\n\n");
+        }
+      } finally {
+        await unsubscribe();
+      }
+    },
+    async (error) => {
+      console.error("即時事件串流發生錯誤:", error);
+    }
+  );
+});
+
+export default { path: "/stream", router } as IRouter;
@@ -0,0 +1,314 @@
+import { Hono } from "hono";
+import { authenticated } from "../Middleware/authentication";
+import { requireEmployer, requireApprovedEmployer } from "../Middleware/guards";
+import type IRouter from "../Interfaces/IRouter";
+import type { HonoGenericContext } from "../Types/types";
+import dbClient from "../Client/DrizzleClient";
+import { eq, and, gte, inArray, sql } from "drizzle-orm";
+import { gigs, workers, talentPoolEntries } from "../Schema/DatabaseSchema";
+import { zValidator } from "@hono/zod-validator";
+import { addTalentPoolSchema, updateTalentPoolSchema, inviteTalentPoolSchema } from "../Types/zodSchema";
+import { DateUtils } from "../Utils/DateUtils";
+import TalentPoolManager from "../Utils/TalentPoolManager";
+import InvitationManager, { type InvitationIneligibleReason } from "../Utils/InvitationManager";
+
+const router = new Hono<HonoGenericContext>();
+
+/**
+ * 商家將打工者加入人才庫（限曾合作或評價過的打工者）
+ * POST /talent-pool
+ */
+router.post(
+  "/",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", addTalentPoolSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { workerId, tags, note } = c.req.valid("json");
+
+      const worker = await dbClient.query.workers.findFirst({
+        where: eq(workers.workerId, workerId),
+        columns: { workerId: true },
+      });
+
+      if (!worker) {
+        return c.json({
+          message: "打工者不存在",
+        }, 404);
+      }
+
+      const hasWorkedWith = await TalentPoolManager.hasWorkedWith(user.employerId, workerId);
+
+      if (!hasWorkedWith) {
+        return c.json({
+          message: "只能將曾合作或評價過的打工者加入人才庫",
+        }, 403);
+      }
+
+      const [entry] = await dbClient
+        .insert(talentPoolEntries)
+        .values({
+          employerId: user.employerId,
+          workerId,
+          tags: [...new Set(tags ?? [])],
+          note: note ?? null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!entry) {
+        return c.json({
+          message: "此打工者已在人才庫中",
+        }, 409);
+      }
+
+      return c.json({
+        message: "已加入人才庫",
+        data: entry,
+      }, 201);
+
+    } catch (error) {
+      console.error("加入人才庫時發生錯誤:", error);
+      return c.json({
+        message: "加入人才庫失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 商家查看人才庫，可依評分、出勤率與標籤篩選
+ * GET /talent-pool?minRating=4&minAttendanceRate=90&tag=xxx&limit=10&offset=0
+ */
+router.get("/", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const minRating = c.req.query("minRating");
+    const minAttendanceRate = c.req.query("minAttendanceRate");
+    const tag = c.req.query("tag");
+    const limit = c.req.query("limit") || "10";
+    const offset = c.req.query("offset") || "0";
+
+    const requestLimit = Number.parseInt(limit);
+    const requestOffset = Number.parseInt(offset);
+
+    const { pool: workersInPage, hasMore } = await TalentPoolManager.getPool(user.employerId, {
+      minRating: minRating ? Number(minRating) : undefined,
+      minAttendanceRate: minAttendanceRate ? Number(minAttendanceRate) : undefined,
+      tag: tag || undefined,
+    }, requestLimit, requestOffset);
+
+    return c.json({
+      message: "獲取人才庫成功",
+      data: {
+        workers: workersInPage,
+        pagination: {
+          limit: requestLimit,
+          offset: requestOffset,
+          hasMore,
+          returned: workersInPage.length,
+        },
+      },
+    }, 200);
+
+  } catch (error) {
+    console.error("獲取人才庫時發生錯誤:", error);
+    return c.json({
+      message: "獲取人才庫失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+/**
+ * 商家批次邀請人才庫中的打工者參加工作
+ * 一次最多邀請 100 位，無法邀請的打工者會列在 skipped 中
+ * POST /talent-pool/invite
+ */
+router.post(
+  "/invite",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", inviteTalentPoolSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { gigId, workerIds, message } = c.req.valid("json");
+
+      const gig = await dbClient.query.gigs.findFirst({
+        where: and(
+          eq(gigs.gigId, gigId),
+          eq(gigs.employerId, user.employerId),
+          eq(gigs.isActive, true),
+          gte(gigs.dateEnd, DateUtils.getCurrentDate())
+        ),
+        columns: { gigId: true, title: true },
+      });
+
+      if (!gig) {
+        return c.json({
+          message: "工作不存在、已結束或無權限邀請",
+        }, 404);
+      }
+
+      const requestedWorkerIds = [...new Set(workerIds)];
+
+      const entries = await dbClient
+        .select({ workerId: talentPoolEntries.workerId })
+        .from(talentPoolEntries)
+        .where(and(
+          eq(talentPoolEntries.employerId, user.employerId),
+          inArray(talentPoolEntries.workerId, requestedWorkerIds)
+        ));
+
+      if (entries.length === 0) {
+        return c.json({
+          message: "人才庫中沒有可邀請的打工者",
+        }, 400);
+      }
+
+      const skipped: Array<{ workerId: string; reason: InvitationIneligibleReason | "not_in_pool" }> = [];
+      const poolWorkerIds = new Set(entries.map(entry => entry.workerId));
+
+      for (const workerId of requestedWorkerIds) {
+        if (!poolWorkerIds.has(workerId)) {
+          skipped.push({ workerId, reason: "not_in_pool" });
+        }
+      }
+
+      const ineligibleReasons = await InvitationManager.getIneligibleReasons(user.employerId, [...poolWorkerIds], gigId);
+      const eligibleWorkerIds: string[] = [];
+
+      for (const workerId of poolWorkerIds) {
+        const ineligibleReason = ineligibleReasons.get(workerId);
+
+        if (ineligibleReason) {
+          skipped.push({ workerId, reason: ineligibleReason });
+        } else {
+          eligibleWorkerIds.push(workerId);
+        }
+      }
+
+      const invitations = await InvitationManager.inviteMany(
+        gig,
+        { employerId: user.employerId, employerName: user.employerName },
+        eligibleWorkerIds,
+        message,
+      );
+
+      const invited = invitations.map(invitation => ({
+        workerId: invitation.workerId,
+        invitationId: invitation.invitationId,
+      }));
+
+      return c.json({
+        message: `已邀請 ${invited.length} 位打工者`,
+        data: {
+          gigId,
+          invited,
+          skipped,
+        },
+      }, 201);
+
+    } catch (error) {
+      console.error("批次邀請人才庫打工者時發生錯誤:", error);
+      return c.json({
+        message: "批次邀請失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 商家更新人才庫中打工者的標籤或備註
+ * PUT /talent-pool/:workerId
+ */
+router.put(
+  "/:workerId",
+  authenticated,
+  requireEmployer,
+  requireApprovedEmployer,
+  zValidator("json", updateTalentPoolSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const workerId = c.req.param("workerId");
+      const { tags, note } = c.req.valid("json");
+
+      const [entry] = await dbClient
+        .update(talentPoolEntries)
+        .set({
+          ...(tags !== undefined && { tags: [...new Set(tags)] }),
+          ...(note !== undefined && { note }),
+          updatedAt: sql`now()`,
+        })
+        .where(and(
+          eq(talentPoolEntries.employerId, user.employerId),
+          eq(talentPoolEntries.workerId, workerId)
+        ))
+        .returning();
+
+      if (!entry) {
+        return c.json({
+          message: "此打工者不在人才庫中",
+        }, 404);
+      }
+
+      return c.json({
+        message: "人才庫資料已更新",
+        data: entry,
+      }, 200);
+
+    } catch (error) {
+      console.error("更新人才庫時發生錯誤:", error);
+      return c.json({
+        message: "更新人才庫失敗",
+        error: error instanceof Error ? error.message : "未知錯誤",
+      }, 500);
+    }
+  }
+);
+
+/**
+ * 商家將打工者移出人才庫
+ * DELETE /talent-pool/:workerId
+ */
+router.delete("/:workerId", authenticated, requireEmployer, requireApprovedEmployer, async (c) => {
+  try {
+    const user = c.get("user");
+    const workerId = c.req.param("workerId");
+
+    const [removed] = await dbClient
+      .delete(talentPoolEntries)
+      .where(and(
+        eq(talentPoolEntries.employerId, user.employerId),
+        eq(talentPoolEntries.workerId, workerId)
+      ))
+      .returning({ entryId: talentPoolEntries.entryId });
+
+    if (!removed) {
+      return c.json({
+        message: "此打工者不在人才庫中",
+      }, 404);
+    }
+
+    return c.json({
+      message: "已移出人才庫",
+    }, 200);
+
+  } catch (error) {
+    console.error("移出人才庫時發生錯誤:", error);
+    return c.json({
+      message: "移出人才庫失敗",
+      error: error instanceof Error ? error.message : "未知錯誤",
+    }, 500);
+  }
+});
+
+export default { path: "/talent-pool", router } as IRouter;
@@ -23,11 +23,12 @@ import { Role } from "../Types/types";
 import { UserCache, FileManager, RatingCache, s3Client } from "../Client/Cache/Index";
 import NotificationHelper from "../Utils/NotificationHelper";
 import { requireEmployer } from "../Middleware/guards";
-import { sendEmail } from "../Client/EmailClient";
+import DeliveryQueue from "../Utils/DeliveryQueue";
 import SessionManager from "../Utils/SessionManager";
 import { PasswordResetManager } from "../Utils/PasswordResetManager";
 import { EmailTemplates } from "../Utils/EmailTemplates";
 import { LoginAttemptManager } from "../Utils/LoginAttemptManager";
+import WorkerReliability from "../Utils/WorkerReliability";
 import { getConnInfo } from 'hono/bun'
 
 const router = new Hono<HonoGenericContext>();
@@ -55,6 +56,8 @@ router.post("/register/worker", zValidator("json", workerSignupSchema), async (c
     studyStatus = "就讀中",
     certificates = [],
     jobExperience = [],
+    birthDate,
+    languages = [],
   } = body;
 
   const existingUser = await dbClient.query.workers.findFirst({
@@ -81,6 +84,8 @@ router.post("/register/worker", zValidator("json", workerSignupSchema), async (c
       studyStatus,
       certificates,
       jobExperience,
+      birthDate,
+      languages,
     })
     .returning();
 
@@ -92,7 +97,7 @@ router.post("/register/worker", zValidator("json", workerSignupSchema), async (c
   // 發送歡迎[郵件]給新註冊的打工者
   const subject = "你好! 歡迎加入 WorkNow";
   const html = EmailTemplates.generateWorkerWelcomeEmail(firstName);
-  await sendEmail(email, subject, html);
+  await DeliveryQueue.enqueue({ kind: "email", to: email, subject, html });
 
   return c.json(
     {
@@ -179,7 +184,7 @@ router.post("/register/employer", uploadDocument, zValidator("form", employerSig
       // 發送歡迎[郵件]給新註冊的商家
       const subject = "你好! 歡迎加入 WorkNow！";
       const html = EmailTemplates.generateEmployerWelcomeEmail(employerName);
-      await sendEmail(email, subject, html);
+      await DeliveryQueue.enqueue({ kind: "email", to: email, subject, html });
 
       return c.json(
         {
@@ -301,10 +306,14 @@ router.get("/profile", authenticated, async (c) => {
       await RatingCache.setRatingStats(user.workerId, Role.WORKER, ratingStats);
     }
 
+    // 出勤、遲到、未到班與臨時取消統計
+    const reliabilityByWorker = await WorkerReliability.getByWorkerIds([user.workerId]);
+
     return c.json({
       ...workerData,
       profilePhoto: photoUrlData,
       ratingStats,
+      reliabilityStats: reliabilityByWorker[user.workerId],
     });
   }
 
@@ -717,7 +726,7 @@ router.post("/pw-reset/request", zValidator("json", passwordResetRequestSchema),
       const verificationCode = await PasswordResetManager.storeVerificationCode(email);
       const subject = "WorkNow 密碼重設驗證碼";
       const html = EmailTemplates.generatePasswordResetEmail(verificationCode, 30);
-      await sendEmail(email, subject, html);
+      await DeliveryQueue.enqueue({ kind: "email", to: email, subject, html });
     } else {
       await PasswordResetManager.setRequestCooldown(email);
     }
@@ -785,7 +794,7 @@ router.post("/pw-reset/verify", zValidator("json", passwordResetVerifySchema), a
 
     const subject = "WorkNow 密碼重設成功通知";
     const html = EmailTemplates.generatePasswordResetSuccessEmail();
-    await sendEmail(email, subject, html);
+    await DeliveryQueue.enqueue({ kind: "email", to: email, subject, html });
     await PasswordResetManager.deleteVerificationCode(email);
     await LoginAttemptManager.clearFailedAttempts(platform, email, clientIP);
     return c.text("密碼重設成功", 200);
@@ -7,7 +7,9 @@ import {
   integer,
   json,
   date,
+  doublePrecision,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { nanoid } from "nanoid";
@@ -44,6 +46,10 @@ export const workers = pgTable("workers", {
 
   jobExperience: json("job_experience").default([]),
 
+  // 出生日期與使用語言（用於比對工作的年齡與語言條件）
+  birthDate: date("birth_date"),
+  languages: json("languages").$type<string[]>().default([]),
+
   // === FCM 推播通知相關欄位 ===
   fcmTokens: json("fcm_tokens").default([]), // 存儲多個 FCM tokens
 
@@ -148,12 +154,27 @@ export const gigs = pgTable("gigs", {
 
   // 時薪
   hourlyRate: integer("hourly_rate").notNull(),
+  // 需求人數（已確認與待打工者回復的申請不得超過此人數）
+  headcount: integer("headcount").default(1).notNull(),
   // 城市
   city: varchar("city", { length: 32 }).notNull(),
   // 地區
   district: varchar("district", { length: 32 }).notNull(),
   // 地址
   address: varchar("address", { length: 256 }).notNull(),
+  // 工作地點座標（由地址轉換或商家自行標記），供定位打卡使用
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  // 座標來源：employer(商家標記), geocoded(地址轉換), district(行政區中心點，僅供搜尋距離使用，不適用定位打卡)
+  locationSource: varchar("location_source", {
+    enum: ["employer", "geocoded", "district"],
+  }),
+  // 定位打卡允許的半徑（公尺）
+  geofenceRadius: integer("geofence_radius").default(200).notNull(),
+  // 取消政策：第一個班次開始前幾小時內取消已確認的工作視為臨時取消
+  freeCancellationHours: integer("free_cancellation_hours").default(24).notNull(),
+  // 動態打卡碼密鑰（首次產生動態打卡碼時建立，不可對外回傳）
+  attendanceSecret: varchar("attendance_secret", { length: 64 }),
 
   // 打工環境照上傳，可存多張圖檔路徑
   environmentPhotos: json("environment_photos").default([]),
@@ -186,6 +207,8 @@ export const gigs = pgTable("gigs", {
   index("pgroonga2_gigs_index")
     .using("pgroonga", t.description)
     .with({ tokenizer: "'TokenBigramSplitSymbol'" }),
+  // 距離搜尋
+  index("gigs_location_index").on(t.latitude, t.longitude),
 ]);
 
 // ========== 4. 工作申請表（GigApplications） ==========
@@ -320,10 +343,25 @@ export const attendanceRecords = pgTable("attendance_records", {
     .notNull()
     .references(() => workers.workerId, { onDelete: "cascade" }),
   
-  // 使用的打卡碼
+  // 使用的打卡碼（定位打卡時為空）
   attendanceCodeId: varchar("attendance_code_id", { length: 21 })
-    .notNull()
     .references(() => attendanceCodes.codeId, { onDelete: "cascade" }),
+
+  // 打卡方式：code(打卡碼), rotating_code(動態打卡碼), geofence(定位打卡), correction(補登申請核准後建立)
+  checkMethod: varchar("check_method", {
+    enum: ["code", "rotating_code", "geofence", "correction"],
+  }).default("code").notNull(),
+
+  // 打卡時裝置回報的座標，以及與工作地點的距離（公尺）
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  distanceMeters: integer("distance_meters"),
+
+  // 審核狀態：not_required(不需審核), pending(超出範圍待商家審核), approved(已核准), rejected(已駁回)
+  reviewStatus: varchar("review_status", {
+    enum: ["not_required", "pending", "approved", "rejected"],
+  }).default("not_required").notNull(),
+  reviewedAt: timestamp("reviewed_at"),
   
   // 打卡類型：check_in(上班打卡), check_out(下班打卡)
   checkType: varchar("check_type", {
@@ -373,6 +411,514 @@ export const notifications = pgTable("notifications", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ========== 10. 薪資結算（Payroll Records） ==========
+// 以每位打工者在每個工作日的上下班打卡計算工時與薪資
+export const payrollRecords = pgTable("payroll_records", {
+  payrollId: varchar("payroll_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  // 關聯到工作
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  // 關聯到打工者
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  // 工作日期
+  workDate: date("work_date").notNull(),
+
+  // 上下班打卡時間
+  checkInAt: timestamp("check_in_at").notNull(),
+  checkOutAt: timestamp("check_out_at").notNull(),
+
+  // 實際工時（分鐘）
+  workedMinutes: integer("worked_minutes").notNull(),
+
+  // 計算當下的時薪
+  hourlyRate: integer("hourly_rate").notNull(),
+
+  // 系統計算金額
+  calculatedAmount: integer("calculated_amount").notNull(),
+
+  // 商家調整後金額與原因
+  adjustedAmount: integer("adjusted_amount"),
+  adjustmentReason: text("adjustment_reason"),
+
+  // 結算狀態：pending(待確認), approved(已核准)
+  status: varchar("status", {
+    enum: ["pending", "approved"],
+  }).default("pending").notNull(),
+
+  approvedAt: timestamp("approved_at"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  uniqueIndex("payroll_records_gig_worker_date_index").on(t.gigId, t.workerId, t.workDate),
+]);
+
+// ========== 11. 工作班次（Gig Shifts） ==========
+// 每筆代表工作中實際需要上班的一天與時段（同一工作每天最多一個班次）
+export const gigShifts = pgTable("gig_shifts", {
+  shiftId: varchar("shift_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  // 關聯到工作
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  // 上班日期
+  workDate: date("work_date").notNull(),
+
+  // 上班時段
+  timeStart: varchar("time_start", { length: 20 }).notNull(),
+  timeEnd: varchar("time_end", { length: 20 }).notNull(),
+
+  // 該班次需要的人數
+  headcount: integer("headcount").default(1).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  uniqueIndex("gig_shifts_gig_date_index").on(t.gigId, t.workDate),
+]);
+
+// ========== 12. 候補名單（Gig Waitlist） ==========
+// 名額已滿時企業核准的申請會依序排入候補，有人拒絕或取消時自動遞補
+export const gigWaitlist = pgTable("gig_waitlist", {
+  waitlistId: varchar("waitlist_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  // 關聯到工作
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  // 關聯到申請（同一申請只能候補一次）
+  applicationId: varchar("application_id", { length: 21 })
+    .notNull()
+    .unique()
+    .references(() => gigApplications.applicationId, { onDelete: "cascade" }),
+
+  // 排入候補的時間，作為遞補順序
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("gig_waitlist_gig_created_index").on(t.gigId, t.createdAt),
+]);
+
+// ========== 13. 打卡補登申請（Attendance Corrections） ==========
+// 打工者漏打卡或打卡時間有誤時提出，商家核准後建立或修正打卡記錄
+export const attendanceCorrections = pgTable("attendance_corrections", {
+  correctionId: varchar("correction_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  // 關聯到工作
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  // 關聯到打工者
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  // 要修正的打卡記錄（漏打卡時為空，核准後填入新建立的記錄）
+  recordId: varchar("record_id", { length: 21 })
+    .references(() => attendanceRecords.recordId, { onDelete: "set null" }),
+
+  // 工作日期與打卡類型
+  workDate: date("work_date").notNull(),
+  checkType: varchar("check_type", {
+    enum: ["check_in", "check_out"],
+  }).notNull(),
+
+  // 打工者主張的打卡時間與原因
+  claimedAt: timestamp("claimed_at").notNull(),
+  reason: text("reason").notNull(),
+
+  // 審核狀態：pending(待審核), approved(已核准), rejected(已駁回)
+  status: varchar("status", {
+    enum: ["pending", "approved", "rejected"],
+  }).default("pending").notNull(),
+
+  // 稽核紀錄：修正前與修正後的打卡資料
+  originalValues: json("original_values"),
+  correctedValues: json("corrected_values"),
+
+  // 商家審核備註
+  reviewNotes: text("review_notes"),
+  reviewedAt: timestamp("reviewed_at"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  index("attendance_corrections_gig_status_index").on(t.gigId, t.status),
+]);
+
+// ========== 14. 未到班記錄（No-Show Records） ==========
+// 已確認的打工者在班次上班打卡時段結束後仍未打卡，由排程任務建立
+export const noShowRecords = pgTable("no_show_records", {
+  noShowId: varchar("no_show_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  applicationId: varchar("application_id", { length: 21 })
+    .notNull()
+    .references(() => gigApplications.applicationId, { onDelete: "cascade" }),
+
+  // 未到班的班次日期
+  workDate: date("work_date").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => [
+  uniqueIndex("no_show_records_gig_worker_date_index").on(t.gigId, t.workerId, t.workDate),
+  index("no_show_records_worker_index").on(t.workerId),
+]);
+
+// ========== 15. 排程任務執行記錄（Cron Job Runs） ==========
+// pg_cron 與程式內排程共用，記錄每次維護任務的執行結果；pg_cron 只寫入 queued 記錄，由程式執行
+export const cronJobRuns = pgTable("cron_job_runs", {
+  runId: varchar("run_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  jobName: varchar("job_name", { length: 64 }).notNull(),
+
+  // 執行來源：pg_cron(資料庫排程), in_process(程式內排程), manual(管理員手動執行)
+  source: varchar("source", {
+    enum: ["pg_cron", "in_process", "manual"],
+  }).notNull(),
+
+  // 執行狀態：queued(等待執行), running(執行中), succeeded(成功), failed(失敗)
+  status: varchar("status", {
+    enum: ["queued", "running", "succeeded", "failed"],
+  }).default("running").notNull(),
+
+  // 執行結果（各步驟處理筆數）
+  result: json("result"),
+
+  errorMessage: text("error_message"),
+
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (t) => [
+  index("cron_job_runs_job_started_index").on(t.jobName, t.startedAt),
+]);
+
+// ========== 16. 申請狀態歷程（Application Status History） ==========
+// 由 ApplicationStateMachine 在每次狀態轉換時寫入
+export const applicationStatusHistory = pgTable("application_status_history", {
+  historyId: varchar("history_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  applicationId: varchar("application_id", { length: 21 })
+    .notNull()
+    .references(() => gigApplications.applicationId, { onDelete: "cascade" }),
+
+  // 轉換前狀態（建立申請時為 null）
+  fromStatus: varchar("from_status", { length: 32 }),
+
+  toStatus: varchar("to_status", { length: 32 }).notNull(),
+
+  // 觸發者：worker(打工者), employer(商家), system(系統)
+  actorType: varchar("actor_type", {
+    enum: ["worker", "employer", "system"],
+  }).notNull(),
+
+  // 觸發者 ID（系統觸發時為 null）
+  actorId: varchar("actor_id", { length: 21 }),
+
+  reason: text("reason"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("application_status_history_application_index").on(t.applicationId, t.createdAt),
+]);
+
+// ========== 17. 確認後取消記錄（Application Cancellations） ==========
+// 打工者在確認工作後取消時建立，記錄原因與是否違反取消政策
+export const applicationCancellations = pgTable("application_cancellations", {
+  cancellationId: varchar("cancellation_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  applicationId: varchar("application_id", { length: 21 })
+    .notNull()
+    .unique()
+    .references(() => gigApplications.applicationId, { onDelete: "cascade" }),
+
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  reason: text("reason").notNull(),
+
+  // 取消時距離第一個班次開始的分鐘數（已開始則為負數）
+  minutesBeforeShift: integer("minutes_before_shift").notNull(),
+
+  // 是否為臨時取消（在免費取消期限之後）
+  isLate: boolean("is_late").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("application_cancellations_worker_index").on(t.workerId),
+]);
+
+// ========== 18. 工作邀請（Gig Invitations） ==========
+// 商家直接邀請打工者，打工者接受後建立已確認的申請
+export const gigInvitations = pgTable("gig_invitations", {
+  invitationId: varchar("invitation_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  employerId: varchar("employer_id", { length: 21 })
+    .notNull()
+    .references(() => employers.employerId, { onDelete: "cascade" }),
+
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  // 給打工者的邀請訊息
+  message: text("message"),
+
+  // 邀請狀態：pending(待回覆), accepted(已接受), declined(已拒絕), cancelled(商家撤回), expired(工作已結束)
+  status: varchar("status", {
+    enum: ["pending", "accepted", "declined", "cancelled", "expired"],
+  }).default("pending").notNull(),
+
+  // 接受邀請後建立的申請
+  applicationId: varchar("application_id", { length: 21 })
+    .references(() => gigApplications.applicationId, { onDelete: "set null" }),
+
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  index("gig_invitations_worker_status_index").on(t.workerId, t.status),
+  index("gig_invitations_gig_index").on(t.gigId),
+]);
+
+// ========== 19. 商家人才庫（Talent Pool） ==========
+// 商家收藏曾合作或評價過的打工者，可加上標籤與私人備註
+export const talentPoolEntries = pgTable("talent_pool_entries", {
+  entryId: varchar("entry_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  employerId: varchar("employer_id", { length: 21 })
+    .notNull()
+    .references(() => employers.employerId, { onDelete: "cascade" }),
+
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  // 商家自訂標籤
+  tags: json("tags").$type<string[]>().default([]).notNull(),
+
+  // 僅商家可見的私人備註
+  note: text("note"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  uniqueIndex("talent_pool_entries_employer_worker_unique").on(t.employerId, t.workerId),
+]);
+
+// ========== 20. 商家封鎖名單（Employer Blocks） ==========
+// 被封鎖的打工者無法申請或看到該商家的工作
+export const employerBlocks = pgTable("employer_blocks", {
+  blockId: varchar("block_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  employerId: varchar("employer_id", { length: 21 })
+    .notNull()
+    .references(() => employers.employerId, { onDelete: "cascade" }),
+
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  // 封鎖原因（供管理員處理爭議時查看）
+  reason: text("reason").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  uniqueIndex("employer_blocks_employer_worker_unique").on(t.employerId, t.workerId),
+  index("employer_blocks_worker_index").on(t.workerId),
+]);
+
+// ========== 21. 儲存的搜尋條件（Saved Searches） ==========
+// 打工者儲存的工作搜尋條件（與公開工作列表相同的篩選），有新工作符合時通知
+export const savedSearches = pgTable("saved_searches", {
+  searchId: varchar("search_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  workerId: varchar("worker_id", { length: 21 })
+    .notNull()
+    .references(() => workers.workerId, { onDelete: "cascade" }),
+
+  name: text("name").notNull(),
+
+  // 篩選條件（未設定的欄位不限制）
+  city: varchar("city", { length: 32 }),
+  district: varchar("district", { length: 32 }),
+  minRate: integer("min_rate"),
+  maxRate: integer("max_rate"),
+  dateStart: date("date_start"),
+  searchQuery: text("search_query"),
+
+  // 通知頻率：instant(即時通知), daily(每日摘要)
+  frequency: varchar("frequency", {
+    enum: ["instant", "daily"],
+  }).default("instant").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => [
+  index("saved_searches_worker_index").on(t.workerId),
+]);
+
+// ========== 22. 搜尋條件符合的工作（Saved Search Matches） ==========
+// 記錄已符合搜尋條件的工作，避免重複通知，並供每日摘要彙整
+export const savedSearchMatches = pgTable("saved_search_matches", {
+  matchId: varchar("match_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  searchId: varchar("search_id", { length: 21 })
+    .notNull()
+    .references(() => savedSearches.searchId, { onDelete: "cascade" }),
+
+  gigId: varchar("gig_id", { length: 21 })
+    .notNull()
+    .references(() => gigs.gigId, { onDelete: "cascade" }),
+
+  // 已通知打工者的時間（每日摘要尚未發送時為 null）
+  notifiedAt: timestamp("notified_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  uniqueIndex("saved_search_matches_search_gig_unique").on(t.searchId, t.gigId),
+  index("saved_search_matches_notified_index").on(t.notifiedAt),
+]);
+
+// ========== 23. 申請對話訊息（Application Messages） ==========
+// 每筆申請的打工者與商家之間的對話，附件存放於 S3 的 application-messages/{applicationId}/
+export const applicationMessages = pgTable("application_messages", {
+  messageId: varchar("message_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  applicationId: varchar("application_id", { length: 21 })
+    .notNull()
+    .references(() => gigApplications.applicationId, { onDelete: "cascade" }),
+
+  // 發送者：worker(打工者), employer(商家)
+  senderRole: varchar("sender_role", {
+    enum: ["worker", "employer"],
+  }).notNull(),
+
+  senderId: varchar("sender_id", { length: 21 }).notNull(),
+
+  // 只傳送附件時為 null
+  content: text("content"),
+
+  attachments: json("attachments").$type<{
+    originalName: string;
+    type: string;
+    r2Name: string;
+    size: number;
+  }[]>().default([]).notNull(),
+
+  // 對方讀取訊息的時間（未讀為 null）
+  readAt: timestamp("read_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("application_messages_application_index").on(t.applicationId, t.createdAt),
+]);
+
+// ========== 24. 通知偏好設定（Notification Preferences） ==========
+// 每位使用者一筆，沒有資料時使用 NotificationPreferences 的預設值
+export const notificationPreferences = pgTable("notification_preferences", {
+  // 與 notifications.receiverId 相同，可為打工者、商家或管理員
+  userId: varchar("user_id", { length: 21 }).primaryKey(),
+
+  // 各通知類型的管道設定：{ [type]: { inApp, push, email } }，未設定的類型使用預設值
+  channels: json("channels").$type<Record<string, { inApp?: boolean; push?: boolean; email?: boolean }>>().default({}).notNull(),
+
+  // 勿擾時段（台北時間 HH:mm，可跨午夜），期間的推播與郵件延後到時段結束後發送
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }),
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }),
+
+  // 商家：新申請不逐封寄送郵件，改為每日摘要
+  emailDigest: boolean("email_digest").default(false).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ========== 25. 延後發送的通知（Deferred Notifications） ==========
+// 勿擾時段內產生的推播與郵件，由排程在 deliverAfter 之後發送
+export const deferredNotifications = pgTable("deferred_notifications", {
+  deliveryId: varchar("delivery_id", { length: 21 })
+    .$defaultFn(() => nanoid())
+    .primaryKey(),
+
+  receiverId: varchar("receiver_id", { length: 21 }).notNull(),
+
+  receiverRole: varchar("receiver_role", {
+    enum: ["worker", "employer", "admin"],
+  }).notNull(),
+
+  channel: varchar("channel", {
+    enum: ["push", "email"],
+  }).notNull(),
+
+  title: varchar("title", { length: 256 }).notNull(),
+  message: text("message").notNull(),
+  type: varchar("type", { length: 128 }).notNull(),
+  resourceId: varchar("resource_id", { length: 21 }),
+
+  // 郵件管道的內容（推播為 null）
+  emailContent: json("email_content").$type<{ subject: string; html: string; text: string }>(),
+
+  deliverAfter: timestamp("deliver_after").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("deferred_notifications_deliver_after_index").on(t.deliverAfter),
+]);
+
 // ==============================================
 //               關聯定義 (Relations)
 // ==============================================
@@ -383,6 +929,14 @@ export const workersRelations = relations(workers, ({ many }) => ({
   workerRatings: many(workerRatings),
   employerRatings: many(employerRatings),
   attendanceRecords: many(attendanceRecords),
+  payrollRecords: many(payrollRecords),
+  attendanceCorrections: many(attendanceCorrections),
+  noShowRecords: many(noShowRecords),
+  applicationCancellations: many(applicationCancellations),
+  gigInvitations: many(gigInvitations),
+  talentPoolEntries: many(talentPoolEntries),
+  employerBlocks: many(employerBlocks),
+  savedSearches: many(savedSearches),
 }));
 
 // Employers
@@ -390,6 +944,9 @@ export const employersRelations = relations(employers, ({ many }) => ({
   gigs: many(gigs),
   workerRatings: many(workerRatings),
   employerRatings: many(employerRatings),
+  gigInvitations: many(gigInvitations),
+  talentPoolEntries: many(talentPoolEntries),
+  employerBlocks: many(employerBlocks),
 }));
 
 // Gigs
@@ -403,6 +960,14 @@ export const gigsRelations = relations(gigs, ({ one, many }) => ({
   employerRatings: many(employerRatings),
   attendanceCodes: many(attendanceCodes),
   attendanceRecords: many(attendanceRecords),
+  payrollRecords: many(payrollRecords),
+  gigShifts: many(gigShifts),
+  gigWaitlist: many(gigWaitlist),
+  attendanceCorrections: many(attendanceCorrections),
+  noShowRecords: many(noShowRecords),
+  applicationCancellations: many(applicationCancellations),
+  gigInvitations: many(gigInvitations),
+  savedSearchMatches: many(savedSearchMatches),
 }));
 
 // GigApplications
@@ -418,6 +983,10 @@ export const gigApplicationsRelations = relations(
       references: [gigs.gigId],
     }),
     attendanceRecords: many(attendanceRecords),
+    waitlistEntry: one(gigWaitlist),
+    statusHistory: many(applicationStatusHistory),
+    cancellation: one(applicationCancellations),
+    messages: many(applicationMessages),
   }),
 );
 
@@ -466,7 +1035,7 @@ export const attendanceCodesRelations = relations(attendanceCodes, ({ one, many
 }));
 
 // AttendanceRecords
-export const attendanceRecordsRelations = relations(attendanceRecords, ({ one }) => ({
+export const attendanceRecordsRelations = relations(attendanceRecords, ({ one, many }) => ({
   gig: one(gigs, {
     fields: [attendanceRecords.gigId],
     references: [gigs.gigId],
@@ -479,4 +1048,166 @@ export const attendanceRecordsRelations = relations(attendanceRecords, ({ one })
     fields: [attendanceRecords.attendanceCodeId],
     references: [attendanceCodes.codeId],
   }),
-}));
\ No newline at end of file
+  corrections: many(attendanceCorrections),
+}));
+
+// PayrollRecords
+export const payrollRecordsRelations = relations(payrollRecords, ({ one }) => ({
+  gig: one(gigs, {
+    fields: [payrollRecords.gigId],
+    references: [gigs.gigId],
+  }),
+  worker: one(workers, {
+    fields: [payrollRecords.workerId],
+    references: [workers.workerId],
+  }),
+}));
+
+// GigShifts
+export const gigShiftsRelations = relations(gigShifts, ({ one }) => ({
+  gig: one(gigs, {
+    fields: [gigShifts.gigId],
+    references: [gigs.gigId],
+  }),
+}));
+
+// GigWaitlist
+export const gigWaitlistRelations = relations(gigWaitlist, ({ one }) => ({
+  gig: one(gigs, {
+    fields: [gigWaitlist.gigId],
+    references: [gigs.gigId],
+  }),
+  application: one(gigApplications, {
+    fields: [gigWaitlist.applicationId],
+    references: [gigApplications.applicationId],
+  }),
+}));
+
+// AttendanceCorrections
+export const attendanceCorrectionsRelations = relations(attendanceCorrections, ({ one }) => ({
+  gig: one(gigs, {
+    fields: [attendanceCorrections.gigId],
+    references: [gigs.gigId],
+  }),
+  worker: one(workers, {
+    fields: [attendanceCorrections.workerId],
+    references: [workers.workerId],
+  }),
+  record: one(attendanceRecords, {
+    fields: [attendanceCorrections.recordId],
+    references: [attendanceRecords.recordId],
+  }),
+}));
+
+// NoShowRecords
+export const noShowRecordsRelations = relations(noShowRecords, ({ one }) => ({
+  gig: one(gigs, {
+    fields: [noShowRecords.gigId],
+    references: [gigs.gigId],
+  }),
+  worker: one(workers, {
+    fields: [noShowRecords.workerId],
+    references: [workers.workerId],
+  }),
+  application: one(gigApplications, {
+    fields: [noShowRecords.applicationId],
+    references: [gigApplications.applicationId],
+  }),
+}));
+
+// ApplicationStatusHistory
+export const applicationStatusHistoryRelations = relations(applicationStatusHistory, ({ one }) => ({
+  application: one(gigApplications, {
+    fields: [applicationStatusHistory.applicationId],
+    references: [gigApplications.applicationId],
+  }),
+}));
+
+// ApplicationCancellations
+export const applicationCancellationsRelations = relations(applicationCancellations, ({ one }) => ({
+  application: one(gigApplications, {
+    fields: [applicationCancellations.applicationId],
+    references: [gigApplications.applicationId],
+  }),
+  gig: one(gigs, {
+    fields: [applicationCancellations.gigId],
+    references: [gigs.gigId],
+  }),
+  worker: one(workers, {
+    fields: [applicationCancellations.workerId],
+    references: [workers.workerId],
+  }),
+}));
+
+// GigInvitations
+export const gigInvitationsRelations = relations(gigInvitations, ({ one }) => ({
+  gig: one(gigs, {
+    fields: [gigInvitations.gigId],
+    references: [gigs.gigId],
+  }),
+  employer: one(employers, {
+    fields: [gigInvitations.employerId],
+    references: [employers.employerId],
+  }),
+  worker: one(workers, {
+    fields: [gigInvitations.workerId],
+    references: [workers.workerId],
+  }),
+  application: one(gigApplications, {
+    fields: [gigInvitations.applicationId],
+    references: [gigApplications.applicationId],
+  }),
+}));
+
+// TalentPoolEntries
+export const talentPoolEntriesRelations = relations(talentPoolEntries, ({ one }) => ({
+  employer: one(employers, {
+    fields: [talentPoolEntries.employerId],
+    references: [employers.employerId],
+  }),
+  worker: one(workers, {
+    fields: [talentPoolEntries.workerId],
+    references: [workers.workerId],
+  }),
+}));
+
+// EmployerBlocks
+export const employerBlocksRelations = relations(employerBlocks, ({ one }) => ({
+  employer: one(employers, {
+    fields: [employerBlocks.employerId],
+    references: [employers.employerId],
+  }),
+  worker: one(workers, {
+    fields: [employerBlocks.workerId],
+    references: [workers.workerId],
+  }),
+}));
+
+// SavedSearches
+export const savedSearchesRelations = relations(savedSearches, ({ one, many }) => ({
+  worker: one(workers, {
+    fields: [savedSearches.workerId],
+    references: [workers.workerId],
+  }),
+  matches: many(savedSearchMatches),
+}));
+
+// SavedSearchMatches
+export const savedSearchMatchesRelations = relations(savedSearchMatches, ({ one }) => ({
+  search: one(savedSearches, {
+    fields: [savedSearchMatches.searchId],
+    references: [savedSearches.searchId],
+  }),
+  gig: one(gigs, {
+    fields: [savedSearchMatches.gigId],
+    references: [gigs.gigId],
+  }),
+}));
+
+// ApplicationMessages
+export const applicationMessagesRelations = relations(applicationMessages, ({ one }) => ({
+  application: one(gigApplications, {
+    fields: [applicationMessages.applicationId],
+    references: [gigApplications.applicationId],
+  }),
+}));
@@ -3,6 +3,18 @@ import { isValidCity, isValidDistrict } from "../Utils/AreaData";
 import { DateUtils } from "../Utils/DateUtils";
 import { Role } from "./types";
 
+// 打工者可登錄的證照（工作資格條件同樣使用此清單）
+const certificateSchema = z.enum(["普通小型車", "職業小型車", "普通大貨車", "職業大貨車",
+  "普通大客車", "職業大客車", "普通聯結車", "職業聯結車",
+  "小型輕型機車", "普通輕型機車", "普通重型機車", "大型重型機車"
+]);
+
+const languageSchema = z.string().trim().min(1, "語言不能為空").max(20, "語言名稱過長");
+
+const birthDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式不正確 (應為 YYYY-MM-DD)")
+  .refine((date) => date <= DateUtils.getCurrentDate(), "出生日期不能晚於今天");
+
 export const loginSchema = z.object({
   email: z.email("Invalid email format"),
   password: z.string(),
@@ -28,13 +40,10 @@ export const workerSignupSchema = z.object({
   schoolName: z.string().optional(),
   major: z.string().optional(),
   studyStatus: z.enum(["就讀中", "已畢業", "肄業"]),
-  certificates: z.array(z
-    .enum(["普通小型車", "職業小型車", "普通大貨車", "職業大貨車",
-      "普通大客車", "職業大客車", "普通聯結車", "職業聯結車",
-      "小型輕型機車", "普通輕型機車", "普通重型機車", "大型重型機車"
-    ])
-  ).optional(),
+  certificates: z.array(certificateSchema).optional(),
   jobExperience: z.array(z.string()).optional(),
+  birthDate: birthDateSchema.optional(),
+  languages: z.array(languageSchema).max(10, "最多 10 種語言").optional(),
 });
 
 export const employerSignupSchema = z.object({
@@ -69,13 +78,10 @@ export const updateWorkerProfileSchema = z.object({
   schoolName: z.string().optional(),
   major: z.string().optional(),
   studyStatus: z.enum(["就讀中", "已畢業", "肄業"]).optional(),
-  certificates: z.array(z
-    .enum(["普通小型車", "職業小型車", "普通大貨車", "職業大貨車",
-      "普通大客車", "職業大客車", "普通聯結車", "職業聯結車",
-      "小型輕型機車", "普通輕型機車", "普通重型機車", "大型重型機車"
-    ])
-  ).optional(),
+  certificates: z.array(certificateSchema).optional(),
   jobExperience: z.array(z.string()).optional(),
+  birthDate: birthDateSchema.nullable().optional(),
+  languages: z.array(languageSchema).max(10, "最多 10 種語言").optional(),
 });
 
 export const updateEmployerProfileSchema = z.object({
@@ -122,11 +128,131 @@ export const passwordResetVerifySchema = z.object({
 });
 
 /* gig route schemas */
+// 工作資格條件：mandatory 為 true 時，不符合的打工者無法申請
+const qualificationMandatorySchema = z.boolean().default(false);
+
+const gigQualificationSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("certificate"),
+    certificate: certificateSchema,
+    mandatory: qualificationMandatorySchema,
+  }),
+  z.object({
+    kind: z.literal("education"),
+    minimum: z.enum(["高中", "大學", "碩士", "博士"], { message: "最低學歷必須為高中、大學、碩士或博士" }),
+    mandatory: qualificationMandatorySchema,
+  }),
+  z.object({
+    kind: z.literal("student_status"),
+    allowed: z.array(z.enum(["就讀中", "已畢業", "肄業"])).min(1, "至少需要一種就學狀態"),
+    mandatory: qualificationMandatorySchema,
+  }),
+  z.object({
+    kind: z.literal("language"),
+    language: languageSchema,
+    mandatory: qualificationMandatorySchema,
+  }),
+  z.object({
+    kind: z.literal("age"),
+    min: z.number().int().min(15, "最低年齡不能小於 15 歲").max(100).optional(),
+    max: z.number().int().min(15).max(100, "最高年齡不能大於 100 歲").optional(),
+    mandatory: qualificationMandatorySchema,
+  }).refine((data) => {
+    return data.min !== undefined || data.max !== undefined;
+  }, {
+    message: "年齡條件至少需要提供最低或最高年齡",
+  }).refine((data) => {
+    return data.min === undefined || data.max === undefined || data.min <= data.max;
+  }, {
+    message: "最低年齡不能大於最高年齡",
+    path: ["min"]
+  }),
+], { message: "資格條件類型必須為 certificate、education、student_status、language 或 age" });
+
 const requirementsObjectSchema = z.object({
   skills: z.array(z.string()).min(1, "技能至少需要 1 筆"),
   experience: z.string().min(1, "經驗不能為空"),
+  qualifications: z.array(gigQualificationSchema).max(20, "資格條件最多 20 筆").default([]),
+}).refine((data) => {
+  // 學歷與年齡條件各只能設定一筆
+  const singleKinds = data.qualifications.filter(q => q.kind === "education" || q.kind === "age").map(q => q.kind);
+  return new Set(singleKinds).size === singleKinds.length;
+}, {
+  message: "學歷與年齡條件各只能設定一筆",
+  path: ["qualifications"]
 });
 
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式不正確 (應為 YYYY-MM-DD)");
+
+const timeStringSchema = z.string().transform((val) => {
+  if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(val)) {
+    return val.padStart(5, '0');
+  }
+  const timeMatch = val.match(/(\d{1,2}):(\d{2})/);
+  if (timeMatch) {
+    const hour = timeMatch[1].padStart(2, '0');
+    const minute = timeMatch[2];
+    return `${hour}:${minute}`;
+  }
+  throw new Error("時間格式不正確 (應為 HH:MM)");
+});
+
+// 座標與定位打卡半徑
+const latitudeSchema = z.coerce.number().min(-90, "緯度格式不正確").max(90, "緯度格式不正確");
+const longitudeSchema = z.coerce.number().min(-180, "經度格式不正確").max(180, "經度格式不正確");
+const geofenceRadiusSchema = z.coerce.number().int("打卡半徑必須是整數").min(50, "打卡半徑至少為 50 公尺").max(2000, "打卡半徑不能超過 2000 公尺");
+
+// 取消政策：第一個班次開始前幾小時內取消視為臨時取消
+const freeCancellationHoursSchema = z.coerce.number().int("免費取消期限必須是整數").min(0, "免費取消期限不能為負數").max(168, "免費取消期限不能超過 168 小時");
+
+// 單一班次
+const gigShiftSchema = z.object({
+  workDate: dateStringSchema,
+  timeStart: timeStringSchema,
+  timeEnd: timeStringSchema,
+  headcount: z.coerce.number().int("人數必須是整數").min(1, "班次人數至少為 1").max(1000, "班次人數過多").optional(),
+}).refine((shift) => {
+  // 結束時間早於開始時間視為跨夜班次
+  return shift.timeEnd !== shift.timeStart;
+}, {
+  message: "班次結束時間不能與開始時間相同",
+  path: ["timeEnd"]
+});
+
+// 班次列表（表單中以 JSON 字串傳入）
+const gigShiftsSchema = z.preprocess((val) => {
+  if (typeof val === "string") {
+    try {
+      return JSON.parse(val);
+    } catch {
+      return val;
+    }
+  }
+  return val;
+}, z.array(gigShiftSchema).min(1, "至少需要 1 個班次").max(366, "班次數量過多"))
+  .refine((shifts) => {
+    const today = DateUtils.getCurrentDate();
+    return shifts.every(shift => shift.workDate >= today);
+  }, {
+    message: "班次日期不能是過去的日期",
+  })
+  .refine((shifts) => {
+    // 打卡與薪資以工作日期為單位，同一天只能有一個班次
+    const dates = shifts.map(shift => shift.workDate);
+    return new Set(dates).size === dates.length;
+  }, {
+    message: "同一天只能安排一個班次",
+  })
+  .refine((shifts) => {
+    // 跨夜班次不可與隔天的班次重疊
+    const ranges = [...shifts]
+      .sort((a, b) => a.workDate.localeCompare(b.workDate))
+      .map(shift => DateUtils.getShiftRange(shift.workDate, shift.timeStart, shift.timeEnd));
+    return ranges.every((range, index) => index === 0 || !ranges[index - 1].end.isAfter(range.start));
+  }, {
+    message: "跨夜班次與隔天的班次時段重疊",
+  });
+
 export const createGigSchema = z.object({
   title: z.string().min(1, "工作標題不能為空").max(256, "工作標題過長"),
   description: z.string().min(1, "工作描述不能為空").max(10000, "工作描述過長"),
@@ -135,13 +261,13 @@ export const createGigSchema = z.object({
     return date >= today;
   }, {
     message: "工作開始日期不能是過去的日期"
-  }),
+  }).optional(),
   dateEnd: z.coerce.date().refine((date) => {
     const today = DateUtils.getCurrentDateObject();
     return date >= today;
   }, {
     message: "工作結束日期不能是過去的日期"
-  }),
+  }).optional(),
   timeStart: z.string().transform((val) => {
     if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(val)) {
       return val;
@@ -153,7 +279,7 @@ export const createGigSchema = z.object({
       return `${hour}:${minute}`;
     }
     throw new Error("時間格式不正確 (應為 HH:MM)");
-  }),
+  }).optional(),
   timeEnd: z.string().transform((val) => {
     if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(val)) {
       return val;
@@ -165,7 +291,8 @@ export const createGigSchema = z.object({
       return `${hour}:${minute}`;
     }
     throw new Error("時間格式不正確 (應為 HH:MM)");
-  }),
+  }).optional(),
+  shifts: gigShiftsSchema.optional(),
   requirements: z.preprocess((val) => {
     if (typeof val === "string") {
       try {
@@ -177,19 +304,40 @@ export const createGigSchema = z.object({
     return val;
   }, requirementsObjectSchema),
   hourlyRate: z.coerce.number().min(1, "時薪必須大於 0").max(10000, "時薪過高"),
+  headcount: z.coerce.number().int("需求人數必須是整數").min(1, "需求人數至少為 1").max(1000, "需求人數過多"),
   city: z.string().min(1, "城市不能為空").max(32, "城市名稱過長"),
   district: z.string().min(1, "地區不能為空").max(32, "地區名稱過長"),
   address: z.string().min(1, "地址不能為空").max(256, "地址過長"),
+  latitude: latitudeSchema.optional(),
+  longitude: longitudeSchema.optional(),
+  geofenceRadius: geofenceRadiusSchema.optional(),
+  freeCancellationHours: freeCancellationHoursSchema.optional(),
   contactPerson: z.string().min(1, "聯絡人不能為空").max(32, "聯絡人姓名過長"),
   contactPhone: z.string().regex(/^(09\d{8}|\+8869\d{8}|0\d{1,2}-?\d{6,8})$/, "聯絡電話格式不正確").optional(),
   contactEmail: z.email("聯絡人 Email 格式不正確").max(128, "Email 過長").optional(),
 }).refine((data) => {
+  // 未提供班次列表時，必須提供日期範圍與每日時段
+  if (data.shifts) {
+    return true;
+  }
+  return !!(data.dateStart && data.dateEnd && data.timeStart && data.timeEnd);
+}, {
+  message: "必須提供班次列表，或工作日期與時間",
+  path: ["shifts"]
+}).refine((data) => {
+  // 班次列表與日期時間擇一提供
+  return !(data.shifts && (data.dateStart || data.dateEnd || data.timeStart || data.timeEnd));
+}, {
+  message: "提供班次列表時不可同時提供工作日期與時間",
+  path: ["shifts"]
+}).refine((data) => {
+  // 結束時間早於開始時間視為跨夜班次
   if (data.timeStart && data.timeEnd) {
-    return DateUtils.isTimeAfter(data.timeEnd, data.timeStart);
+    return data.timeEnd !== data.timeStart;
   }
   return true;
 }, {
-  message: "結束時間必須晚於開始時間",
+  message: "結束時間不能與開始時間相同",
   path: ["timeEnd"]
 }).refine((data) => {
   if (data.dateStart && data.dateEnd) {
@@ -199,6 +347,12 @@ export const createGigSchema = z.object({
 }, {
   message: "結束日期必須晚於或等於開始日期",
   path: ["dateEnd"]
+}).refine((data) => {
+  // 座標需同時提供
+  return (data.latitude === undefined) === (data.longitude === undefined);
+}, {
+  message: "緯度與經度必須同時提供",
+  path: ["latitude"]
 }).refine((data) => {
   // 驗證城市是否有效
   return isValidCity(data.city);
@@ -253,12 +407,18 @@ export const updateGigSchema = z.object({
     return val;
   }, requirementsObjectSchema).optional(),
   hourlyRate: z.coerce.number().min(1, "時薪必須大於 0").max(10000, "時薪過高").optional(),
+  headcount: z.coerce.number().int("需求人數必須是整數").min(1, "需求人數至少為 1").max(1000, "需求人數過多").optional(),
   city: z.string().min(1, "城市不能為空").max(32, "城市名稱過長").optional(),
   district: z.string().min(1, "地區不能為空").max(32, "地區名稱過長").optional(),
   address: z.string().min(1, "地址不能為空").max(256, "地址過長").optional(),
+  latitude: latitudeSchema.optional(),
+  longitude: longitudeSchema.optional(),
+  geofenceRadius: geofenceRadiusSchema.optional(),
+  freeCancellationHours: freeCancellationHoursSchema.optional(),
   contactPerson: z.string().min(1, "聯絡人不能為空").max(32, "聯絡人姓名過長").optional(),
   contactPhone: z.string().regex(/^(09\d{8}|\+8869\d{8}|0\d{1,2}-?\d{6,8})$/, "聯絡電話格式不正確").optional(),
   contactEmail: z.email("聯絡人 Email 格式不正確").max(128, "Email 過長").optional(),
+  shifts: gigShiftsSchema.optional(),
   deletedPhotoFiles: z.string().optional(),
 })
   // 1. 成對驗證
@@ -278,6 +438,12 @@ export const updateGigSchema = z.object({
   }, {
     message: "工作開始時間和結束時間必須同時提供",
     path: ["timeStart", "timeEnd"]
+  }).refine((data) => {
+    // 班次列表與日期時間擇一提供
+    return !(data.shifts && (data.dateStart || data.dateEnd || data.timeStart || data.timeEnd));
+  }, {
+    message: "提供班次列表時不可同時提供工作日期與時間",
+    path: ["shifts"]
   }).refine((data) => {
     // 城市和區域必須成對出現
     const hasCity = data.city !== undefined;
@@ -286,6 +452,14 @@ export const updateGigSchema = z.object({
   }, {
     message: "城市和區域必須同時提供",
     path: ["city", "district"]
+  }).refine((data) => {
+    // 座標必須成對出現
+    const hasLatitude = data.latitude !== undefined;
+    const hasLongitude = data.longitude !== undefined;
+    return hasLatitude === hasLongitude;
+  }, {
+    message: "緯度與經度必須同時提供",
+    path: ["latitude", "longitude"]
   })
   // 2. 有效性驗證
   .refine((data) => {
@@ -309,13 +483,13 @@ export const updateGigSchema = z.object({
   })
   // 3. 邏輯驗證
   .refine((data) => {
-    // 時間關係
+    // 時間關係：結束時間早於開始時間視為跨夜班次
     if (data.timeStart && data.timeEnd) {
-      return DateUtils.isTimeAfter(data.timeEnd, data.timeStart);
+      return data.timeEnd !== data.timeStart;
     }
     return true;
   }, {
-    message: "結束時間必須晚於開始時間",
+    message: "結束時間不能與開始時間相同",
     path: ["timeEnd"]
   }).refine((data) => {
     // 日期關係
@@ -328,6 +502,18 @@ export const updateGigSchema = z.object({
     path: ["dateEnd"]
   });
 
+// 設定工作打卡位置（未提供座標時以工作地址轉換）
+export const updateGigLocationSchema = z.object({
+  latitude: latitudeSchema.optional(),
+  longitude: longitudeSchema.optional(),
+  geofenceRadius: geofenceRadiusSchema.optional(),
+}).refine((data) => {
+  return (data.latitude === undefined) === (data.longitude === undefined);
+}, {
+  message: "緯度與經度必須同時提供",
+  path: ["latitude", "longitude"]
+});
+
 /* application route schemas */
 // 企業審核申請
 export const reviewApplicationSchema = z.object({
@@ -343,6 +529,104 @@ export const workerConfirmApplicationSchema = z.object({
   }),
 });
 
+// 打工者確認工作後取消
+export const withdrawApplicationSchema = z.object({
+  reason: z.string().trim().min(1, "請填寫取消原因").max(500, "取消原因不能超過 500 字"),
+});
+
+/* application message route schemas */
+// 附件由 uploadMessageAttachments 處理，只傳送附件時 content 可省略
+export const sendApplicationMessageSchema = z.object({
+  content: z.string().trim().max(2000, "訊息內容不能超過 2000 字").optional(),
+});
+
+/* invitation route schemas */
+export const createInvitationSchema = z.object({
+  gigId: z.string().length(21, "工作 ID 格式不正確"),
+  workerId: z.string().length(21, "打工者 ID 格式不正確"),
+  message: z.string().trim().max(500, "邀請訊息不能超過 500 字").optional(),
+});
+
+export const respondInvitationSchema = z.object({
+  action: z.enum(["accept", "decline"], {
+    message: "必須選擇接受（accept）或拒絕（decline）",
+  }),
+});
+
+/* talent pool route schemas */
+const talentPoolTagsSchema = z.array(
+  z.string().trim().min(1, "標籤不能為空").max(20, "標籤不能超過 20 字")
+).max(10, "最多 10 個標籤");
+
+const talentPoolNoteSchema = z.string().trim().max(1000, "備註不能超過 1000 字");
+
+export const addTalentPoolSchema = z.object({
+  workerId: z.string().length(21, "打工者 ID 格式不正確"),
+  tags: talentPoolTagsSchema.optional(),
+  note: talentPoolNoteSchema.optional(),
+});
+
+export const updateTalentPoolSchema = z.object({
+  tags: talentPoolTagsSchema.optional(),
+  note: talentPoolNoteSchema.nullable().optional(),
+}).refine((data) => data.tags !== undefined || data.note !== undefined, {
+  message: "至少需要提供一個要更新的欄位",
+});
+
+// 批次邀請人才庫打工者（未指定 workerIds 時邀請整個人才庫）
+export const inviteTalentPoolSchema = z.object({
+  gigId: z.string().length(21, "工作 ID 格式不正確"),
+  workerIds: z.array(z.string().length(21, "打工者 ID 格式不正確")).min(1).max(100, "一次最多邀請 100 位打工者"),
+  message: z.string().trim().max(500, "邀請訊息不能超過 500 字").optional(),
+});
+
+/* block list route schemas */
+export const blockWorkerSchema = z.object({
+  workerId: z.string().length(21, "打工者 ID 格式不正確"),
+  reason: z.string().trim().min(1, "請填寫封鎖原因").max(500, "封鎖原因不能超過 500 字"),
+});
+
+/* saved search route schemas */
+// 篩選條件與公開工作列表（GET /gig/public）相同
+export const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "請填寫搜尋名稱").max(50, "搜尋名稱不能超過 50 字"),
+  city: z.string().min(1, "城市不能為空").max(32, "城市名稱過長").optional(),
+  district: z.string().min(1, "地區不能為空").max(32, "地區名稱過長").optional(),
+  minRate: z.number().int().min(1, "時薪必須大於 0").max(10000, "時薪過高").optional(),
+  maxRate: z.number().int().min(1, "時薪必須大於 0").max(10000, "時薪過高").optional(),
+  dateStart: dateStringSchema.optional(),
+  searchQuery: z.string().trim().min(1, "關鍵字不能為空").max(100, "關鍵字不能超過 100 字").optional(),
+  frequency: z.enum(["instant", "daily"], {
+    message: "通知頻率必須為即時（instant）或每日摘要（daily）",
+  }).default("instant"),
+}).refine((data) => {
+  return !data.district || data.city !== undefined;
+}, {
+  message: "提供區域時必須同時提供城市",
+  path: ["city"]
+}).refine((data) => {
+  return !data.city || isValidCity(data.city);
+}, {
+  message: "請選擇有效的城市",
+  path: ["city"]
+}).refine((data) => {
+  return !data.city || !data.district || isValidDistrict(data.city, data.district);
+}, {
+  message: "所選區域不屬於指定城市",
+  path: ["district"]
+}).refine((data) => {
+  return data.minRate === undefined || data.maxRate === undefined || data.minRate <= data.maxRate;
+}, {
+  message: "最低時薪不能高於最高時薪",
+  path: ["minRate"]
+});
+
+export const updateSavedSearchFrequencySchema = z.object({
+  frequency: z.enum(["instant", "daily"], {
+    message: "通知頻率必須為即時（instant）或每日摘要（daily）",
+  }),
+});
+
 /* rating route schemas */
 export const createRatingSchema = z.object({
   ratingValue: z.number().int().min(1).max(5, "評分必須在1到5之間"),
@@ -359,7 +643,7 @@ export const adminRegisterSchema = z.object({
 });
 
 /* notification route schemas */
-const notificationTypeEnum = z.enum(["application", "rating", "account", "system"]);
+const notificationTypeEnum = z.enum(["application", "application_message", "rating", "account", "attendance", "system", "gig_alert"]);
 
 export const createNotificationSchema = z.object({
   receiverId: z.string().min(1, "接收者ID不能為空"),
@@ -398,17 +682,56 @@ export const createGroupNotificationSchema = z.object({
   sendPush: z.boolean().default(false),
 });
 
+const quietHoursTimeSchema = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, "時間格式必須為 HH:mm");
+
+const notificationChannelSettingsSchema = z.object({
+  inApp: z.boolean(),
+  push: z.boolean(),
+  email: z.boolean(),
+}).partial();
+
+export const updateNotificationPreferencesSchema = z.object({
+  channels: z.partialRecord(notificationTypeEnum, notificationChannelSettingsSchema).optional(),
+  // 台北時間，結束早於開始表示跨午夜；null 表示取消勿擾時段
+  quietHours: z.object({
+    start: quietHoursTimeSchema,
+    end: quietHoursTimeSchema,
+  }).refine(data => data.start !== data.end, {
+    message: "勿擾時段的開始與結束時間不能相同",
+  }).nullable().optional(),
+  // 商家：新申請改以每日摘要郵件寄送
+  emailDigest: z.boolean().optional(),
+}).refine(data => data.channels !== undefined || data.quietHours !== undefined || data.emailDigest !== undefined, {
+  message: "請提供要更新的通知設定",
+});
+
 /* attendance system schemas */
 
-// 打工者打卡
+// 打工者打卡（打卡碼或裝置定位擇一）
 export const attendanceCheckSchema = z.object({
   gigId: z.string().min(1, "工作ID不能為空"),
   attendanceCode: z.string()
     .length(4, "打卡碼必須是4位數字")
-    .regex(/^\d{4}$/, "打卡碼只能包含數字"),
+    .regex(/^\d{4}$/, "打卡碼只能包含數字")
+    .optional(),
+  rotatingCode: z.string()
+    .regex(/^\d{6}$/, "動態打卡碼必須是6位數字")
+    .optional(),
+  latitude: latitudeSchema.optional(),
+  longitude: longitudeSchema.optional(),
   checkType: z.enum(["check_in", "check_out"], {
     message: "打卡類型必須是check_in或check_out",
   }),
+}).refine((data) => {
+  return (data.latitude === undefined) === (data.longitude === undefined);
+}, {
+  message: "緯度與經度必須同時提供",
+  path: ["latitude", "longitude"]
+}).refine((data) => {
+  return data.attendanceCode !== undefined || data.rotatingCode !== undefined || data.latitude !== undefined;
+}, {
+  message: "必須提供打卡碼、動態打卡碼或裝置定位",
+  path: ["attendanceCode"]
 });
 
 // 查詢打卡記錄
@@ -430,6 +753,76 @@ export const updateAttendanceRecordSchema = z.object({
   notes: z.string().min(1, "備註不能為空").max(500, "備註不能超過500字"),
 });
 
+// 雇主審核超出範圍的定位打卡
+export const reviewAttendanceRecordSchema = z.object({
+  action: z.enum(["approve", "reject"], {
+    message: "審核動作必須是approve或reject",
+  }),
+  notes: z.string().max(500, "備註不能超過500字").optional(),
+});
+
+// 打工者提出打卡補登申請
+export const createAttendanceCorrectionSchema = z.object({
+  gigId: z.string().min(1, "工作ID不能為空"),
+  workDate: dateStringSchema,
+  checkType: z.enum(["check_in", "check_out"], {
+    message: "打卡類型必須是check_in或check_out",
+  }),
+  claimedAt: z.coerce.date({ message: "打卡時間格式不正確" }),
+  reason: z.string().min(1, "原因不能為空").max(500, "原因不能超過500字"),
+}).refine((data) => {
+  return data.workDate <= DateUtils.getCurrentDate();
+}, {
+  message: "不能為未來的日期申請補登",
+  path: ["workDate"]
+});
+
+// 雇主審核打卡補登申請
+export const reviewAttendanceCorrectionSchema = z.object({
+  action: z.enum(["approve", "reject"], {
+    message: "審核動作必須是approve或reject",
+  }),
+  reviewNotes: z.string().max(500, "備註不能超過500字").optional(),
+});
+
+/* payroll route schemas */
+// 查詢薪資結算
+export const payrollQuerySchema = z.object({
+  dateStart: dateStringSchema.optional(),
+  dateEnd: dateStringSchema.optional(),
+  status: z.enum(["pending", "approved"]).optional(),
+  limit: z.coerce.number().int("每頁筆數必須是整數").min(1, "每頁筆數至少為 1").max(100, "每頁筆數不能超過 100").default(20),
+  offset: z.coerce.number().int("偏移量必須是整數").min(0, "偏移量不能為負數").default(0),
+}).refine((data) => {
+  if (data.dateStart && data.dateEnd) {
+    return data.dateEnd >= data.dateStart;
+  }
+  return true;
+}, {
+  message: "結束日期不能早於開始日期",
+  path: ["dateEnd"]
+});
+
+// 商家查詢期間薪資彙總
+export const payrollSummaryQuerySchema = z.object({
+  dateStart: dateStringSchema,
+  dateEnd: dateStringSchema,
+}).refine((data) => data.dateEnd >= data.dateStart, {
+  message: "結束日期不能早於開始日期",
+  path: ["dateEnd"]
+});
+
+// 商家調整薪資金額
+export const adjustPayrollSchema = z.object({
+  amount: z.number().int("金額必須是整數").min(0, "金額不能為負數").max(1000000, "金額過高"),
+  reason: z.string().min(1, "調整原因不能為空").max(500, "調整原因不能超過500字"),
+});
+
+// 商家批次核准薪資
+export const approvePayrollSchema = z.object({
+  payrollIds: z.array(z.string().min(1)).min(1, "至少需要一筆薪資記錄"),
+});
+
 /* FCM token schemas */
 export const registerFCMTokenSchema = z.object({
   token: z.string().min(1, "FCM token 不能為空"),
@@ -446,4 +839,8 @@ export const sendTestPushSchema = z.object({
   title: z.string().min(1, "標題不能為空").max(256, "標題過長"),
   message: z.string().min(1, "訊息不能為空"),
   data: z.record(z.string(), z.string()).optional(),
-});
\ No newline at end of file
+});
+// 管理員重送失敗的推播與郵件任務，未指定 jobIds 時重送全部
+export const replayDeliveryJobsSchema = z.object({
+  jobIds: z.array(z.string().min(1)).min(1, "至少需要一個任務").optional(),
+});
@@ -1,15 +1,51 @@
 import dbClient from "../Client/DrizzleClient";
-import { gigApplications, gigs } from "../Schema/DatabaseSchema";
-import { eq, and, lte, gte, lt, gt, ne, inArray } from "drizzle-orm";
-import { DateUtils } from "./DateUtils";
+import { gigApplications, gigs, gigShifts } from "../Schema/DatabaseSchema";
+import { eq, and, ne, inArray, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+type DbExecutor = Pick<typeof dbClient, "select" | "selectDistinct">;
+
+// 目標工作的班次（與打工者其他工作的班次比對）
+const targetShifts = alias(gigShifts, "target_shifts");
+
+type ShiftTable = typeof gigShifts | typeof targetShifts;
 
 export class ApplicationConflictChecker {
+  /**
+   * 班次實際開始時間 (日期 + 時間)
+   */
+  private static shiftStart(shift: ShiftTable) {
+    return sql`(${shift.workDate} + ${shift.timeStart}::time)`;
+  }
+
+  /**
+   * 班次實際結束時間，結束時間不晚於開始時間視為跨夜，落在隔天
+   */
+  private static shiftEnd(shift: ShiftTable) {
+    return sql`(${shift.workDate} + ${shift.timeEnd}::time + CASE WHEN ${shift.timeEnd}::time <= ${shift.timeStart}::time THEN INTERVAL '1 day' ELSE INTERVAL '0' END)`;
+  }
+
+  /**
+   * 兩個班次的實際時段重疊（含跨夜班次）
+   * 只比對前後一天內的班次，跨夜班次最多延伸到隔天
+   */
+  private static shiftOverlapCondition(gigId: string | string[]) {
+    return and(
+      Array.isArray(gigId) ? inArray(targetShifts.gigId, gigId) : eq(targetShifts.gigId, gigId),
+      sql`${targetShifts.workDate} BETWEEN ${gigShifts.workDate} - 1 AND ${gigShifts.workDate} + 1`,
+      sql`${this.shiftStart(gigShifts)} < ${this.shiftEnd(targetShifts)}`,
+      sql`${this.shiftEnd(gigShifts)} > ${this.shiftStart(targetShifts)}`
+    );
+  }
+
   /**
    * 檢查打工者在指定時間是否有已確認的工作（衝突檢查）
+   * 以雙方實際排定的班次比對，而非整段日期範圍
    */
   static async checkWorkerScheduleConflict(
     workerId: string,
-    gigId: string
+    gigId: string,
+    executor: DbExecutor = dbClient
   ): Promise<{
     hasConflict: boolean;
     conflictingGigs: Array<{
@@ -22,28 +58,8 @@ export class ApplicationConflictChecker {
     }>;
   }> {
     try {
-      const targetGig = await dbClient
-        .select({
-          gigId: gigs.gigId,
-          title: gigs.title,
-          dateStart: gigs.dateStart,
-          dateEnd: gigs.dateEnd,
-          timeStart: gigs.timeStart,
-          timeEnd: gigs.timeEnd,
-        })
-        .from(gigs)
-        .where(eq(gigs.gigId, gigId))
-        .limit(1)
-        .then((rows) => rows[0]);
-
-      if (!targetGig) {
-        return { hasConflict: false, conflictingGigs: [] };
-      }
-
-      const targetDateStart = DateUtils.formatDate(targetGig.dateStart);
-      const targetDateEnd = DateUtils.formatDate(targetGig.dateEnd);
-      const result = await dbClient
-        .select({
+      const conflictingGigs = await executor
+        .selectDistinct({
           gigId: gigs.gigId,
           title: gigs.title,
           dateStart: gigs.dateStart,
@@ -53,21 +69,17 @@ export class ApplicationConflictChecker {
         })
         .from(gigApplications)
         .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+        .innerJoin(gigShifts, eq(gigShifts.gigId, gigs.gigId))
+        .innerJoin(targetShifts, this.shiftOverlapCondition(gigId))
         .where(
           and(
             eq(gigApplications.workerId, workerId),
             eq(gigApplications.status, "worker_confirmed"),
             eq(gigs.isActive, true),
-            ne(gigs.gigId, gigId),
-            lte(gigs.dateStart, targetDateEnd),
-            gte(gigs.dateEnd, targetDateStart),
-            lt(gigs.timeStart, targetGig.timeEnd),
-            gt(gigs.timeEnd, targetGig.timeStart)
+            ne(gigs.gigId, gigId)
           )
         );
 
-      const conflictingGigs = result;
-
       return {
         hasConflict: conflictingGigs.length > 0,
         conflictingGigs,
@@ -78,6 +90,82 @@ export class ApplicationConflictChecker {
     }
   }
 
+  /**
+   * 批次檢查多個工作是否與打工者已確認的工作時間衝突
+   * 與 checkWorkerScheduleConflict 使用相同的班次比對規則
+   * @returns 會衝突的工作 ID
+   */
+  static async getConflictingGigIds(
+    workerId: string,
+    gigIds: string[]
+  ): Promise<Set<string>> {
+    if (gigIds.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const result = await dbClient
+        .selectDistinct({
+          gigId: targetShifts.gigId,
+        })
+        .from(gigApplications)
+        .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+        .innerJoin(gigShifts, eq(gigShifts.gigId, gigs.gigId))
+        .innerJoin(targetShifts, this.shiftOverlapCondition(gigIds))
+        .where(
+          and(
+            eq(gigApplications.workerId, workerId),
+            eq(gigApplications.status, "worker_confirmed"),
+            eq(gigs.isActive, true),
+            ne(gigs.gigId, targetShifts.gigId)
+          )
+        );
+
+      return new Set(result.map((row) => row.gigId));
+    } catch (error) {
+      console.error("批次檢查時間衝突時發生錯誤:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 批次檢查多位打工者已確認的工作是否與指定工作時間衝突
+   * 與 checkWorkerScheduleConflict 使用相同的班次比對規則
+   * @returns 有時間衝突的打工者 ID
+   */
+  static async getConflictingWorkerIds(
+    workerIds: string[],
+    gigId: string
+  ): Promise<Set<string>> {
+    if (workerIds.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const result = await dbClient
+        .selectDistinct({
+          workerId: gigApplications.workerId,
+        })
+        .from(gigApplications)
+        .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+        .innerJoin(gigShifts, eq(gigShifts.gigId, gigs.gigId))
+        .innerJoin(targetShifts, this.shiftOverlapCondition(gigId))
+        .where(
+          and(
+            inArray(gigApplications.workerId, workerIds),
+            eq(gigApplications.status, "worker_confirmed"),
+            eq(gigs.isActive, true),
+            ne(gigs.gigId, gigId)
+          )
+        );
+
+      return new Set(result.map((row) => row.workerId));
+    } catch (error) {
+      console.error("批次檢查時間衝突時發生錯誤:", error);
+      throw error;
+    }
+  }
+
   /**
    * 獲取所有與指定工作時間衝突的待回覆申請
    * 用於打工者確認工作時，自動取消其他衝突的申請
@@ -87,39 +175,18 @@ export class ApplicationConflictChecker {
     gigId: string
   ): Promise<string[]> {
     try {
-      const targetGig = await dbClient
-        .select({
-          dateStart: gigs.dateStart,
-          dateEnd: gigs.dateEnd,
-          timeStart: gigs.timeStart,
-          timeEnd: gigs.timeEnd,
-        })
-        .from(gigs)
-        .where(eq(gigs.gigId, gigId))
-        .limit(1)
-        .then((rows) => rows[0]);
-
-      if (!targetGig) {
-        return [];
-      }
-
-      const targetDateStart = DateUtils.formatDate(targetGig.dateStart);
-      const targetDateEnd = DateUtils.formatDate(targetGig.dateEnd);
       const result = await dbClient
-        .select({
+        .selectDistinct({
           applicationId: gigApplications.applicationId,
         })
         .from(gigApplications)
-        .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+        .innerJoin(gigShifts, eq(gigShifts.gigId, gigApplications.gigId))
+        .innerJoin(targetShifts, this.shiftOverlapCondition(gigId))
         .where(
           and(
             eq(gigApplications.workerId, workerId),
             inArray(gigApplications.status, ["pending_worker_confirmation", "pending_employer_review"]),
-            ne(gigs.gigId, gigId),
-            lte(gigs.dateStart, targetDateEnd),
-            gte(gigs.dateEnd, targetDateStart),
-            lt(gigs.timeStart, targetGig.timeEnd),
-            gt(gigs.timeEnd, targetGig.timeStart)
+            ne(gigApplications.gigId, gigId)
           )
         );
 
@@ -133,4 +200,3 @@ export class ApplicationConflictChecker {
   }
 
 }
-
@@ -0,0 +1,73 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, gigApplications, employers, notificationPreferences } from "../Schema/DatabaseSchema";
+import { eq, and, gte, sql } from "drizzle-orm";
+import NotificationHelper from "./NotificationHelper";
+import NotificationPreferences from "./NotificationPreferences";
+import { EmailTemplates } from "./EmailTemplates";
+import { DateUtils } from "./DateUtils";
+import { Role } from "../Types/types";
+
+export class ApplicationEmailDigest {
+  /**
+   * 發送商家的每日新申請摘要郵件
+   * 只寄給開啟每日摘要且開啟申請類郵件的商家，彙整過去 24 小時內各工作收到的申請數
+   * @returns 發送的摘要數量
+   */
+  static async sendDailyDigests(): Promise<number> {
+    const today = DateUtils.getCurrentDate();
+
+    const rows = await dbClient
+      .select({
+        employerId: employers.employerId,
+        employerName: employers.employerName,
+        gigTitle: gigs.title,
+        applicationCount: sql<number>`count(*)::int`,
+      })
+      .from(gigApplications)
+      .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+      .innerJoin(employers, eq(gigs.employerId, employers.employerId))
+      .innerJoin(notificationPreferences, eq(notificationPreferences.userId, employers.employerId))
+      .where(and(
+        eq(notificationPreferences.emailDigest, true),
+        gte(gigApplications.createdAt, sql`now() - interval '24 hours'`)
+      ))
+      .groupBy(employers.employerId, employers.employerName, gigs.gigId, gigs.title)
+      .orderBy(employers.employerId, gigs.title);
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const digests = new Map<string, { employerName: string; gigs: { gigTitle: string; applicationCount: number }[] }>();
+
+    for (const row of rows) {
+      const digest = digests.get(row.employerId) ?? { employerName: row.employerName, gigs: [] };
+      digest.gigs.push({ gigTitle: row.gigTitle, applicationCount: row.applicationCount });
+      digests.set(row.employerId, digest);
+    }
+
+    const preferences = await NotificationPreferences.getMany([...digests.keys()]);
+    let sent = 0;
+
+    for (const [employerId, digest] of digests) {
+      if (!preferences.get(employerId)?.channels.application.email) {
+        continue;
+      }
+
+      const success = await NotificationHelper.sendEmailNotification(
+        employerId,
+        Role.EMPLOYER,
+        EmailTemplates.generateEmployerApplicationDigestEmail(digest.employerName, digest.gigs),
+        `application_digest:${employerId}:${today}`,
+      );
+
+      if (success) {
+        sent += 1;
+      }
+    }
+
+    return sent;
+  }
+}
+
+export default ApplicationEmailDigest;
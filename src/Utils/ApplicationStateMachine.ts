@@ -0,0 +1,420 @@
+import dbClient from "../Client/DrizzleClient";
+import {
+  gigs,
+  gigApplications,
+  employers,
+  workers,
+  applicationStatusHistory,
+  applicationCancellations,
+} from "../Schema/DatabaseSchema";
+import { eq, and, inArray, asc, sql } from "drizzle-orm";
+import { ApplicationConflictChecker } from "./ApplicationConflictChecker";
+import WaitlistManager from "./WaitlistManager";
+import NotificationHelper from "./NotificationHelper";
+import RealtimeEvents from "./RealtimeEvents";
+import { Role } from "../Types/types";
+
+// 可在交易 (transaction) 內外共用的資料庫操作介面
+type DbExecutor = Pick<typeof dbClient, "select" | "insert" | "update" | "delete">;
+
+export type ApplicationStatus = typeof gigApplications.$inferSelect["status"];
+
+export type TransitionActor = "worker" | "employer" | "system";
+
+export interface TransitionContext {
+  actor: TransitionActor;
+  // 觸發者 ID（系統觸發時省略）
+  actorId?: string;
+  reason?: string;
+}
+
+export interface TransitionResult {
+  success: boolean;
+  // 轉換前的狀態（轉換失敗時即為目前狀態，申請不存在時為 null）
+  from: ApplicationStatus | null;
+  to: ApplicationStatus;
+  // 轉換失敗的原因
+  message?: string;
+}
+
+export class ApplicationStateMachine {
+  // 允許的狀態轉換與可觸發的角色：TRANSITIONS[目前狀態][目標狀態] = 可觸發的角色
+  static readonly TRANSITIONS: Record<ApplicationStatus, Partial<Record<ApplicationStatus, TransitionActor[]>>> = {
+    pending_employer_review: {
+      // 企業核准，或候補名單遞補
+      pending_worker_confirmation: ["employer", "system"],
+      employer_rejected: ["employer"],
+      worker_cancelled: ["worker"],
+      system_cancelled: ["system"],
+    },
+    pending_worker_confirmation: {
+      worker_confirmed: ["worker"],
+      worker_declined: ["worker"],
+      system_cancelled: ["system"],
+    },
+    worker_confirmed: {
+      // 確認後取消，須經由取消政策記錄原因與是否為臨時取消
+      worker_cancelled: ["worker"],
+    },
+    employer_rejected: {},
+    worker_declined: {},
+    worker_cancelled: {},
+    system_cancelled: {},
+  };
+
+  // 確認工作後，因時間衝突被系統取消的申請原因
+  static readonly CONFLICT_CANCEL_REASON = "與已確認的工作時間衝突";
+
+  /**
+   * 檢查指定角色是否可將申請從目前狀態轉換為目標狀態
+   */
+  static canTransition(from: ApplicationStatus, to: ApplicationStatus, actor: TransitionActor): boolean {
+    return this.TRANSITIONS[from]?.[to]?.includes(actor) ?? false;
+  }
+
+  /**
+   * 可由指定角色轉換為目標狀態的所有來源狀態
+   */
+  static getSourceStatuses(to: ApplicationStatus, actor: TransitionActor): ApplicationStatus[] {
+    return (Object.keys(this.TRANSITIONS) as ApplicationStatus[])
+      .filter(from => this.canTransition(from, to, actor));
+  }
+
+  /**
+   * 寫入一筆狀態歷程
+   */
+  static async recordHistory(
+    executor: DbExecutor,
+    applicationId: string,
+    from: ApplicationStatus | null,
+    to: ApplicationStatus,
+    context: TransitionContext
+  ): Promise<void> {
+    await executor.insert(applicationStatusHistory).values({
+      applicationId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: context.actor,
+      actorId: context.actorId ?? null,
+      reason: context.reason ?? null,
+    });
+  }
+
+  /**
+   * 轉換單一申請的狀態並寫入歷程（不執行副作用）
+   * 以目前狀態作為更新條件，避免同時操作造成重複轉換
+   */
+  static async transition(
+    executor: DbExecutor,
+    applicationId: string,
+    to: ApplicationStatus,
+    context: TransitionContext
+  ): Promise<TransitionResult> {
+    const [application] = await executor
+      .select({ status: gigApplications.status })
+      .from(gigApplications)
+      .where(eq(gigApplications.applicationId, applicationId))
+      .limit(1);
+
+    if (!application) {
+      return { success: false, from: null, to, message: "申請記錄不存在" };
+    }
+
+    const from = application.status;
+
+    if (!this.canTransition(from, to, context.actor)) {
+      return { success: false, from, to, message: "目前的申請狀態無法執行此操作" };
+    }
+
+    const updated = await executor
+      .update(gigApplications)
+      .set({
+        status: to,
+        updatedAt: sql`now()`,
+      })
+      .where(and(
+        eq(gigApplications.applicationId, applicationId),
+        eq(gigApplications.status, from)
+      ))
+      .returning({ applicationId: gigApplications.applicationId });
+
+    if (updated.length === 0) {
+      return { success: false, from, to, message: "申請狀態已被更新，請重新整理後再試" };
+    }
+
+    await this.recordHistory(executor, applicationId, from, to, context);
+
+    return { success: true, from, to };
+  }
+
+  /**
+   * 批次轉換多筆申請的狀態並寫入歷程（不執行副作用）
+   * 目前狀態不允許轉換的申請會被略過
+   * @returns 實際完成轉換的申請與其原狀態
+   */
+  static async transitionMany(
+    executor: DbExecutor,
+    applicationIds: string[],
+    to: ApplicationStatus,
+    context: TransitionContext
+  ): Promise<Array<{ applicationId: string; from: ApplicationStatus }>> {
+    const sourceStatuses = this.getSourceStatuses(to, context.actor);
+
+    if (applicationIds.length === 0 || sourceStatuses.length === 0) {
+      return [];
+    }
+
+    const candidates = await executor
+      .select({ applicationId: gigApplications.applicationId, status: gigApplications.status })
+      .from(gigApplications)
+      .where(and(
+        inArray(gigApplications.applicationId, applicationIds),
+        inArray(gigApplications.status, sourceStatuses)
+      ));
+
+    const transitioned: Array<{ applicationId: string; from: ApplicationStatus }> = [];
+
+    for (const from of sourceStatuses) {
+      const ids = candidates.filter(candidate => candidate.status === from).map(candidate => candidate.applicationId);
+
+      if (ids.length === 0) {
+        continue;
+      }
+
+      const updated = await executor
+        .update(gigApplications)
+        .set({
+          status: to,
+          updatedAt: sql`now()`,
+        })
+        .where(and(
+          inArray(gigApplications.applicationId, ids),
+          eq(gigApplications.status, from)
+        ))
+        .returning({ applicationId: gigApplications.applicationId });
+
+      transitioned.push(...updated.map(row => ({ applicationId: row.applicationId, from })));
+    }
+
+    if (transitioned.length > 0) {
+      await executor.insert(applicationStatusHistory).values(
+        transitioned.map(row => ({
+          applicationId: row.applicationId,
+          fromStatus: row.from,
+          toStatus: to,
+          actorType: context.actor,
+          actorId: context.actorId ?? null,
+          reason: context.reason ?? null,
+        }))
+      );
+    }
+
+    return transitioned;
+  }
+
+  /**
+   * 轉換狀態並執行對應的副作用（通知、候補遞補、衝突取消）
+   */
+  static async apply(
+    applicationId: string,
+    to: ApplicationStatus,
+    context: TransitionContext
+  ): Promise<TransitionResult> {
+    const result = await dbClient.transaction(tx => this.transition(tx, applicationId, to, context));
+
+    if (result.success) {
+      await this.runSideEffects(applicationId, result.from, to, context);
+    }
+
+    return result;
+  }
+
+  /**
+   * 執行狀態轉換後的副作用，須在交易提交後呼叫
+   */
+  static async runSideEffects(
+    applicationId: string,
+    from: ApplicationStatus,
+    to: ApplicationStatus,
+    context: TransitionContext
+  ): Promise<void> {
+    const [application] = await dbClient
+      .select({
+        applicationId: gigApplications.applicationId,
+        gigId: gigApplications.gigId,
+        workerId: gigApplications.workerId,
+        gigTitle: gigs.title,
+        employerId: gigs.employerId,
+        employerName: employers.employerName,
+        workerFirstName: workers.firstName,
+        workerLastName: workers.lastName,
+      })
+      .from(gigApplications)
+      .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+      .innerJoin(employers, eq(gigs.employerId, employers.employerId))
+      .innerJoin(workers, eq(gigApplications.workerId, workers.workerId))
+      .where(eq(gigApplications.applicationId, applicationId))
+      .limit(1);
+
+    if (!application) {
+      return;
+    }
+
+    await RealtimeEvents.publish([application.workerId, application.employerId], "application_status", {
+      applicationId,
+      gigId: application.gigId,
+      gigTitle: application.gigTitle,
+      from,
+      to,
+      actor: context.actor,
+    });
+
+    const workerName = `${application.workerFirstName} ${application.workerLastName}`;
+
+    switch (to) {
+      case "pending_worker_confirmation":
+        if (context.actor === "system") {
+          await NotificationHelper.notifyWaitlistPromoted(
+            application.workerId,
+            Role.WORKER,
+            application.gigTitle,
+            application.employerName,
+            application.gigId,
+          );
+        } else {
+          await NotificationHelper.notifyWorkerPendingConfirmation(
+            application.workerId,
+            Role.WORKER,
+            application.gigTitle,
+            application.employerName,
+            application.gigId,
+          );
+        }
+        break;
+
+      case "employer_rejected":
+        await WaitlistManager.removeFromWaitlist(dbClient, applicationId);
+        await NotificationHelper.notifyApplicationRejected(
+          application.workerId,
+          Role.WORKER,
+          application.gigTitle,
+          application.employerName,
+          application.gigId,
+        );
+        break;
+
+      case "worker_cancelled": {
+        await WaitlistManager.removeFromWaitlist(dbClient, applicationId);
+        const promoted = await WaitlistManager.promoteNext(application.gigId);
+
+        // 確認後取消：通知企業名額是否已由候補遞補
+        if (from === "worker_confirmed") {
+          const cancellation = await dbClient.query.applicationCancellations.findFirst({
+            where: eq(applicationCancellations.applicationId, applicationId),
+            columns: { isLate: true },
+          });
+
+          await NotificationHelper.notifyEmployerWorkerWithdrew(
+            application.employerId,
+            Role.EMPLOYER,
+            workerName,
+            application.gigTitle,
+            cancellation?.isLate ?? false,
+            promoted.length > 0,
+            application.gigId,
+          );
+        }
+        break;
+      }
+
+      case "worker_confirmed":
+        await NotificationHelper.notifyEmployerWorkerConfirmed(
+          application.employerId,
+          Role.EMPLOYER,
+          workerName,
+          application.gigTitle,
+          application.gigId,
+        );
+        await this.cancelConflictingApplications(application.workerId, application.gigId);
+        break;
+
+      case "worker_declined":
+        await NotificationHelper.notifyEmployerWorkerDeclined(
+          application.employerId,
+          Role.EMPLOYER,
+          workerName,
+          application.gigTitle,
+          application.gigId,
+        );
+        await WaitlistManager.promoteNext(application.gigId);
+        break;
+
+      case "system_cancelled":
+        await WaitlistManager.removeFromWaitlist(dbClient, applicationId);
+        await NotificationHelper.notifyWorkerSystemCancelled(
+          application.workerId,
+          Role.WORKER,
+          application.gigTitle,
+          context.reason ?? "系統取消",
+          applicationId,
+        );
+
+        // 已發出邀請的申請被取消時，名額釋出並通知企業
+        if (from === "pending_worker_confirmation") {
+          await NotificationHelper.notifyEmployerApplicationSystemCancelled(
+            application.employerId,
+            Role.EMPLOYER,
+            workerName,
+            application.gigTitle,
+            context.reason ?? "系統取消",
+            application.gigId,
+          );
+          await WaitlistManager.promoteNext(application.gigId);
+        }
+        break;
+    }
+  }
+
+  /**
+   * 打工者確認工作後，系統取消其他時間衝突且尚未完成的申請
+   */
+  static async cancelConflictingApplications(workerId: string, gigId: string): Promise<string[]> {
+    const conflictingIds = await ApplicationConflictChecker.getConflictingPendingApplications(workerId, gigId);
+
+    if (conflictingIds.length === 0) {
+      return [];
+    }
+
+    const context: TransitionContext = { actor: "system", reason: this.CONFLICT_CANCEL_REASON };
+    const cancelled = await dbClient.transaction(tx =>
+      this.transitionMany(tx, conflictingIds, "system_cancelled", context)
+    );
+
+    for (const { applicationId, from } of cancelled) {
+      await this.runSideEffects(applicationId, from, "system_cancelled", context);
+    }
+
+    return cancelled.map(row => row.applicationId);
+  }
+
+  /**
+   * 獲取申請的狀態歷程（依時間排序）
+   */
+  static async getHistory(applicationId: string) {
+    return dbClient
+      .select({
+        historyId: applicationStatusHistory.historyId,
+        fromStatus: applicationStatusHistory.fromStatus,
+        toStatus: applicationStatusHistory.toStatus,
+        actorType: applicationStatusHistory.actorType,
+        actorId: applicationStatusHistory.actorId,
+        reason: applicationStatusHistory.reason,
+        createdAt: applicationStatusHistory.createdAt,
+      })
+      .from(applicationStatusHistory)
+      .where(eq(applicationStatusHistory.applicationId, applicationId))
+      .orderBy(asc(applicationStatusHistory.createdAt));
+  }
+}
+
+export default ApplicationStateMachine;
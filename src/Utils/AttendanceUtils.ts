@@ -1,3 +1,6 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type moment from "moment";
+
 // ===== 打卡碼相關 =====
 
 /**
@@ -5,4 +8,72 @@
  */
 export function generateAttendanceCode(): string {
   return Math.floor(1000 + Math.random() * 9000).toString();
-}
\ No newline at end of file
+}
+
+/**
+ * 依班次時間判斷打卡狀態：上班晚於開始時間為遲到，下班早於結束時間為早退
+ */
+export function evaluateCheckStatus(
+  checkType: "check_in" | "check_out",
+  checkedAt: moment.Moment | Date,
+  shiftStart: moment.Moment,
+  shiftEnd: moment.Moment
+): "on_time" | "late" | "early" {
+  if (checkType === "check_in") {
+    return shiftStart.isBefore(checkedAt) ? "late" : "on_time";
+  }
+  return shiftEnd.isAfter(checkedAt) ? "early" : "on_time";
+}
+
+// ===== 動態打卡碼相關 =====
+
+// 動態打卡碼每 30 秒輪替一次
+export const ROTATING_CODE_PERIOD_SECONDS = 30;
+
+/**
+ * 生成工作專屬的動態打卡碼密鑰
+ */
+export function generateAttendanceSecret(): string {
+  return randomBytes(20).toString("hex");
+}
+
+/**
+ * 獲取指定時間所在的輪替區間編號
+ */
+export function getRotatingCodeWindow(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / ROTATING_CODE_PERIOD_SECONDS);
+}
+
+/**
+ * 依密鑰與輪替區間生成 6 位數字動態打卡碼（HOTP，RFC 4226）
+ */
+export function generateRotatingCode(secret: string, window: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(window));
+
+  const hmac = createHmac("sha1", Buffer.from(secret, "hex")).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 1_000_000).toString().padStart(6, "0");
+}
+
+/**
+ * 驗證動態打卡碼，只接受目前與前一個輪替區間的打卡碼
+ */
+export function verifyRotatingCode(secret: string, code: string, timestamp: number = Date.now()): boolean {
+  const currentWindow = getRotatingCodeWindow(timestamp);
+
+  return [currentWindow, currentWindow - 1].some(window => {
+    const expected = Buffer.from(generateRotatingCode(secret, window));
+    const received = Buffer.from(code);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  });
+}
+
+/**
+ * 產生 QR Code 內容，由打工者 App 掃描後帶入打卡請求
+ */
+export function buildAttendanceQrPayload(gigId: string, code: string): string {
+  return JSON.stringify({ type: "attendance", gigId, code });
+}
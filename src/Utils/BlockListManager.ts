@@ -0,0 +1,95 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, employerBlocks, gigInvitations, gigApplications } from "../Schema/DatabaseSchema";
+import { eq, and, inArray, sql } from "drizzle-orm";
+import ApplicationStateMachine, { type TransitionContext } from "./ApplicationStateMachine";
+
+export class BlockListManager {
+  // 封鎖時取消打工者申請所寫入的原因
+  static readonly BLOCK_CANCEL_REASON = "商家已關閉此申請";
+
+  /**
+   * 檢查打工者是否被商家封鎖
+   */
+  static async isBlocked(employerId: string, workerId: string): Promise<boolean> {
+    const block = await dbClient.query.employerBlocks.findFirst({
+      where: and(
+        eq(employerBlocks.employerId, employerId),
+        eq(employerBlocks.workerId, workerId)
+      ),
+      columns: { blockId: true },
+    });
+
+    return !!block;
+  }
+
+  /**
+   * 排除封鎖該打工者的商家所刊登的工作（用於工作列表查詢條件）
+   */
+  static excludeBlockedGigs(workerId: string) {
+    return sql`${gigs.employerId} NOT IN (SELECT ${employerBlocks.employerId} FROM ${employerBlocks} WHERE ${employerBlocks.workerId} = ${workerId})`;
+  }
+
+  /**
+   * 封鎖打工者，並撤回商家對該打工者尚未回覆的邀請、取消打工者在該商家尚未確認的申請（含候補）
+   * @returns 已封鎖過時回傳 null
+   */
+  static async block(employerId: string, workerId: string, reason: string) {
+    const context: TransitionContext = { actor: "system", reason: this.BLOCK_CANCEL_REASON };
+
+    const result = await dbClient.transaction(async (tx) => {
+      const [block] = await tx
+        .insert(employerBlocks)
+        .values({ employerId, workerId, reason })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!block) {
+        return null;
+      }
+
+      await tx
+        .update(gigInvitations)
+        .set({
+          status: "cancelled",
+          updatedAt: sql`now()`,
+        })
+        .where(and(
+          eq(gigInvitations.employerId, employerId),
+          eq(gigInvitations.workerId, workerId),
+          eq(gigInvitations.status, "pending")
+        ));
+
+      const openApplications = await tx
+        .select({ applicationId: gigApplications.applicationId })
+        .from(gigApplications)
+        .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+        .where(and(
+          eq(gigs.employerId, employerId),
+          eq(gigApplications.workerId, workerId),
+          inArray(gigApplications.status, ["pending_employer_review", "pending_worker_confirmation"])
+        ));
+
+      const cancelled = await ApplicationStateMachine.transitionMany(
+        tx,
+        openApplications.map(application => application.applicationId),
+        "system_cancelled",
+        context
+      );
+
+      return { block, cancelled };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    // 交易提交後移出候補名單、釋出名額並遞補
+    for (const { applicationId, from } of result.cancelled) {
+      await ApplicationStateMachine.runSideEffects(applicationId, from, "system_cancelled", context);
+    }
+
+    return result.block;
+  }
+}
+
+export default BlockListManager;
@@ -0,0 +1,48 @@
+import { GigShiftManager } from "./GigShiftManager";
+import { DateUtils } from "./DateUtils";
+
+export interface CancellationAssessment {
+  // 第一個班次的開始時間（台北時間）
+  firstShiftStart: string;
+  // 免費取消期限（第一個班次開始前幾小時）
+  freeCancellationHours: number;
+  // 距離第一個班次開始的分鐘數（已開始則為負數）
+  minutesBeforeShift: number;
+  // 是否為臨時取消
+  isLate: boolean;
+  // 所有班次皆已結束
+  hasEnded: boolean;
+}
+
+export class CancellationPolicy {
+  /**
+   * 評估打工者此時取消已確認的工作是否違反取消政策
+   * 在第一個班次開始前 freeCancellationHours 小時內（或開始後）取消視為臨時取消
+   * @returns 工作沒有任何班次時回傳 null
+   */
+  static async assess(gigId: string, freeCancellationHours: number): Promise<CancellationAssessment | null> {
+    const shifts = await GigShiftManager.getGigShifts(gigId);
+
+    if (shifts.length === 0) {
+      return null;
+    }
+
+    const now = DateUtils.getCurrentDateTime();
+    const firstShift = shifts[0];
+    const lastShift = shifts[shifts.length - 1];
+    const { start } = DateUtils.getShiftRange(firstShift.workDate, firstShift.timeStart, firstShift.timeEnd);
+    const { end } = DateUtils.getShiftRange(lastShift.workDate, lastShift.timeStart, lastShift.timeEnd);
+
+    const minutesBeforeShift = start.diff(now, "minutes");
+
+    return {
+      firstShiftStart: start.format("YYYY-MM-DD HH:mm"),
+      freeCancellationHours,
+      minutesBeforeShift,
+      isLate: minutesBeforeShift < freeCancellationHours * 60,
+      hasEnded: end.isBefore(now),
+    };
+  }
+}
+
+export default CancellationPolicy;
@@ -1,7 +1,50 @@
 import { drizzle } from "drizzle-orm/bun-sql";
 import { sql } from "drizzle-orm";
+import redisClient from "../Client/RedisClient";
+import NoShowDetector from "./NoShowDetector";
+import GigMaintenance from "./GigMaintenance";
+import SavedSearchManager from "./SavedSearchManager";
+import NotificationHelper from "./NotificationHelper";
+import ApplicationEmailDigest from "./ApplicationEmailDigest";
+import { DateUtils } from "./DateUtils";
+
+// 只刪除自己持有的鎖：任務執行超過 TTL 時，鎖可能已被其他實例取得
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
 
 export class CronManager {
+  // 未到班偵測的執行間隔（毫秒）
+  private static readonly NO_SHOW_INTERVAL_MS = 5 * 60 * 1000;
+
+  // pg_cron 不可用時，程式內排程每天執行清理的時間（台北時間）
+  private static readonly IN_PROCESS_CLEANUP_HOUR = 23;
+
+  // 儲存的搜尋條件每日摘要的發送時間（台北時間）
+  private static readonly SAVED_SEARCH_DIGEST_HOUR = 9;
+
+  // 商家新申請每日摘要郵件的發送時間（台北時間）
+  private static readonly APPLICATION_EMAIL_DIGEST_HOUR = 20;
+
+  // pg_cron 排入的清理的檢查間隔（毫秒）
+  private static readonly QUEUED_CLEANUP_INTERVAL_MS = 60 * 1000;
+
+  // 勿擾時段延後通知的檢查間隔（毫秒）
+  private static readonly DEFERRED_NOTIFICATION_INTERVAL_MS = 60 * 1000;
+
+  private static noShowTimer: ReturnType<typeof setInterval> | null = null;
+  private static deferredNotificationTimer: ReturnType<typeof setInterval> | null = null;
+  private static cleanupTimer: ReturnType<typeof setTimeout> | null = null;
+  private static queuedCleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private static digestTimer: ReturnType<typeof setTimeout> | null = null;
+  private static applicationDigestTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 目前使用的排程方式
+  private static schedulerMode: "pg_cron" | "in_process" | null = null;
+
   private static dbClient: ReturnType<typeof drizzle> = (() => {
     if (!process.env.DBURL) {
       throw new Error("DBURL environment variable is not set.");
@@ -57,42 +100,27 @@ export class CronManager {
 
   /**
    * 創建定期清理任務的 cron 任務
+   * 下架過期工作、系統取消過期工作的待處理申請與邀請、清除過期打卡碼
+   * 同名任務已存在時 cron.schedule 會更新其排程與指令
    */
   static async createAutoUnlistJob(): Promise<boolean> {
-    const jobName = "auto_cleanup_expired_gigs";
+    const jobName = GigMaintenance.CLEANUP_JOB_NAME;
 
     try {
-      // 檢查任務是否已存在
-      const exists = await CronManager.checkCronJobExists(jobName);
-      if (exists) {
-        return true;
-      }
-
       // Cron 表達式: 每天 15:00 UTC (等於台北時間 23:00)
       const schedule = "0 15 * * *";
 
-      // SQL 查詢
-      const command = `
-        DO $$
-        DECLARE
-          taipei_today DATE := (NOW() AT TIME ZONE 'Asia/Taipei')::DATE;
-        BEGIN
-          NULL;
-        END;
-        $$;
-      `;
-
       await CronManager.dbClient.execute(sql`
         SELECT cron.schedule(
           ${jobName},
           ${schedule},
-          ${command}
+          ${GigMaintenance.buildCleanupCommand()}
         );
       `);
 
       console.log(`✅ 已創建定期清理任務的 cron 任務: ${jobName}`);
       console.log(`📅 執行時間: 每天台北時間 23:00 (UTC 15:00)`);
-      console.log("🎯 功能: 定期清理和維護工作資料");
+      console.log("🎯 功能: 排入工作過期清理（下架過期工作、取消過期申請與邀請、清除過期打卡碼），由程式執行");
       return true;
     } catch (error) {
       console.error(`❌ 創建 cron 任務 ${jobName} 失敗:`, error);
@@ -160,6 +188,256 @@ export class CronManager {
 
     return true;
   }
+
+  /**
+   * 以 Redis 鎖確保多個實例中同一時間只有一個執行指定任務
+   * 取得鎖失敗（其他實例正在執行）時直接略過
+   */
+  static async runWithLock(jobName: string, ttlSeconds: number, task: () => Promise<void>): Promise<boolean> {
+    const lockKey = `cron_lock:${jobName}`;
+    const lockToken = crypto.randomUUID();
+
+    try {
+      const acquired = await redisClient.set(lockKey, lockToken, "EX", ttlSeconds, "NX");
+      if (!acquired) {
+        return false;
+      }
+    } catch (error) {
+      console.error(`取得任務 ${jobName} 的執行鎖時出錯:`, error);
+      return false;
+    }
+
+    try {
+      await task();
+      return true;
+    } catch (error) {
+      console.error(`執行任務 ${jobName} 時出錯:`, error);
+      return false;
+    } finally {
+      await redisClient.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockToken).catch(() => {});
+    }
+  }
+
+  /**
+   * 啟動未到班偵測：每 5 分鐘檢查一次上班打卡時段已結束的班次
+   */
+  static startNoShowDetection(): void {
+    if (CronManager.noShowTimer) {
+      return;
+    }
+
+    const run = () =>
+      CronManager.runWithLock("no_show_detection", 240, async () => {
+        const created = await NoShowDetector.detectNoShows();
+        if (created > 0) {
+          console.log(`🚫 已記錄 ${created} 筆未到班`);
+        }
+      });
+
+    CronManager.noShowTimer = setInterval(run, CronManager.NO_SHOW_INTERVAL_MS);
+    run();
+
+    console.log("✅ 未到班偵測已啟動（每 5 分鐘）");
+  }
+
+  /**
+   * 計算距離下一次台北時間指定整點的毫秒數
+   */
+  private static getDelayUntilNextRun(hour: number): number {
+    const now = DateUtils.getCurrentDateTime();
+    const nextRun = now.clone().hour(hour).minute(0).second(0).millisecond(0);
+
+    if (!nextRun.isAfter(now)) {
+      nextRun.add(1, "day");
+    }
+
+    return nextRun.diff(now);
+  }
+
+  /**
+   * 計算距離上一次台北時間指定整點的毫秒數
+   */
+  private static getElapsedSinceLastRun(hour: number): number {
+    const now = DateUtils.getCurrentDateTime();
+    const lastRun = now.clone().hour(hour).minute(0).second(0).millisecond(0);
+
+    if (lastRun.isAfter(now)) {
+      lastRun.subtract(1, "day");
+    }
+
+    return now.diff(lastRun);
+  }
+
+  /**
+   * 程式內排程：pg_cron 不可用時，每天台北時間 23:00 執行工作過期清理
+   * 啟動時若上一次排程時間之後尚未執行過，先補上停機期間錯過的清理
+   */
+  static startInProcessCleanup(): void {
+    if (CronManager.cleanupTimer) {
+      return;
+    }
+
+    const run = (catchUp = false) =>
+      CronManager.runWithLock(GigMaintenance.CLEANUP_JOB_NAME, 600, async () => {
+        const elapsed = CronManager.getElapsedSinceLastRun(CronManager.IN_PROCESS_CLEANUP_HOUR);
+
+        if (catchUp && await GigMaintenance.hasCleanupRunSince(elapsed)) {
+          return;
+        }
+
+        const result = await GigMaintenance.runExpiredGigCleanup("in_process");
+        console.log("🧹 工作過期清理完成:", result);
+      });
+
+    const scheduleNext = () => {
+      CronManager.cleanupTimer = setTimeout(async () => {
+        await run();
+        scheduleNext();
+      }, CronManager.getDelayUntilNextRun(CronManager.IN_PROCESS_CLEANUP_HOUR));
+    };
+
+    run(true);
+    scheduleNext();
+
+    console.log(`✅ 程式內排程已啟動：每天台北時間 ${CronManager.IN_PROCESS_CLEANUP_HOUR}:00 執行工作過期清理`);
+  }
+
+  /**
+   * pg_cron 模式：每分鐘執行 pg_cron 排入的工作過期清理
+   * 停機期間排入的清理會在啟動後執行
+   */
+  static startQueuedCleanupProcessing(): void {
+    if (CronManager.queuedCleanupTimer) {
+      return;
+    }
+
+    const run = () =>
+      CronManager.runWithLock(GigMaintenance.CLEANUP_JOB_NAME, 600, async () => {
+        const executed = await GigMaintenance.runQueuedCleanups();
+        if (executed > 0) {
+          console.log(`🧹 已執行 ${executed} 次 pg_cron 排入的工作過期清理`);
+        }
+      });
+
+    CronManager.queuedCleanupTimer = setInterval(run, CronManager.QUEUED_CLEANUP_INTERVAL_MS);
+    run();
+
+    console.log("✅ pg_cron 排入的工作過期清理處理已啟動（每分鐘）");
+  }
+
+  /**
+   * 每天台北時間 9:00 發送儲存的搜尋條件每日摘要
+   * 摘要需要發送推播，因此不論是否使用 pg_cron 都由程式內排程執行
+   */
+  static startSavedSearchDigest(): void {
+    if (CronManager.digestTimer) {
+      return;
+    }
+
+    const run = () =>
+      CronManager.runWithLock("saved_search_digest", 600, async () => {
+        const sent = await SavedSearchManager.sendDailyDigests();
+        if (sent > 0) {
+          console.log(`🔔 已發送 ${sent} 則搜尋條件每日摘要`);
+        }
+      });
+
+    const scheduleNext = () => {
+      CronManager.digestTimer = setTimeout(async () => {
+        await run();
+        scheduleNext();
+      }, CronManager.getDelayUntilNextRun(CronManager.SAVED_SEARCH_DIGEST_HOUR));
+    };
+
+    scheduleNext();
+
+    console.log(`✅ 搜尋條件每日摘要已啟動：每天台北時間 ${CronManager.SAVED_SEARCH_DIGEST_HOUR}:00 發送`);
+  }
+
+  /**
+   * 每天台北時間 20:00 寄送商家的新申請每日摘要郵件
+   */
+  static startApplicationEmailDigest(): void {
+    if (CronManager.applicationDigestTimer) {
+      return;
+    }
+
+    const run = () =>
+      CronManager.runWithLock("application_email_digest", 600, async () => {
+        const sent = await ApplicationEmailDigest.sendDailyDigests();
+        if (sent > 0) {
+          console.log(`📧 已寄送 ${sent} 封新申請每日摘要郵件`);
+        }
+      });
+
+    const scheduleNext = () => {
+      CronManager.applicationDigestTimer = setTimeout(async () => {
+        await run();
+        scheduleNext();
+      }, CronManager.getDelayUntilNextRun(CronManager.APPLICATION_EMAIL_DIGEST_HOUR));
+    };
+
+    scheduleNext();
+
+    console.log(`✅ 新申請每日摘要郵件已啟動：每天台北時間 ${CronManager.APPLICATION_EMAIL_DIGEST_HOUR}:00 寄送`);
+  }
+
+  /**
+   * 每分鐘發送勿擾時段已結束的延後推播與郵件
+   */
+  static startDeferredNotificationDelivery(): void {
+    if (CronManager.deferredNotificationTimer) {
+      return;
+    }
+
+    const run = () =>
+      CronManager.runWithLock("deferred_notification_delivery", 50, async () => {
+        const delivered = await NotificationHelper.deliverDeferred();
+        if (delivered > 0) {
+          console.log(`🔕 已發送 ${delivered} 則勿擾時段延後的通知`);
+        }
+      });
+
+    CronManager.deferredNotificationTimer = setInterval(run, CronManager.DEFERRED_NOTIFICATION_INTERVAL_MS);
+    run();
+
+    console.log("✅ 勿擾時段延後通知發送已啟動（每分鐘）");
+  }
+
+  /**
+   * 初始化排程：優先使用 pg_cron，無法使用時改用程式內排程
+   */
+  static async initializeScheduler(): Promise<void> {
+    let pgCronReady = false;
+
+    try {
+      pgCronReady = await CronManager.initializeCronJobs();
+    } catch (error) {
+      console.error("❌ Cron 任務初始化過程中發生錯誤:", error);
+    }
+
+    if (pgCronReady) {
+      CronManager.schedulerMode = "pg_cron";
+      console.log("✅ Cron 任務初始化完成");
+      CronManager.startQueuedCleanupProcessing();
+    } else {
+      CronManager.schedulerMode = "in_process";
+      console.warn("⚠️ pg_cron 無法使用，改用程式內排程");
+      CronManager.startInProcessCleanup();
+    }
+
+    CronManager.startNoShowDetection();
+    CronManager.startSavedSearchDigest();
+    CronManager.startApplicationEmailDigest();
+    CronManager.startDeferredNotificationDelivery();
+  }
+
+  /**
+   * 獲取目前使用的排程方式
+   */
+  static getSchedulerMode(): "pg_cron" | "in_process" | null {
+    return CronManager.schedulerMode;
+  }
 }
 
 export default CronManager;
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { sql, type SQL, type AnyColumn } from "drizzle-orm";
+
+export type CursorValue = string | number;
+
+// 排序鍵（欄位或運算式的值不可為 NULL）
+export interface CursorSortKey {
+  expression: SQL | AnyColumn;
+  direction: "asc" | "desc";
+  // 游標中值的型別，解析時據此驗證：date 為 YYYY-MM-DD，timestamp 為 ISO 時間字串
+  type: "string" | "number" | "date" | "timestamp";
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  hasMore: boolean;
+  // 最後一頁時為 null
+  nextCursor: string | null;
+}
+
+/**
+ * 以排序鍵 + ID 的 keyset 分頁
+ * 游標為最後一筆資料排序鍵值的 base64url 編碼，對前端而言是不透明字串
+ * 排序鍵依賴查詢當下的參數（例如今天的日期）時，以 scope 記錄該參數，參數改變後游標即失效
+ */
+export class CursorPagination {
+  /**
+   * timestamp 欄位在資料庫為微秒精度，游標中的 Date 只有毫秒
+   * 以毫秒截斷後的值排序，避免同一毫秒內的資料被跳過
+   */
+  static timestamp(column: AnyColumn): SQL {
+    return sql`date_trunc('milliseconds', ${column})`;
+  }
+
+  static encode(values: (CursorValue | Date | null)[], scope?: string): string {
+    const normalized = values.map(value => value instanceof Date ? value.toISOString() : value);
+    const payload = scope === undefined ? normalized : { scope, values: normalized };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+  }
+
+  /**
+   * 檢查游標中的值是否符合排序鍵的型別，避免竄改的游標造成 SQL 錯誤
+   */
+  private static isValidValue(value: unknown, type: CursorSortKey["type"]): value is CursorValue {
+    switch (type) {
+      case "number":
+        return typeof value === "number" && Number.isFinite(value);
+      case "date":
+        return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+      case "timestamp":
+        return typeof value === "string" && !Number.isNaN(Date.parse(value));
+      default:
+        return typeof value === "string";
+    }
+  }
+
+  /**
+   * 解析游標
+   * @param scope 產生游標時的查詢參數，與游標中記錄的不同時視為無效
+   * @returns 排序鍵的值；游標格式不正確、值的型別或數量與排序鍵不符時回傳 null
+   */
+  static decode(cursor: string, keys: CursorSortKey[], scope?: string): CursorValue[] | null {
+    try {
+      const payload: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      let values: unknown = payload;
+
+      if (scope !== undefined) {
+        if (typeof payload !== "object" || payload === null || (payload as { scope?: unknown }).scope !== scope) {
+          return null;
+        }
+
+        values = (payload as { values?: unknown }).values;
+      }
+
+      if (
+        !Array.isArray(values) ||
+        values.length !== keys.length ||
+        !values.every((value, index) => this.isValidValue(value, keys[index].type))
+      ) {
+        return null;
+      }
+
+      return values;
+    } catch {
+      return null;
+    }
+  }
+
+  static orderBy(keys: CursorSortKey[]): SQL[] {
+    return keys.map(key => key.direction === "asc" ? sql`${key.expression} ASC` : sql`${key.expression} DESC`);
+  }
+
+  /**
+   * 游標之後的資料條件：(k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...（遞減排序時為 <）
+   */
+  static after(keys: CursorSortKey[], values: CursorValue[]): SQL {
+    const branches = keys.map((key, index) => {
+      const equals = keys.slice(0, index).map((previous, i) => sql`${previous.expression} = ${values[i]}`);
+      const comparison = key.direction === "asc"
+        ? sql`${key.expression} > ${values[index]}`
+        : sql`${key.expression} < ${values[index]}`;
+
+      return sql`(${sql.join([...equals, comparison], sql` AND `)})`;
+    });
+
+    return sql`(${sql.join(branches, sql` OR `)})`;
+  }
+
+  /**
+   * 查詢時多取一筆（limit + 1）來判斷是否有下一頁，並以本頁最後一筆產生下一頁游標
+   */
+  static paginate<T>(
+    rows: T[],
+    limit: number,
+    getValues: (row: T) => (CursorValue | Date | null)[],
+    scope?: string,
+  ): CursorPage<T> {
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      hasMore,
+      nextCursor: hasMore && last !== undefined ? this.encode(getValues(last), scope) : null,
+    };
+  }
+}
+
+export default CursorPagination;
@@ -72,6 +72,32 @@ export class DateUtils {
     return t1.isAfter(t2);
   }
 
+  /**
+   * 判斷時段是否跨越午夜 (例如 22:00–06:00)
+   * @param timeStart - 開始時間 (HH:mm)
+   * @param timeEnd - 結束時間 (HH:mm)
+   */
+  static isOvernight(timeStart: string, timeEnd: string): boolean {
+    return !DateUtils.isTimeAfter(timeEnd, timeStart);
+  }
+
+  /**
+   * 獲取班次實際的開始與結束時間 (台北時區)，跨夜班次的結束時間落在隔天
+   * @param workDate - 班次日期 (上班當天，YYYY-MM-DD)
+   * @param timeStart - 開始時間 (HH:mm)
+   * @param timeEnd - 結束時間 (HH:mm)
+   */
+  static getShiftRange(workDate: string, timeStart: string, timeEnd: string): { start: moment.Moment; end: moment.Moment } {
+    const start = DateUtils.createDateTime(workDate, timeStart);
+    const end = DateUtils.createDateTime(workDate, timeEnd);
+
+    if (DateUtils.isOvernight(timeStart, timeEnd)) {
+      end.add(1, "days");
+    }
+
+    return { start, end };
+  }
+
   /**
    * 在指定日期基礎上添加或減去天數
    * @param date - 基準日期
@@ -83,6 +109,25 @@ export class DateUtils {
     return d.format("YYYY-MM-DD");
   }
 
+  /**
+   * 列出兩個日期之間（含頭尾）的所有日期
+   * @param dateStart - 開始日期
+   * @param dateEnd - 結束日期
+   * @returns YYYY-MM-DD 格式的日期陣列
+   */
+  static getDatesBetween(dateStart: string | Date | moment.Moment, dateEnd: string | Date | moment.Moment): string[] {
+    const dates: string[] = [];
+    const current = moment(DateUtils.formatDate(dateStart));
+    const end = moment(DateUtils.formatDate(dateEnd));
+
+    while (!current.isAfter(end, "day")) {
+      dates.push(current.format("YYYY-MM-DD"));
+      current.add(1, "days");
+    }
+
+    return dates;
+  }
+
   /**
    * 獲取台北時區今天的 Date 物件 (用於日期比較驗證)
    * @returns 台北時區今天的 Date 物件，時間設為 00:00:00:000
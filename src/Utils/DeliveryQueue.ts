@@ -0,0 +1,351 @@
+import { nanoid } from "nanoid";
+import redisClient from "../Client/RedisClient";
+import FCMClient from "../Client/FCMClient";
+import { sendEmail } from "../Client/EmailClient";
+
+export type DeliveryJobPayload =
+  | { kind: "push"; tokens: string[]; title: string; body: string; data?: Record<string, string> }
+  | { kind: "email"; to: string; subject: string; html: string; text?: string };
+
+export interface DeliveryJob {
+  jobId: string;
+  payload: DeliveryJobPayload;
+  idempotencyKey: string | null;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  createdAt: string;
+  failedAt: string | null;
+}
+
+// 管理員查看用的任務資料：不含郵件內文與推播內容（郵件可能含有驗證碼）
+export interface DeliveryJobSummary extends Omit<DeliveryJob, "payload"> {
+  payload:
+    | { kind: "push"; tokenCount: number; title: string; type: string | null }
+    | { kind: "email"; to: string; subject: string };
+}
+
+export interface DeliveryQueueStats {
+  ready: number;
+  delayed: number;
+  processing: number;
+  dead: number;
+}
+
+// 將到期的任務從有序集合移回待處理佇列；以 Lua 執行，多個實例同時執行時不會重複移動
+const PROMOTE_DUE_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for _, jobId in ipairs(due) do
+  redis.call('ZREM', KEYS[1], jobId)
+  redis.call('LPUSH', KEYS[2], jobId)
+end
+return #due
+`;
+
+// 排入任務：冪等鍵、任務資料與待處理佇列在同一個腳本中寫入，不會只寫入其中一部分
+// 冪等鍵已存在時回傳先前的任務 ID
+const ENQUEUE_SCRIPT = `
+if #KEYS == 3 then
+  local existing = redis.call('GET', KEYS[3])
+  if existing then
+    return existing
+  end
+  redis.call('SET', KEYS[3], ARGV[1], 'EX', tonumber(ARGV[3]))
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('LPUSH', KEYS[2], ARGV[1])
+return ARGV[1]
+`;
+
+// 取出下一個任務並記錄處理期限，實例中途停止時任務會在期限後重新排入
+const CLAIM_SCRIPT = `
+local jobId = redis.call('RPOP', KEYS[1])
+if jobId then
+  redis.call('ZADD', KEYS[2], ARGV[1], jobId)
+end
+return jobId
+`;
+
+/**
+ * 推播與郵件的發送佇列（Redis）
+ * 請求只負責排入任務，由背景工作迴圈發送；失敗時以指數退避重試，超過次數後移入失敗任務區供管理員重送
+ */
+export class DeliveryQueue {
+  private static readonly READY_KEY = "delivery_queue:ready";
+  private static readonly DELAYED_KEY = "delivery_queue:delayed";
+  private static readonly PROCESSING_KEY = "delivery_queue:processing";
+  private static readonly DEAD_KEY = "delivery_queue:dead";
+
+  private static readonly MAX_ATTEMPTS = 5;
+
+  // 重試間隔：30 秒起每次加倍，最長 30 分鐘
+  private static readonly BASE_RETRY_DELAY_MS = 30 * 1000;
+  private static readonly MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+  // 單一任務的處理期限，超過視為實例已停止並重新排入
+  private static readonly PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+  // 相同冪等鍵在此期間內只會排入一次
+  private static readonly IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+  // 失敗任務保留期間，逾期未重送即刪除
+  private static readonly DEAD_JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+  private static readonly POLL_INTERVAL_MS = 1000;
+  private static readonly BATCH_SIZE = 50;
+
+  private static workerTimer: ReturnType<typeof setInterval> | null = null;
+  private static isProcessing = false;
+
+  private static jobKey(jobId: string): string {
+    return `delivery_queue:job:${jobId}`;
+  }
+
+  private static idempotencyKey(key: string): string {
+    return `delivery_queue:idempotency:${key}`;
+  }
+
+  /**
+   * 排入發送任務
+   * @param idempotencyKey 冪等鍵，重複排入同一則訊息時只會發送一次
+   * @returns 任務 ID；冪等鍵已存在時回傳先前的任務 ID
+   */
+  static async enqueue(payload: DeliveryJobPayload, idempotencyKey?: string): Promise<string> {
+    const jobId = nanoid();
+    const job: DeliveryJob = {
+      jobId,
+      payload,
+      idempotencyKey: idempotencyKey ?? null,
+      attempts: 0,
+      maxAttempts: this.MAX_ATTEMPTS,
+      lastError: null,
+      createdAt: new Date().toISOString(),
+      failedAt: null,
+    };
+
+    const keys = [
+      this.jobKey(jobId),
+      this.READY_KEY,
+      ...(idempotencyKey ? [this.idempotencyKey(idempotencyKey)] : []),
+    ];
+
+    return await redisClient.eval(
+      ENQUEUE_SCRIPT,
+      keys.length,
+      ...keys,
+      jobId,
+      JSON.stringify(job),
+      this.IDEMPOTENCY_TTL_SECONDS
+    ) as string;
+  }
+
+  /**
+   * 啟動背景工作迴圈：每秒處理待發送與到期重試的任務
+   */
+  static startWorker(): void {
+    if (this.workerTimer) {
+      return;
+    }
+
+    this.workerTimer = setInterval(() => {
+      this.processBatch().catch((error) => {
+        console.error("處理發送佇列時出錯:", error);
+      });
+    }, this.POLL_INTERVAL_MS);
+
+    console.log("✅ 推播與郵件發送佇列已啟動");
+  }
+
+  /**
+   * 處理一批任務；上一批尚未完成時略過
+   * @returns 處理的任務數量
+   */
+  static async processBatch(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const now = Date.now();
+      await redisClient.eval(PROMOTE_DUE_SCRIPT, 2, this.DELAYED_KEY, this.READY_KEY, now, this.BATCH_SIZE);
+      await redisClient.eval(PROMOTE_DUE_SCRIPT, 2, this.PROCESSING_KEY, this.READY_KEY, now, this.BATCH_SIZE);
+
+      // 任務資料已過期的失敗任務
+      await redisClient.zremrangebyscore(this.DEAD_KEY, "-inf", now - this.DEAD_JOB_TTL_SECONDS * 1000);
+
+      let processed = 0;
+
+      while (processed < this.BATCH_SIZE) {
+        const jobId = await redisClient.eval(
+          CLAIM_SCRIPT,
+          2,
+          this.READY_KEY,
+          this.PROCESSING_KEY,
+          Date.now() + this.PROCESSING_TIMEOUT_MS
+        ) as string | null;
+
+        if (!jobId) {
+          break;
+        }
+
+        await this.processJob(jobId);
+        processed += 1;
+      }
+
+      return processed;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private static async processJob(jobId: string): Promise<void> {
+    const raw = await redisClient.get(this.jobKey(jobId));
+
+    if (!raw) {
+      await redisClient.zrem(this.PROCESSING_KEY, jobId);
+      return;
+    }
+
+    const job = JSON.parse(raw) as DeliveryJob;
+
+    try {
+      await this.execute(job.payload);
+
+      await redisClient
+        .pipeline()
+        .zrem(this.PROCESSING_KEY, jobId)
+        .del(this.jobKey(jobId))
+        .exec();
+    } catch (error) {
+      job.attempts += 1;
+      job.lastError = error instanceof Error ? error.message : String(error);
+
+      const pipeline = redisClient.pipeline().zrem(this.PROCESSING_KEY, jobId);
+
+      if (job.attempts >= job.maxAttempts) {
+        job.failedAt = new Date().toISOString();
+        pipeline
+          .zadd(this.DEAD_KEY, Date.now(), jobId)
+          .set(this.jobKey(jobId), JSON.stringify(job), "EX", this.DEAD_JOB_TTL_SECONDS);
+        console.error(`發送任務 ${jobId} 已失敗 ${job.attempts} 次，移入失敗任務區:`, error);
+      } else {
+        const delay = Math.min(this.BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1), this.MAX_RETRY_DELAY_MS);
+        pipeline
+          .zadd(this.DELAYED_KEY, Date.now() + delay, jobId)
+          .set(this.jobKey(jobId), JSON.stringify(job));
+        console.warn(`發送任務 ${jobId} 第 ${job.attempts} 次失敗，${delay / 1000} 秒後重試`);
+      }
+
+      await pipeline.exec();
+    }
+  }
+
+  /**
+   * 實際發送；失敗時拋出錯誤以觸發重試
+   */
+  private static async execute(payload: DeliveryJobPayload): Promise<void> {
+    if (payload.kind === "email") {
+      await sendEmail(payload.to, payload.subject, payload.html, payload.text);
+      return;
+    }
+
+    const notification = { title: payload.title, body: payload.body };
+
+    if (payload.tokens.length === 1) {
+      if (!(await FCMClient.sendToToken(payload.tokens[0], notification, payload.data))) {
+        throw new Error("推播發送失敗");
+      }
+      return;
+    }
+
+    const result = await FCMClient.sendToMultipleTokens(payload.tokens, notification, payload.data);
+
+    if (result.successCount === 0) {
+      throw new Error(`推播發送失敗（${result.failureCount} 個設備）`);
+    }
+  }
+
+  /**
+   * 獲取佇列中各狀態的任務數量
+   */
+  static async getStats(): Promise<DeliveryQueueStats> {
+    const [ready, delayed, processing, dead] = await Promise.all([
+      redisClient.llen(this.READY_KEY),
+      redisClient.zcard(this.DELAYED_KEY),
+      redisClient.zcard(this.PROCESSING_KEY),
+      redisClient.zcard(this.DEAD_KEY),
+    ]);
+
+    return { ready, delayed, processing, dead };
+  }
+
+  /**
+   * 移除任務內容，只保留管理員判斷失敗原因所需的欄位
+   */
+  private static summarize(job: DeliveryJob): DeliveryJobSummary {
+    const { payload } = job;
+
+    return {
+      ...job,
+      payload: payload.kind === "email"
+        ? { kind: "email", to: payload.to, subject: payload.subject }
+        : { kind: "push", tokenCount: payload.tokens.length, title: payload.title, type: payload.data?.type ?? null },
+    };
+  }
+
+  /**
+   * 獲取失敗任務（由新到舊，不含任務內容）
+   */
+  static async getDeadJobs(limit: number, offset: number): Promise<DeliveryJobSummary[]> {
+    const jobIds = await redisClient.zrevrange(this.DEAD_KEY, offset, offset + limit - 1);
+
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const rows = await redisClient.mget(jobIds.map(jobId => this.jobKey(jobId)));
+
+    return rows
+      .filter((row): row is string => row !== null)
+      .map(row => this.summarize(JSON.parse(row) as DeliveryJob));
+  }
+
+  /**
+   * 重新排入失敗任務，重試次數歸零並取消保留期限
+   * @param jobIds 未指定時重送全部失敗任務
+   * @returns 重新排入的任務數量
+   */
+  static async replay(jobIds?: string[]): Promise<number> {
+    const targets = jobIds ?? await redisClient.zrange(this.DEAD_KEY, 0, -1);
+    let replayed = 0;
+
+    for (const jobId of targets) {
+      // 移除成功才重送，避免多個請求重複排入同一任務
+      if (await redisClient.zrem(this.DEAD_KEY, jobId) === 0) {
+        continue;
+      }
+
+      const raw = await redisClient.get(this.jobKey(jobId));
+
+      if (!raw) {
+        continue;
+      }
+
+      const job: DeliveryJob = { ...JSON.parse(raw), attempts: 0, failedAt: null };
+
+      await redisClient
+        .pipeline()
+        .set(this.jobKey(jobId), JSON.stringify(job))
+        .lpush(this.READY_KEY, jobId)
+        .exec();
+
+      replayed += 1;
+    }
+
+    return replayed;
+  }
+}
+
+export default DeliveryQueue;
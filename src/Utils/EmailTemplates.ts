@@ -1,3 +1,10 @@
+// 通知郵件（含純文字版本，供不顯示 HTML 的郵件客戶端使用）
+export interface NotificationEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
 export class EmailTemplates {
   /**
    * 生成密碼重設郵件 HTML 內容
@@ -413,4 +420,209 @@ export class EmailTemplates {
 </body>
 </html>`;
   }
+
+  /**
+   * 跳脫 HTML 特殊字元（通知內容可能包含使用者輸入的名稱）
+   */
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
+  /**
+   * 組合通知郵件：HTML 版本與純文字版本內容相同
+   * @param heading - 郵件標題（同時作為主旨）
+   * @param paragraphs - 內文段落（純文字，會跳脫 HTML）
+   * @param items - 條列項目（選填）
+   */
+  private static buildNotificationEmail(heading: string, paragraphs: string[], items: string[] = []): NotificationEmail {
+    const footer = [
+      "您可以在 App 的通知設定中調整郵件通知",
+      "此郵件由系統自動發送，請勿回覆",
+      "© 2025 WorkNow 打工平台. 保留所有權利.",
+    ];
+
+    const itemsHtml = items.length > 0
+      ? `
+        <div class="info-box">
+            <ul>
+${items.map(item => `                <li>${this.escapeHtml(item)}</li>`).join("\n")}
+            </ul>
+        </div>
+`
+      : "";
+
+    const html = `
+<!DOCTYPE html>
+<html lang="zh-TW">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>WorkNow ${this.escapeHtml(heading)}</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .container {
+            background: #f9f9f9;
+            padding: 30px;
+            border-radius: 10px;
+            border: 1px solid #ddd;
+        }
+        .header {
+            text-align: center;
+            color: #2c3e50;
+            margin-bottom: 30px;
+        }
+        .info-box {
+            background: #e8f4fd;
+            border: 1px solid #b8daff;
+            border-radius: 5px;
+            padding: 15px;
+            margin: 20px 0;
+        }
+        .footer {
+            text-align: center;
+            margin-top: 30px;
+            font-size: 14px;
+            color: #777;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>${this.escapeHtml(heading)}</h1>
+        </div>
+
+${paragraphs.map(paragraph => `        <p>${this.escapeHtml(paragraph)}</p>`).join("\n")}
+${itemsHtml}
+        <div class="footer">
+${footer.map(line => `            <p>${line}</p>`).join("\n")}
+        </div>
+    </div>
+</body>
+</html>`;
+
+    const text = [
+      heading,
+      "",
+      ...paragraphs.flatMap(paragraph => [paragraph, ""]),
+      ...(items.length > 0 ? [...items.map(item => `- ${item}`), ""] : []),
+      "---",
+      ...footer,
+    ].join("\n");
+
+    return { subject: `WorkNow ${heading}`, html, text };
+  }
+
+  /**
+   * 商家：收到新的工作申請
+   */
+  static generateApplicationReceivedEmail(workerName: string, gigTitle: string): NotificationEmail {
+    return this.buildNotificationEmail("收到新的工作申請", [
+      `${workerName} 申請了您的工作「${gigTitle}」。`,
+      "請登入 WorkNow 查看申請者資料並盡快審核。",
+    ]);
+  }
+
+  /**
+   * 打工者：工作申請已通過
+   */
+  static generateApplicationApprovedEmail(gigTitle: string, employerName: string): NotificationEmail {
+    return this.buildNotificationEmail("工作申請已通過", [
+      `恭喜！您申請的工作「${gigTitle}」已被 ${employerName} 核准。`,
+      "請登入 WorkNow 確認是否接受此工作，逾時未確認的申請將由系統取消。",
+    ]);
+  }
+
+  /**
+   * 打工者：工作申請未通過
+   */
+  static generateApplicationRejectedEmail(gigTitle: string, employerName: string): NotificationEmail {
+    return this.buildNotificationEmail("工作申請未通過", [
+      `很抱歉，您申請的工作「${gigTitle}」未獲 ${employerName} 錄取。`,
+      "別灰心，WorkNow 上還有許多工作機會等著您。",
+    ]);
+  }
+
+  /**
+   * 商家：打工者已確認接受工作
+   */
+  static generateWorkerConfirmedEmail(workerName: string, gigTitle: string): NotificationEmail {
+    return this.buildNotificationEmail("打工者已確認接受", [
+      `${workerName} 已確認接受工作「${gigTitle}」。`,
+      "您可以在 WorkNow 查看已確認的打工者名單與聯絡方式。",
+    ]);
+  }
+
+  /**
+   * 商家：打工者拒絕接受工作
+   */
+  static generateWorkerDeclinedEmail(workerName: string, gigTitle: string): NotificationEmail {
+    return this.buildNotificationEmail("打工者拒絕接受", [
+      `${workerName} 拒絕接受工作「${gigTitle}」。`,
+      "若有候補名單，系統會自動遞補下一位打工者。",
+    ]);
+  }
+
+  /**
+   * 收到新評價
+   */
+  static generateRatingReceivedEmail(raterName: string, ratingValue: number): NotificationEmail {
+    return this.buildNotificationEmail("收到新評價", [
+      `${raterName} 給了您 ${ratingValue} 星評價。`,
+      "登入 WorkNow 即可查看評價內容。",
+    ]);
+  }
+
+  /**
+   * 帳戶審核通過
+   */
+  static generateAccountApprovedEmail(accountName: string): NotificationEmail {
+    return this.buildNotificationEmail("帳戶審核通過", [
+      `恭喜！您的帳戶「${accountName}」已通過審核。`,
+      "現在可以開始使用 WorkNow 的所有功能。",
+    ]);
+  }
+
+  /**
+   * 帳戶審核未通過
+   */
+  static generateAccountRejectedEmail(accountName: string, reason: string): NotificationEmail {
+    return this.buildNotificationEmail("帳戶審核未通過", [
+      `很抱歉，您的帳戶「${accountName}」審核未通過。`,
+      `原因：${reason}`,
+      "請依上述原因更新資料後重新送審，如有疑問歡迎聯繫我們的客服團隊。",
+    ]);
+  }
+
+  /**
+   * 商家：每日新申請摘要
+   * @param gigs - 各工作過去 24 小時內收到的申請數
+   */
+  static generateEmployerApplicationDigestEmail(
+    employerName: string,
+    gigs: { gigTitle: string; applicationCount: number }[],
+  ): NotificationEmail {
+    const total = gigs.reduce((sum, gig) => sum + gig.applicationCount, 0);
+
+    return this.buildNotificationEmail(
+      "每日申請摘要",
+      [
+        `${employerName} 您好，過去 24 小時內您的工作共收到 ${total} 份新申請。`,
+        "請登入 WorkNow 查看並審核申請。",
+      ],
+      gigs.map(gig => `${gig.gigTitle}：${gig.applicationCount} 份申請`),
+    );
+  }
 }
@@ -0,0 +1,103 @@
+import GeocodingClient from "../Client/GeocodingClient";
+import districtCentroids from "../static/DistrictCentroids.json";
+import { sql, and, between, type AnyColumn } from "drizzle-orm";
+
+export interface GigLocation {
+  latitude: number;
+  longitude: number;
+  locationSource: "geocoded" | "district";
+}
+
+export class GeoUtils {
+  // 地球半徑（公尺）
+  private static readonly EARTH_RADIUS_METERS = 6371000;
+
+  /**
+   * 以 Haversine 公式計算兩個座標之間的距離（公尺）
+   */
+  static distanceInMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * this.EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+  }
+
+  /**
+   * 在 SQL 中以 Haversine 公式計算欄位座標與指定座標的距離（公里），欄位座標為 null 時結果為 null
+   */
+  static distanceKmSql(latitudeColumn: AnyColumn, longitudeColumn: AnyColumn, latitude: number, longitude: number) {
+    return sql<number | null>`(
+      2 * ${this.EARTH_RADIUS_METERS / 1000} * ASIN(SQRT(
+        POWER(SIN(RADIANS(${latitudeColumn} - ${latitude}) / 2), 2) +
+        COS(RADIANS(${latitude})) * COS(RADIANS(${latitudeColumn})) *
+        POWER(SIN(RADIANS(${longitudeColumn} - ${longitude}) / 2), 2)
+      ))
+    )`;
+  }
+
+  /**
+   * 以經緯度範圍預先篩選半徑內的座標，讓查詢可使用 (latitude, longitude) 索引
+   * 範圍為涵蓋整個半徑的外接矩形，仍須搭配 distanceKmSql 過濾矩形角落
+   */
+  static boundingBoxSql(
+    latitudeColumn: AnyColumn,
+    longitudeColumn: AnyColumn,
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+  ) {
+    const latitudeDelta = (radiusKm / (this.EARTH_RADIUS_METERS / 1000)) * (180 / Math.PI);
+    const longitudeDelta = latitudeDelta / Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+
+    return and(
+      between(latitudeColumn, latitude - latitudeDelta, latitude + latitudeDelta),
+      between(longitudeColumn, longitude - longitudeDelta, longitude + longitudeDelta)
+    );
+  }
+
+  /**
+   * 查詢行政區中心點座標（資料來源：static/DistrictCentroids.json）
+   */
+  static getDistrictCentroid(city: string, district: string): { latitude: number; longitude: number } | null {
+    return (districtCentroids as Record<string, Record<string, { latitude: number; longitude: number }>>)[city]?.[district] ?? null;
+  }
+
+  /**
+   * 決定工作座標：優先以地址轉換，轉換失敗或逾時時使用行政區中心點
+   */
+  static async resolveGigLocation(city: string, district: string, address: string): Promise<GigLocation | null> {
+    const location = await this.geocodeGigAddress(city, district, address);
+
+    if (location) {
+      return { latitude: location.latitude, longitude: location.longitude, locationSource: "geocoded" };
+    }
+
+    const centroid = this.getDistrictCentroid(city, district);
+    return centroid ? { ...centroid, locationSource: "district" } : null;
+  }
+
+  /**
+   * 將工作地址轉換為座標，轉換失敗或逾時時回傳 null（不影響工作的建立與更新）
+   */
+  static async geocodeGigAddress(city: string, district: string, address: string) {
+    try {
+      const fullAddress = address.startsWith(city) ? address : `${city}${district}${address}`;
+      return await GeocodingClient.geocode(fullAddress);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "TimeoutError") {
+        console.warn(`工作地址轉換座標逾時: ${city}${district}`);
+        return null;
+      }
+
+      console.error("工作地址轉換座標時發生錯誤:", error);
+      return null;
+    }
+  }
+}
+
+export default GeoUtils;
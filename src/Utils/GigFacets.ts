@@ -0,0 +1,85 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, employers } from "../Schema/DatabaseSchema";
+import { eq, asc, desc, count, sql, type SQL } from "drizzle-orm";
+
+export interface RateBucket {
+  min: number;
+  // 最高級距沒有上限
+  max: number | null;
+}
+
+export interface GigFacetResult {
+  locations: { city: string; district: string; count: number }[];
+  industryTypes: { industryType: string; count: number }[];
+  hourlyRates: (RateBucket & { count: number })[];
+  startWeeks: { weekStart: string; count: number }[];
+}
+
+export class GigFacets {
+  // 時薪級距（含上下限）
+  static readonly RATE_BUCKETS: RateBucket[] = [
+    { min: 0, max: 199 },
+    { min: 200, max: 249 },
+    { min: 250, max: 299 },
+    { min: 300, max: 399 },
+    { min: 400, max: null },
+  ];
+
+  private static rateBucketCondition(bucket: RateBucket): SQL {
+    return bucket.max === null
+      ? sql`${gigs.hourlyRate} >= ${bucket.min}`
+      : sql`${gigs.hourlyRate} BETWEEN ${bucket.min} AND ${bucket.max}`;
+  }
+
+  /**
+   * 以與工作列表相同的查詢條件統計各分類的工作數量
+   * 時薪級距固定回傳所有級距（包含數量為 0 者），開始週以週一日期表示
+   */
+  static async compute(where: SQL | undefined): Promise<GigFacetResult> {
+    const startWeek = sql<string>`to_char(date_trunc('week', ${gigs.dateStart}::date), 'YYYY-MM-DD')`;
+
+    const [locations, industryTypes, [rateCounts], startWeeks] = await Promise.all([
+      dbClient
+        .select({ city: gigs.city, district: gigs.district, count: count() })
+        .from(gigs)
+        .where(where)
+        .groupBy(gigs.city, gigs.district)
+        .orderBy(desc(count()), asc(gigs.city), asc(gigs.district)),
+
+      dbClient
+        .select({ industryType: employers.industryType, count: count() })
+        .from(gigs)
+        .innerJoin(employers, eq(gigs.employerId, employers.employerId))
+        .where(where)
+        .groupBy(employers.industryType)
+        .orderBy(desc(count()), asc(employers.industryType)),
+
+      dbClient
+        .select(Object.fromEntries(this.RATE_BUCKETS.map((bucket, index) => [
+          `bucket${index}`,
+          sql<number>`count(*) FILTER (WHERE ${this.rateBucketCondition(bucket)})`.mapWith(Number),
+        ])))
+        .from(gigs)
+        .where(where),
+
+      dbClient
+        .select({ weekStart: startWeek, count: count() })
+        .from(gigs)
+        .where(where)
+        .groupBy(startWeek)
+        .orderBy(asc(startWeek)),
+    ]);
+
+    return {
+      locations,
+      industryTypes,
+      hourlyRates: this.RATE_BUCKETS.map((bucket, index) => ({
+        ...bucket,
+        count: Number(rateCounts?.[`bucket${index}`] ?? 0),
+      })),
+      startWeeks,
+    };
+  }
+}
+
+export default GigFacets;
@@ -0,0 +1,221 @@
+import dbClient from "../Client/DrizzleClient";
+import {
+  gigs,
+  gigApplications,
+  attendanceCodes,
+  cronJobRuns,
+} from "../Schema/DatabaseSchema";
+import { eq, and, lt, gte, inArray, isNull, desc, sql } from "drizzle-orm";
+import { DateUtils } from "./DateUtils";
+import ApplicationStateMachine, { type TransitionContext } from "./ApplicationStateMachine";
+import InvitationManager from "./InvitationManager";
+
+export type CronJobSource = "pg_cron" | "in_process" | "manual";
+
+export interface GigCleanupResult {
+  unlistedGigs: number;
+  cancelledApplications: number;
+  expiredInvitations: number;
+  purgedAttendanceCodes: number;
+}
+
+export class GigMaintenance {
+  // 工作過期清理任務名稱（pg_cron 與程式內排程共用）
+  static readonly CLEANUP_JOB_NAME = "auto_cleanup_expired_gigs";
+
+  // 工作結束後系統取消申請的原因
+  static readonly EXPIRED_CANCEL_REASON = "工作已結束";
+
+  // 工作結束後仍在等待回覆的申請狀態
+  static readonly PENDING_STATUSES = ["pending_employer_review", "pending_worker_confirmation"] as const;
+
+  /**
+   * 下架已超過結束日期的工作
+   */
+  static async unlistExpiredGigs(today: string): Promise<number> {
+    const unlisted = await dbClient
+      .update(gigs)
+      .set({
+        unlistedAt: today,
+        updatedAt: sql`now()`,
+      })
+      .where(and(
+        eq(gigs.isActive, true),
+        lt(gigs.dateEnd, today),
+        isNull(gigs.unlistedAt)
+      ))
+      .returning({ gigId: gigs.gigId });
+
+    return unlisted.length;
+  }
+
+  /**
+   * 系統取消已結束工作中仍在等待回覆的申請（經由申請狀態機，移出候補名單並通知打工者）
+   */
+  static async cancelExpiredApplications(today: string): Promise<number> {
+    const expiredApplications = await dbClient
+      .select({ applicationId: gigApplications.applicationId })
+      .from(gigApplications)
+      .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+      .where(and(
+        lt(gigs.dateEnd, today),
+        inArray(gigApplications.status, [...this.PENDING_STATUSES])
+      ));
+
+    if (expiredApplications.length === 0) {
+      return 0;
+    }
+
+    const context: TransitionContext = { actor: "system", reason: this.EXPIRED_CANCEL_REASON };
+    const cancelled = await dbClient.transaction(tx =>
+      ApplicationStateMachine.transitionMany(
+        tx,
+        expiredApplications.map(app => app.applicationId),
+        "system_cancelled",
+        context
+      )
+    );
+
+    for (const { applicationId, from } of cancelled) {
+      await ApplicationStateMachine.runSideEffects(applicationId, from, "system_cancelled", context);
+    }
+
+    return cancelled.length;
+  }
+
+  /**
+   * 清除已過期的打卡碼
+   */
+  static async purgeExpiredAttendanceCodes(): Promise<number> {
+    const purged = await dbClient
+      .delete(attendanceCodes)
+      .where(lt(attendanceCodes.expiresAt, sql`now()`))
+      .returning({ codeId: attendanceCodes.codeId });
+
+    return purged.length;
+  }
+
+  /**
+   * 執行工作過期清理，並將結果寫入執行記錄
+   * @param runId pg_cron 排入的執行記錄，未提供時新增一筆
+   */
+  static async runExpiredGigCleanup(source: CronJobSource, runId?: string): Promise<GigCleanupResult> {
+    if (!runId) {
+      const [run] = await dbClient
+        .insert(cronJobRuns)
+        .values({ jobName: this.CLEANUP_JOB_NAME, source })
+        .returning({ runId: cronJobRuns.runId });
+
+      runId = run.runId;
+    }
+
+    try {
+      const today = DateUtils.getCurrentDate();
+
+      const result: GigCleanupResult = {
+        unlistedGigs: await this.unlistExpiredGigs(today),
+        cancelledApplications: await this.cancelExpiredApplications(today),
+        expiredInvitations: await InvitationManager.expireInvitations(today),
+        purgedAttendanceCodes: await this.purgeExpiredAttendanceCodes(),
+      };
+
+      await dbClient
+        .update(cronJobRuns)
+        .set({ status: "succeeded", result, finishedAt: sql`now()` })
+        .where(eq(cronJobRuns.runId, runId));
+
+      return result;
+    } catch (error) {
+      await dbClient
+        .update(cronJobRuns)
+        .set({
+          status: "failed",
+          errorMessage: error instanceof Error ? error.message : String(error),
+          finishedAt: sql`now()`,
+        })
+        .where(eq(cronJobRuns.runId, runId));
+
+      throw error;
+    }
+  }
+
+  /**
+   * 執行 pg_cron 排入的清理：先將記錄改為執行中，多個實例同時處理時只有一個會取得
+   * @returns 執行的次數
+   */
+  static async runQueuedCleanups(): Promise<number> {
+    const claimed = await dbClient
+      .update(cronJobRuns)
+      .set({ status: "running", startedAt: sql`now()` })
+      .where(and(
+        eq(cronJobRuns.jobName, this.CLEANUP_JOB_NAME),
+        eq(cronJobRuns.status, "queued")
+      ))
+      .returning({ runId: cronJobRuns.runId });
+
+    for (const run of claimed) {
+      await this.runExpiredGigCleanup("pg_cron", run.runId);
+    }
+
+    return claimed.length;
+  }
+
+  /**
+   * 清理在指定時間之後是否已執行過（執行中或成功）
+   * @param elapsedMs 距今的毫秒數，以資料庫時間比較
+   */
+  static async hasCleanupRunSince(elapsedMs: number): Promise<boolean> {
+    const [run] = await dbClient
+      .select({ runId: cronJobRuns.runId })
+      .from(cronJobRuns)
+      .where(and(
+        eq(cronJobRuns.jobName, this.CLEANUP_JOB_NAME),
+        inArray(cronJobRuns.status, ["running", "succeeded"]),
+        gte(cronJobRuns.startedAt, sql`now() - ${elapsedMs} * interval '1 millisecond'`)
+      ))
+      .limit(1);
+
+    return !!run;
+  }
+
+  /**
+   * pg_cron 執行的 SQL：只排入一筆待執行記錄
+   * 清理步驟與副作用（候補遞補、推播、即時事件）一律由程式執行，兩種排程方式的行為一致
+   */
+  static buildCleanupCommand(): string {
+    return `
+      INSERT INTO cron_job_runs (run_id, job_name, source, status)
+      VALUES (
+        substr(md5(random()::text || clock_timestamp()::text), 1, 21),
+        '${this.CLEANUP_JOB_NAME}',
+        'pg_cron',
+        'queued'
+      );
+    `;
+  }
+
+  /**
+   * 獲取排程任務的執行記錄
+   */
+  static async getRuns(jobName: string | undefined, limit: number, offset: number) {
+    return dbClient
+      .select()
+      .from(cronJobRuns)
+      .where(jobName ? eq(cronJobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(cronJobRuns.startedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * 獲取每個排程任務最近一次的執行結果
+   */
+  static async getLatestRuns() {
+    return dbClient
+      .selectDistinctOn([cronJobRuns.jobName])
+      .from(cronJobRuns)
+      .orderBy(cronJobRuns.jobName, desc(cronJobRuns.startedAt));
+  }
+}
+
+export default GigMaintenance;
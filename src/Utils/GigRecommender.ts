@@ -0,0 +1,175 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, gigApplications, workers } from "../Schema/DatabaseSchema";
+import { eq, and, asc, gte, sql } from "drizzle-orm";
+import moment from "moment";
+import { ApplicationConflictChecker } from "./ApplicationConflictChecker";
+import BlockListManager from "./BlockListManager";
+import { DateUtils } from "./DateUtils";
+
+export interface RecommendedGig {
+  gigId: string;
+  title: string;
+  hourlyRate: number;
+  city: string;
+  district: string;
+  dateStart: string;
+  dateEnd: string;
+  updatedAt: Date | null;
+  score: number;
+  reasons: string[];
+}
+
+export class GigRecommender {
+  // 參與排序的候選工作數量上限（依開始日期由近到遠）
+  private static readonly CANDIDATE_LIMIT = 200;
+
+  // 各項分數上限，總分 100
+  private static readonly LOCATION_WEIGHT = 30;
+  private static readonly SKILL_WEIGHT = 25;
+  private static readonly RATE_WEIGHT = 20;
+  private static readonly EMPLOYER_WEIGHT = 15;
+  private static readonly DATE_WEIGHT = 10;
+
+  // 開始日期在此天數內的工作才會獲得日期分數
+  private static readonly DATE_HORIZON_DAYS = 30;
+
+  /**
+   * 將 json 欄位轉為字串陣列
+   */
+  private static toStringArray(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.filter((item): item is string => typeof item === "string" && item.trim() !== "");
+  }
+
+  /**
+   * 工作需求中的技能，任一方包含另一方即視為符合打工者的經歷或證照
+   */
+  private static matchSkills(skills: string[], profileTerms: string[]): string[] {
+    return skills.filter(skill =>
+      profileTerms.some(term => term.includes(skill) || skill.includes(term))
+    );
+  }
+
+  /**
+   * 依打工者的申請記錄、偏好地區、時薪記錄、經歷證照與行程，為可申請的工作排序
+   * 已申請過、時間與已確認工作衝突、或被商家封鎖的工作不會出現
+   */
+  static async recommend(workerId: string): Promise<RecommendedGig[]> {
+    const today = DateUtils.getCurrentDate();
+
+    const worker = await dbClient.query.workers.findFirst({
+      where: eq(workers.workerId, workerId),
+      columns: { jobExperience: true, certificates: true },
+    });
+
+    if (!worker) {
+      return [];
+    }
+
+    const history = await dbClient
+      .select({
+        employerId: gigs.employerId,
+        city: gigs.city,
+        district: gigs.district,
+        hourlyRate: gigs.hourlyRate,
+        status: gigApplications.status,
+      })
+      .from(gigApplications)
+      .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+      .where(eq(gigApplications.workerId, workerId));
+
+    const preferredCities = new Set(history.map(item => item.city));
+    const preferredDistricts = new Set(history.map(item => `${item.city}:${item.district}`));
+    const confirmedEmployers = new Set(
+      history.filter(item => item.status === "worker_confirmed").map(item => item.employerId)
+    );
+    const averageRate = history.length > 0
+      ? history.reduce((sum, item) => sum + item.hourlyRate, 0) / history.length
+      : null;
+    const profileTerms = [
+      ...this.toStringArray(worker.jobExperience),
+      ...this.toStringArray(worker.certificates),
+    ];
+
+    const candidates = await dbClient
+      .select({
+        gigId: gigs.gigId,
+        employerId: gigs.employerId,
+        title: gigs.title,
+        hourlyRate: gigs.hourlyRate,
+        city: gigs.city,
+        district: gigs.district,
+        dateStart: gigs.dateStart,
+        dateEnd: gigs.dateEnd,
+        requirements: gigs.requirements,
+        updatedAt: gigs.updatedAt,
+      })
+      .from(gigs)
+      .where(and(
+        eq(gigs.isActive, true),
+        sql`(${gigs.unlistedAt} IS NULL OR ${gigs.unlistedAt} >= ${today})`,
+        gte(gigs.dateEnd, today),
+        sql`NOT EXISTS (SELECT 1 FROM ${gigApplications} WHERE ${gigApplications.gigId} = ${gigs.gigId} AND ${gigApplications.workerId} = ${workerId})`,
+        BlockListManager.excludeBlockedGigs(workerId)
+      ))
+      .orderBy(asc(gigs.dateStart))
+      .limit(this.CANDIDATE_LIMIT);
+
+    const conflictingGigIds = await ApplicationConflictChecker.getConflictingGigIds(
+      workerId,
+      candidates.map(gig => gig.gigId)
+    );
+
+    const ranked = candidates
+      .filter(gig => !conflictingGigIds.has(gig.gigId))
+      .map(({ employerId, requirements, ...gig }) => {
+        let score = 0;
+        const reasons: string[] = [];
+
+        if (preferredDistricts.has(`${gig.city}:${gig.district}`)) {
+          score += this.LOCATION_WEIGHT;
+          reasons.push("位於您常申請的地區");
+        } else if (preferredCities.has(gig.city)) {
+          score += this.LOCATION_WEIGHT / 2;
+          reasons.push("位於您常申請的城市");
+        }
+
+        const requiredSkills = this.toStringArray((requirements as { skills?: unknown } | null)?.skills);
+        const matchedSkills = this.matchSkills(requiredSkills, profileTerms);
+        if (matchedSkills.length > 0) {
+          score += this.SKILL_WEIGHT * (matchedSkills.length / requiredSkills.length);
+          reasons.push(`符合您的經歷或證照：${matchedSkills.join("、")}`);
+        }
+
+        if (averageRate === null) {
+          score += this.RATE_WEIGHT / 2;
+        } else if (gig.hourlyRate >= averageRate) {
+          score += this.RATE_WEIGHT;
+          reasons.push("時薪不低於您過去申請的平均");
+        } else {
+          score += this.RATE_WEIGHT * (gig.hourlyRate / averageRate) ** 2;
+        }
+
+        if (confirmedEmployers.has(employerId)) {
+          score += this.EMPLOYER_WEIGHT;
+          reasons.push("您曾與此商家合作");
+        }
+
+        const daysUntilStart = Math.max(0, moment(gig.dateStart).diff(moment(today), "days"));
+        score += this.DATE_WEIGHT * Math.max(0, 1 - daysUntilStart / this.DATE_HORIZON_DAYS);
+
+        return {
+          ...gig,
+          score: Math.round(score),
+          reasons,
+        };
+      });
+
+    // 分數相同時，開始日期較近的排前面（候選工作已依開始日期排序）
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+}
+
+export default GigRecommender;
@@ -0,0 +1,241 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigShifts } from "../Schema/DatabaseSchema";
+import { eq, and, gte, lte, inArray, asc, min, sql, type SQL, type AnyColumn } from "drizzle-orm";
+import { DateUtils } from "./DateUtils";
+
+export interface ShiftInput {
+  workDate: string;
+  timeStart: string;
+  timeEnd: string;
+  headcount?: number;
+}
+
+export interface ShiftSummary {
+  dateStart: string;
+  dateEnd: string;
+  timeStart: string;
+  timeEnd: string;
+}
+
+export interface DateRange {
+  dateStart?: string;
+  dateEnd?: string;
+}
+
+// 可在交易 (transaction) 內外共用的資料庫操作介面
+type DbExecutor = Pick<typeof dbClient, "select" | "insert" | "update" | "delete">;
+
+export class GigShiftManager {
+  // 單一工作最多可排的班次數量
+  static readonly MAX_SHIFTS = 366;
+
+  /**
+   * 依日期範圍與每日時段產生每天一個班次
+   */
+  static buildDailyShifts(
+    dateStart: string | Date,
+    dateEnd: string | Date,
+    timeStart: string,
+    timeEnd: string,
+    headcount = 1
+  ): ShiftInput[] {
+    return DateUtils.getDatesBetween(dateStart, dateEnd)
+      .slice(0, this.MAX_SHIFTS)
+      .map(workDate => ({ workDate, timeStart, timeEnd, headcount }));
+  }
+
+  /**
+   * 時間字串 (HH:mm) 轉為當天的分鐘數
+   */
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * 由班次列表計算工作的日期範圍與時段摘要（寫回 gigs 表供列表與舊版客戶端使用）
+   * 跨夜班次的結束時間視為隔天，有跨夜班次時摘要的結束時間早於開始時間
+   */
+  static summarize(shifts: ShiftInput[]): ShiftSummary | null {
+    if (shifts.length === 0) {
+      return null;
+    }
+
+    const dates = shifts.map(shift => shift.workDate).sort();
+    const earliestStart = shifts.reduce((earliest, shift) =>
+      this.toMinutes(shift.timeStart) < this.toMinutes(earliest.timeStart) ? shift : earliest
+    );
+
+    // 結束時間以開始當天起算的分鐘數比較，跨夜班次加上一天
+    const endMinutes = (shift: ShiftInput) =>
+      this.toMinutes(shift.timeEnd) + (DateUtils.isOvernight(shift.timeStart, shift.timeEnd) ? 24 * 60 : 0);
+    const latestEnd = shifts.reduce((latest, shift) =>
+      endMinutes(shift) > endMinutes(latest) ? shift : latest
+    );
+
+    return {
+      dateStart: dates[0],
+      dateEnd: dates[dates.length - 1],
+      timeStart: earliestStart.timeStart,
+      timeEnd: latestEnd.timeEnd,
+    };
+  }
+
+  /**
+   * 新增工作的所有班次
+   */
+  static async createShifts(executor: DbExecutor, gigId: string, shifts: ShiftInput[]): Promise<void> {
+    if (shifts.length === 0) {
+      return;
+    }
+
+    await executor.insert(gigShifts).values(
+      shifts.map(shift => ({
+        gigId,
+        workDate: shift.workDate,
+        timeStart: shift.timeStart,
+        timeEnd: shift.timeEnd,
+        headcount: shift.headcount ?? 1,
+      }))
+    );
+  }
+
+  /**
+   * 以新的班次列表取代今天（含）之後的班次，過去的班次保留作為打卡與薪資依據
+   * @returns 取代後所有班次的摘要
+   */
+  static async replaceUpcomingShifts(
+    executor: DbExecutor,
+    gigId: string,
+    shifts: ShiftInput[]
+  ): Promise<ShiftSummary | null> {
+    const today = DateUtils.getCurrentDate();
+
+    await executor
+      .delete(gigShifts)
+      .where(and(eq(gigShifts.gigId, gigId), gte(gigShifts.workDate, today)));
+
+    await this.createShifts(executor, gigId, shifts.filter(shift => shift.workDate >= today));
+
+    const allShifts = await executor
+      .select({
+        workDate: gigShifts.workDate,
+        timeStart: gigShifts.timeStart,
+        timeEnd: gigShifts.timeEnd,
+      })
+      .from(gigShifts)
+      .where(eq(gigShifts.gigId, gigId));
+
+    return this.summarize(allShifts);
+  }
+
+  /**
+   * 今天（含）之後各班次需要人數的最小值，沒有尚未開始的班次時回傳 null
+   */
+  static async getMinUpcomingHeadcount(executor: DbExecutor, gigId: string): Promise<number | null> {
+    const [result] = await executor
+      .select({ headcount: min(gigShifts.headcount) })
+      .from(gigShifts)
+      .where(and(eq(gigShifts.gigId, gigId), gte(gigShifts.workDate, DateUtils.getCurrentDate())));
+
+    return result?.headcount ?? null;
+  }
+
+  /**
+   * 獲取單一工作的班次（可指定日期範圍）
+   */
+  static async getGigShifts(gigId: string, range: DateRange = {}) {
+    const whereConditions = [eq(gigShifts.gigId, gigId)];
+    if (range.dateStart) whereConditions.push(gte(gigShifts.workDate, range.dateStart));
+    if (range.dateEnd) whereConditions.push(lte(gigShifts.workDate, range.dateEnd));
+
+    return dbClient.query.gigShifts.findMany({
+      where: and(...whereConditions),
+      columns: {
+        shiftId: true,
+        workDate: true,
+        timeStart: true,
+        timeEnd: true,
+        headcount: true,
+      },
+      orderBy: [asc(gigShifts.workDate), asc(gigShifts.timeStart)],
+    });
+  }
+
+  /**
+   * 批次獲取多個工作的班次，依 gigId 分組
+   */
+  static async getShiftsByGigIds(gigIds: string[], range: DateRange = {}) {
+    const grouped: Record<string, Array<{
+      shiftId: string;
+      workDate: string;
+      timeStart: string;
+      timeEnd: string;
+      headcount: number;
+    }>> = {};
+
+    if (gigIds.length === 0) {
+      return grouped;
+    }
+
+    const whereConditions = [inArray(gigShifts.gigId, gigIds)];
+    if (range.dateStart) whereConditions.push(gte(gigShifts.workDate, range.dateStart));
+    if (range.dateEnd) whereConditions.push(lte(gigShifts.workDate, range.dateEnd));
+
+    const shifts = await dbClient
+      .select({
+        shiftId: gigShifts.shiftId,
+        gigId: gigShifts.gigId,
+        workDate: gigShifts.workDate,
+        timeStart: gigShifts.timeStart,
+        timeEnd: gigShifts.timeEnd,
+        headcount: gigShifts.headcount,
+      })
+      .from(gigShifts)
+      .where(and(...whereConditions))
+      .orderBy(asc(gigShifts.workDate), asc(gigShifts.timeStart));
+
+    for (const { gigId, ...shift } of shifts) {
+      grouped[gigId] ??= [];
+      grouped[gigId].push(shift);
+    }
+
+    return grouped;
+  }
+
+  /**
+   * 獲取工作在指定日期的班次
+   */
+  static async getShiftForDate(gigId: string, workDate: string) {
+    return dbClient.query.gigShifts.findFirst({
+      where: and(eq(gigShifts.gigId, gigId), eq(gigShifts.workDate, workDate)),
+    });
+  }
+
+  /**
+   * 獲取在指定日期有上班時段的班次：當天的班次，以及前一天延續到當天的跨夜班次
+   * 依開始時間排序（前一天的班次在前）
+   */
+  static async getShiftsCoveringDate(gigId: string, date: string) {
+    const previousDate = DateUtils.addDays(date, -1);
+    const shifts = await this.getGigShifts(gigId, { dateStart: previousDate, dateEnd: date });
+
+    return shifts.filter(shift =>
+      shift.workDate === date || DateUtils.isOvernight(shift.timeStart, shift.timeEnd)
+    );
+  }
+
+  /**
+   * 查詢條件：工作在指定日期範圍內至少有一個班次
+   * @param gigIdColumn - 外層查詢的 gigId 欄位
+   */
+  static hasShiftInRange(gigIdColumn: AnyColumn, range: DateRange): SQL {
+    const conditions = [sql`${gigShifts.gigId} = ${gigIdColumn}`];
+    if (range.dateStart) conditions.push(sql`${gigShifts.workDate} >= ${range.dateStart}`);
+    if (range.dateEnd) conditions.push(sql`${gigShifts.workDate} <= ${range.dateEnd}`);
+
+    return sql`EXISTS (SELECT 1 FROM ${gigShifts} WHERE ${sql.join(conditions, sql` AND `)})`;
+  }
+}
+
+export default GigShiftManager;
@@ -0,0 +1,302 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, gigApplications, gigInvitations, employerBlocks, workers } from "../Schema/DatabaseSchema";
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { ApplicationConflictChecker } from "./ApplicationConflictChecker";
+import ApplicationStateMachine from "./ApplicationStateMachine";
+import WaitlistManager from "./WaitlistManager";
+import NotificationHelper from "./NotificationHelper";
+import QualificationMatcher, { type QualificationCheck } from "./QualificationMatcher";
+import { DateUtils } from "./DateUtils";
+import { Role } from "../Types/types";
+
+type DbExecutor = Pick<typeof dbClient, "select" | "insert" | "update" | "delete">;
+
+// 無法邀請的原因：已封鎖、已有待回覆邀請、已申請、時間衝突
+export type InvitationIneligibleReason = "blocked" | "pending_invitation" | "already_applied" | "conflict";
+
+export type AcceptInvitationResult =
+  | { status: "accepted"; applicationId: string }
+  | { status: "not_pending" }
+  | { status: "already_applied"; applicationStatus: string }
+  | { status: "full" }
+  | { status: "unqualified"; unmetRequirements: QualificationCheck[] }
+  | { status: "conflict"; conflictingGigs: Array<{ gigId: string; title: string }> };
+
+export class InvitationManager {
+  // 仍在進行中的申請狀態（打工者已有這些狀態的申請時不可再接受邀請）
+  static readonly ACTIVE_APPLICATION_STATUSES = [
+    "pending_employer_review",
+    "pending_worker_confirmation",
+    "worker_confirmed",
+  ] as const;
+
+  // 接受邀請時寫入申請狀態歷程的原因
+  static readonly ACCEPT_REASON = "接受商家邀請";
+
+  /**
+   * 查詢打工者對指定工作仍在進行中的申請
+   */
+  static async findActiveApplication(workerId: string, gigId: string, executor: DbExecutor = dbClient) {
+    const [application] = await executor
+      .select({ applicationId: gigApplications.applicationId, status: gigApplications.status })
+      .from(gigApplications)
+      .where(and(
+        eq(gigApplications.workerId, workerId),
+        eq(gigApplications.gigId, gigId),
+        inArray(gigApplications.status, [...this.ACTIVE_APPLICATION_STATUSES])
+      ))
+      .limit(1);
+
+    return application;
+  }
+
+  /**
+   * 檢查是否可以邀請打工者參加指定工作
+   * @returns 可以邀請時回傳 null，否則回傳無法邀請的原因
+   */
+  static async getIneligibleReason(
+    employerId: string,
+    workerId: string,
+    gigId: string,
+  ): Promise<InvitationIneligibleReason | null> {
+    const reasons = await this.getIneligibleReasons(employerId, [workerId], gigId);
+    return reasons.get(workerId) ?? null;
+  }
+
+  /**
+   * 批次檢查多位打工者是否可以邀請參加指定工作，每項條件只查詢一次
+   * 原因的優先順序：已封鎖、已有待回覆邀請、已申請、時間衝突
+   * @returns 無法邀請的打工者與原因；可以邀請的打工者不在結果中
+   */
+  static async getIneligibleReasons(
+    employerId: string,
+    workerIds: string[],
+    gigId: string,
+  ): Promise<Map<string, InvitationIneligibleReason>> {
+    const reasons = new Map<string, InvitationIneligibleReason>();
+
+    if (workerIds.length === 0) {
+      return reasons;
+    }
+
+    const blocked = await dbClient
+      .select({ workerId: employerBlocks.workerId })
+      .from(employerBlocks)
+      .where(and(
+        eq(employerBlocks.employerId, employerId),
+        inArray(employerBlocks.workerId, workerIds)
+      ));
+
+    const pendingInvitations = await dbClient
+      .select({ workerId: gigInvitations.workerId })
+      .from(gigInvitations)
+      .where(and(
+        eq(gigInvitations.gigId, gigId),
+        inArray(gigInvitations.workerId, workerIds),
+        eq(gigInvitations.status, "pending")
+      ));
+
+    const activeApplications = await dbClient
+      .select({ workerId: gigApplications.workerId })
+      .from(gigApplications)
+      .where(and(
+        eq(gigApplications.gigId, gigId),
+        inArray(gigApplications.workerId, workerIds),
+        inArray(gigApplications.status, [...this.ACTIVE_APPLICATION_STATUSES])
+      ));
+
+    // 打工者已確認的工作與此工作時間衝突時不可邀請
+    const conflictingWorkerIds = await ApplicationConflictChecker.getConflictingWorkerIds(workerIds, gigId);
+
+    const checks: Array<[InvitationIneligibleReason, Iterable<string>]> = [
+      ["blocked", blocked.map(row => row.workerId)],
+      ["pending_invitation", pendingInvitations.map(row => row.workerId)],
+      ["already_applied", activeApplications.map(row => row.workerId)],
+      ["conflict", conflictingWorkerIds],
+    ];
+
+    for (const [reason, ineligibleWorkerIds] of checks) {
+      for (const workerId of ineligibleWorkerIds) {
+        if (!reasons.has(workerId)) {
+          reasons.set(workerId, reason);
+        }
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * 建立邀請並通知打工者
+   */
+  static async invite(
+    gig: { gigId: string; title: string },
+    employer: { employerId: string; employerName: string },
+    workerId: string,
+    message?: string,
+  ) {
+    const [invitation] = await this.inviteMany(gig, employer, [workerId], message);
+    return invitation;
+  }
+
+  /**
+   * 以單一寫入建立多筆邀請並逐一通知打工者
+   */
+  static async inviteMany(
+    gig: { gigId: string; title: string },
+    employer: { employerId: string; employerName: string },
+    workerIds: string[],
+    message?: string,
+  ) {
+    if (workerIds.length === 0) {
+      return [];
+    }
+
+    const invitations = await dbClient
+      .insert(gigInvitations)
+      .values(workerIds.map(workerId => ({
+        gigId: gig.gigId,
+        employerId: employer.employerId,
+        workerId,
+        message: message ?? null,
+      })))
+      .returning();
+
+    for (const invitation of invitations) {
+      await NotificationHelper.notifyWorkerInvited(
+        invitation.workerId,
+        Role.WORKER,
+        gig.title,
+        employer.employerName,
+        invitation.invitationId,
+      );
+    }
+
+    return invitations;
+  }
+
+  /**
+   * 打工者接受邀請：檢查必要資格、時間衝突與名額後，直接建立已確認的申請
+   * 鎖定打工者與工作資料列後才檢查，避免同時接受或申請造成重複排班或超額
+   */
+  static async accept(invitationId: string, workerId: string, gigId: string): Promise<AcceptInvitationResult> {
+    const result = await dbClient.transaction(async (tx): Promise<AcceptInvitationResult> => {
+      // 同一打工者同時接受多個邀請時依序處理
+      const [worker] = await tx
+        .select({
+          highestEducation: workers.highestEducation,
+          studyStatus: workers.studyStatus,
+          certificates: workers.certificates,
+          languages: workers.languages,
+          birthDate: workers.birthDate,
+        })
+        .from(workers)
+        .where(eq(workers.workerId, workerId))
+        .for("update");
+
+      const [gig] = await tx
+        .select({ headcount: gigs.headcount, requirements: gigs.requirements, dateStart: gigs.dateStart })
+        .from(gigs)
+        .where(eq(gigs.gigId, gigId))
+        .for("update");
+
+      const [invitation] = await tx
+        .select({ status: gigInvitations.status })
+        .from(gigInvitations)
+        .where(eq(gigInvitations.invitationId, invitationId))
+        .for("update");
+
+      if (!invitation || invitation.status !== "pending") {
+        return { status: "not_pending" };
+      }
+
+      // 與直接申請相同：不符合必要資格條件時不可接受
+      if (gig && worker) {
+        const qualificationMatch = QualificationMatcher.match(gig.requirements, worker, DateUtils.formatDate(gig.dateStart));
+
+        if (!qualificationMatch.meetsMandatory) {
+          return {
+            status: "unqualified",
+            unmetRequirements: qualificationMatch.checks.filter(check => check.mandatory && check.met !== true),
+          };
+        }
+      }
+
+      const conflictCheck = await ApplicationConflictChecker.checkWorkerScheduleConflict(workerId, gigId, tx);
+
+      if (conflictCheck.hasConflict) {
+        return {
+          status: "conflict",
+          conflictingGigs: conflictCheck.conflictingGigs.map(gig => ({ gigId: gig.gigId, title: gig.title })),
+        };
+      }
+
+      const existingApplication = await this.findActiveApplication(workerId, gigId, tx);
+
+      if (existingApplication) {
+        return { status: "already_applied", applicationStatus: existingApplication.status };
+      }
+
+      const occupied = await WaitlistManager.countOccupiedSlots(tx, gigId);
+
+      if (!gig || occupied >= await WaitlistManager.getCapacity(tx, gigId, gig.headcount)) {
+        return { status: "full" };
+      }
+
+      const [application] = await tx
+        .insert(gigApplications)
+        .values({
+          workerId,
+          gigId,
+          status: "worker_confirmed",
+        })
+        .returning({ applicationId: gigApplications.applicationId });
+
+      await ApplicationStateMachine.recordHistory(tx, application.applicationId, null, "worker_confirmed", {
+        actor: "worker",
+        actorId: workerId,
+        reason: this.ACCEPT_REASON,
+      });
+
+      await tx
+        .update(gigInvitations)
+        .set({
+          status: "accepted",
+          applicationId: application.applicationId,
+          respondedAt: sql`now()`,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(gigInvitations.invitationId, invitationId));
+
+      return { status: "accepted", applicationId: application.applicationId };
+    });
+
+    // 取消時間衝突的其他申請（通知商家由邀請路由處理）
+    if (result.status === "accepted") {
+      await ApplicationStateMachine.cancelConflictingApplications(workerId, gigId);
+    }
+
+    return result;
+  }
+
+  /**
+   * 將已結束工作的待回覆邀請標記為過期
+   */
+  static async expireInvitations(today: string): Promise<number> {
+    const expired = await dbClient
+      .update(gigInvitations)
+      .set({
+        status: "expired",
+        updatedAt: sql`now()`,
+      })
+      .where(and(
+        eq(gigInvitations.status, "pending"),
+        sql`${gigInvitations.gigId} IN (SELECT ${gigs.gigId} FROM ${gigs} WHERE ${gigs.dateEnd} < ${today})`
+      ))
+      .returning({ invitationId: gigInvitations.invitationId });
+
+    return expired.length;
+  }
+}
+
+export default InvitationManager;
@@ -0,0 +1,126 @@
+import dbClient from "../Client/DrizzleClient";
+import {
+  gigs,
+  gigShifts,
+  gigApplications,
+  workers,
+  attendanceRecords,
+  attendanceCorrections,
+  noShowRecords,
+} from "../Schema/DatabaseSchema";
+import { eq, and, sql, inArray } from "drizzle-orm";
+import { DateUtils } from "./DateUtils";
+import NotificationHelper from "./NotificationHelper";
+import { Role } from "../Types/types";
+
+// 可在交易 (transaction) 內外共用的資料庫操作介面
+type DbExecutor = Pick<typeof dbClient, "select" | "insert" | "update" | "delete">;
+
+export class NoShowDetector {
+  // 上班打卡時段在班次開始後 30 分鐘結束（與 POST /attendance/check 一致）
+  static readonly CHECK_IN_GRACE_MINUTES = 30;
+
+  /**
+   * 找出上班打卡時段已結束但仍未打卡的已確認打工者，建立未到班記錄並通知企業
+   * 只檢查今天與前一天的班次，已有待審核補登申請的班次不列入
+   * @returns 新建立的未到班記錄數量
+   */
+  static async detectNoShows(): Promise<number> {
+    const today = DateUtils.getCurrentDate();
+    const yesterday = DateUtils.addDays(today, -1);
+    const now = DateUtils.getCurrentDateTime().format("YYYY-MM-DD HH:mm:ss");
+
+    const candidates = await dbClient
+      .select({
+        applicationId: gigApplications.applicationId,
+        gigId: gigApplications.gigId,
+        workerId: gigApplications.workerId,
+        workDate: gigShifts.workDate,
+        gigTitle: gigs.title,
+        employerId: gigs.employerId,
+        firstName: workers.firstName,
+        lastName: workers.lastName,
+      })
+      .from(gigApplications)
+      .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+      .innerJoin(workers, eq(gigApplications.workerId, workers.workerId))
+      .innerJoin(gigShifts, eq(gigShifts.gigId, gigApplications.gigId))
+      .where(and(
+        eq(gigApplications.status, "worker_confirmed"),
+        eq(gigs.isActive, true),
+        inArray(gigShifts.workDate, [yesterday, today]),
+        sql`${gigShifts.workDate} + ${gigShifts.timeStart}::time + make_interval(mins => ${this.CHECK_IN_GRACE_MINUTES}) < ${now}::timestamp`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${attendanceRecords}
+          WHERE ${attendanceRecords.gigId} = ${gigApplications.gigId}
+            AND ${attendanceRecords.workerId} = ${gigApplications.workerId}
+            AND ${attendanceRecords.workDate} = ${gigShifts.workDate}
+            AND ${attendanceRecords.checkType} = 'check_in'
+            AND ${attendanceRecords.reviewStatus} <> 'rejected'
+        )`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${attendanceCorrections}
+          WHERE ${attendanceCorrections.gigId} = ${gigApplications.gigId}
+            AND ${attendanceCorrections.workerId} = ${gigApplications.workerId}
+            AND ${attendanceCorrections.workDate} = ${gigShifts.workDate}
+            AND ${attendanceCorrections.checkType} = 'check_in'
+            AND ${attendanceCorrections.status} = 'pending'
+        )`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${noShowRecords}
+          WHERE ${noShowRecords.gigId} = ${gigApplications.gigId}
+            AND ${noShowRecords.workerId} = ${gigApplications.workerId}
+            AND ${noShowRecords.workDate} = ${gigShifts.workDate}
+        )`
+      ));
+
+    if (candidates.length === 0) {
+      return 0;
+    }
+
+    const inserted = await dbClient
+      .insert(noShowRecords)
+      .values(candidates.map(candidate => ({
+        gigId: candidate.gigId,
+        workerId: candidate.workerId,
+        applicationId: candidate.applicationId,
+        workDate: candidate.workDate,
+      })))
+      .onConflictDoNothing()
+      .returning({ applicationId: noShowRecords.applicationId, workDate: noShowRecords.workDate });
+
+    const insertedKeys = new Set(inserted.map(record => `${record.applicationId}:${record.workDate}`));
+
+    for (const candidate of candidates) {
+      if (!insertedKeys.has(`${candidate.applicationId}:${candidate.workDate}`)) {
+        continue;
+      }
+
+      await NotificationHelper.notifyEmployerWorkerNoShow(
+        candidate.employerId,
+        Role.EMPLOYER,
+        `${candidate.firstName} ${candidate.lastName}`,
+        candidate.gigTitle,
+        candidate.workDate,
+        candidate.gigId,
+      );
+    }
+
+    return inserted.length;
+  }
+
+  /**
+   * 補登上班打卡核准後，移除該班次的未到班記錄
+   */
+  static async clearNoShow(executor: DbExecutor, gigId: string, workerId: string, workDate: string): Promise<void> {
+    await executor
+      .delete(noShowRecords)
+      .where(and(
+        eq(noShowRecords.gigId, gigId),
+        eq(noShowRecords.workerId, workerId),
+        eq(noShowRecords.workDate, workDate)
+      ));
+  }
+}
+
+export default NoShowDetector;
@@ -1,12 +1,16 @@
 import dbClient from "../Client/DrizzleClient.ts";
-import { notifications, workers, employers, admins } from "../Schema/DatabaseSchema.ts";
+import { notifications, workers, employers, admins, deferredNotifications } from "../Schema/DatabaseSchema.ts";
 import FCMClient from "../Client/FCMClient.ts";
-import { eq } from "drizzle-orm";
+import { eq, lte, asc, inArray } from "drizzle-orm";
 import type { FCMTokenData } from "../Client/FCMClient";
 import { Role } from "../Types/types";
+import RealtimeEvents from "./RealtimeEvents";
+import NotificationPreferences from "./NotificationPreferences";
+import { EmailTemplates, type NotificationEmail } from "./EmailTemplates";
+import DeliveryQueue from "./DeliveryQueue";
 
 // 通知類型定義
-export type NotificationType = "application" | "rating" | "account" | "system";
+export type NotificationType = "application" | "application_message" | "rating" | "account" | "attendance" | "system" | "gig_alert";
 
 interface NotificationParams {
   receiverId: string;
@@ -20,19 +24,37 @@ interface NotificationParamsWithRole extends NotificationParams {
   userRole: Role;
 }
 
+interface NotificationDeliveryOptions {
+  // 重要事件的郵件內容；沒有提供時不寄送郵件
+  email?: NotificationEmail;
+  // 接收者開啟每日摘要時，此郵件改由摘要彙整，不單獨寄送
+  digestible?: boolean;
+  // false 時不建立站內通知，只依偏好推播與寄送郵件
+  inApp?: boolean;
+  // 未建立站內通知時，推播與郵件使用的冪等鍵
+  idempotencyKey?: string;
+}
+
 class NotificationHelper {
 
   /**
-   * 發送 FCM 推播通知
+   * 發送 FCM 推播通知（排入發送佇列，由背景工作發送與重試）
+   * @param idempotencyKey 冪等鍵，重複呼叫時只會推播一次
    */
   static async sendPushNotification(
     userId: string,
     userRole: Role,
     title: string,
     message: string,
-    data?: Record<string, string>
+    data?: Record<string, string>,
+    idempotencyKey?: string,
   ): Promise<boolean> {
     try {
+      if (!FCMClient.isEnabled()) {
+        console.warn("Firebase Admin SDK 未初始化，無法發送推播");
+        return false;
+      }
+
       let userData: any = null;
 
       if (userRole === Role.WORKER) {
@@ -71,17 +93,8 @@ class NotificationHelper {
         return true;
       }
 
-      const notification = {
-        title,
-        body: message,
-      };
-
-      if (tokenStrings.length === 1) {
-        return await FCMClient.sendToToken(tokenStrings[0], notification, data);
-      } else {
-        const result = await FCMClient.sendToMultipleTokens(tokenStrings, notification, data);
-        return result.successCount > 0;
-      }
+      await DeliveryQueue.enqueue({ kind: "push", tokens: tokenStrings, title, body: message, data }, idempotencyKey);
+      return true;
     } catch (error) {
       console.error("發送推播通知失敗:", error);
       return false;
@@ -90,80 +103,109 @@ class NotificationHelper {
 
   /**
    * 發送推播給指定用戶群組
+   * 略過關閉此類型推播的用戶；勿擾時段內的用戶延後到時段結束後發送
    */
   static async sendPushToUserGroup(
     userRoles: Role | Role[],
     title: string,
     message: string,
-    data?: Record<string, string>
+    type: NotificationType,
+    resourceId?: string,
   ): Promise<void> {
     try {
-      const allTokens: string[] = [];
+      if (!FCMClient.isEnabled()) {
+        console.warn("Firebase Admin SDK 未初始化，無法發送推播");
+        return;
+      }
+
       const roles = Array.isArray(userRoles) ? userRoles : [userRoles];
-      const queryPromises = [];
-      
+      const recipients: Array<{ userId: string; role: Role; fcmTokens: unknown }> = [];
+
       if (roles.includes(Role.WORKER)) {
-        queryPromises.push(
-          dbClient.query.workers.findMany({
-            columns: { fcmTokens: true },
-          })
-        );
+        const rows = await dbClient.query.workers.findMany({
+          columns: { workerId: true, fcmTokens: true },
+        });
+        recipients.push(...rows.map(row => ({ userId: row.workerId, role: Role.WORKER, fcmTokens: row.fcmTokens })));
       }
-      
+
       if (roles.includes(Role.EMPLOYER)) {
-        queryPromises.push(
-          dbClient.query.employers.findMany({
-            columns: { fcmTokens: true },
-          })
-        );
+        const rows = await dbClient.query.employers.findMany({
+          columns: { employerId: true, fcmTokens: true },
+        });
+        recipients.push(...rows.map(row => ({ userId: row.employerId, role: Role.EMPLOYER, fcmTokens: row.fcmTokens })));
       }
-      
+
       if (roles.includes(Role.ADMIN)) {
-        queryPromises.push(
-          dbClient.query.admins.findMany({
-            columns: { fcmTokens: true },
-          })
-        );
+        const rows = await dbClient.query.admins.findMany({
+          columns: { adminId: true, fcmTokens: true },
+        });
+        recipients.push(...rows.map(row => ({ userId: row.adminId, role: Role.ADMIN, fcmTokens: row.fcmTokens })));
       }
 
-      if (queryPromises.length === 0) {
+      if (recipients.length === 0) {
         console.log('沒有指定有效的用戶角色');
         return;
       }
 
-      const results = await Promise.all(queryPromises);
+      const allTokens: string[] = [];
+      let deferredCount = 0;
+      const PREFERENCE_BATCH_SIZE = 1000;
+
+      for (let i = 0; i < recipients.length; i += PREFERENCE_BATCH_SIZE) {
+        const batch = recipients.slice(i, i + PREFERENCE_BATCH_SIZE);
+        const preferences = await NotificationPreferences.getMany(batch.map(recipient => recipient.userId));
+        const deferred: (typeof deferredNotifications.$inferInsert)[] = [];
+
+        for (const recipient of batch) {
+          const preference = preferences.get(recipient.userId);
+
+          if (!recipient.fcmTokens || !preference?.channels[type].push) {
+            continue;
+          }
 
-      for (const userGroup of results) {
-        for (const user of userGroup) {
-          if (user.fcmTokens) {
-            const tokens: FCMTokenData[] = typeof user.fcmTokens === 'string' 
-              ? JSON.parse(user.fcmTokens) 
-              : user.fcmTokens;
-            const tokenStrings = tokens.map(tokenData => tokenData.token);
-            allTokens.push(...tokenStrings);
+          const quietHoursEnd = NotificationPreferences.getQuietHoursEnd(preference.quietHours);
+
+          if (quietHoursEnd) {
+            deferred.push({
+              receiverId: recipient.userId,
+              receiverRole: recipient.role,
+              channel: "push",
+              title,
+              message,
+              type,
+              resourceId: resourceId ?? null,
+              deliverAfter: quietHoursEnd.toDate(),
+            });
+            continue;
           }
+
+          const tokens: FCMTokenData[] = typeof recipient.fcmTokens === 'string'
+            ? JSON.parse(recipient.fcmTokens)
+            : recipient.fcmTokens as FCMTokenData[];
+          allTokens.push(...tokens.map(tokenData => tokenData.token));
+        }
+
+        if (deferred.length > 0) {
+          await dbClient.insert(deferredNotifications).values(deferred);
+          deferredCount += deferred.length;
         }
       }
 
       if (allTokens.length === 0) {
-        console.log(`沒有可用的 FCM tokens 用於 ${roles.join(', ')} 群組推播`);
+        console.log(`沒有可立即推播的 FCM tokens 用於 ${roles.join(', ')} 群組推播（延後 ${deferredCount} 位）`);
         return;
       }
 
-      const notification = {
-        title,
-        body: message,
-      };
-
-      // 分批發送以避免超過 FCM 限制 (每次最多 500 個 tokens)
+      // 分批排入以避免超過 FCM 限制 (每次最多 500 個 tokens)
       const FCM_BATCH_SIZE = 500;
+      const data = { type, resourceId: resourceId || "" };
 
       for (let i = 0; i < allTokens.length; i += FCM_BATCH_SIZE) {
         const tokenBatch = allTokens.slice(i, i + FCM_BATCH_SIZE);
-        await FCMClient.sendToMultipleTokens(tokenBatch, notification, data);
+        await DeliveryQueue.enqueue({ kind: "push", tokens: tokenBatch, title, body: message, data });
       }
-      
-      console.log(`成功發送推播給 ${roles.join(', ')} 群組，共 ${allTokens.length} 個設備`);
+
+      console.log(`已排入推播給 ${roles.join(', ')} 群組，共 ${allTokens.length} 個設備，勿擾時段延後 ${deferredCount} 位`);
     } catch (error) {
       const roles = Array.isArray(userRoles) ? userRoles : [userRoles];
       console.error(`發送推播給 ${roles.join(', ')} 群組失敗:`, error);
@@ -171,28 +213,128 @@ class NotificationHelper {
   }
 
   /**
-   * 建立單一通知
+   * 將新通知推送到接收者的即時事件串流
+   */
+  private static async publishRealtime(created: (typeof notifications.$inferSelect)[]): Promise<void> {
+    await Promise.all(created.map(notification =>
+      RealtimeEvents.publish([notification.receiverId], "notification", {
+        notificationId: notification.notificationId,
+        title: notification.title,
+        message: notification.message,
+        type: notification.type,
+        resourceId: notification.resourceId,
+        createdAt: notification.createdAt,
+      })
+    ));
+  }
+
+  /**
+   * 發送通知郵件（收件地址為使用者帳號的電子郵件，排入發送佇列）
+   * @param idempotencyKey 冪等鍵，重複呼叫時只會寄送一次
+   */
+  static async sendEmailNotification(
+    userId: string,
+    userRole: Role,
+    email: NotificationEmail,
+    idempotencyKey?: string,
+  ): Promise<boolean> {
+    try {
+      let userData: { email: string } | undefined;
+
+      if (userRole === Role.WORKER) {
+        userData = await dbClient.query.workers.findFirst({
+          where: eq(workers.workerId, userId),
+          columns: { email: true },
+        });
+      } else if (userRole === Role.EMPLOYER) {
+        userData = await dbClient.query.employers.findFirst({
+          where: eq(employers.employerId, userId),
+          columns: { email: true },
+        });
+      } else if (userRole === Role.ADMIN) {
+        userData = await dbClient.query.admins.findFirst({
+          where: eq(admins.adminId, userId),
+          columns: { email: true },
+        });
+      }
+
+      if (!userData) {
+        return false;
+      }
+
+      await DeliveryQueue.enqueue({
+        kind: "email",
+        to: userData.email,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      }, idempotencyKey);
+      return true;
+    } catch (error) {
+      console.error("發送通知郵件失敗:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 建立單一通知，依接收者的通知偏好決定站內通知、推播與郵件
+   * sendPush 表示此通知是否需要推播，有提供郵件內容的重要事件才會寄送郵件
+   * 勿擾時段內的推播與郵件會延後到時段結束後發送
    */
-  static async create(params: NotificationParamsWithRole | NotificationParams, sendPush: boolean): Promise<boolean> {
+  static async create(
+    params: NotificationParamsWithRole | NotificationParams,
+    sendPush: boolean,
+    options: NotificationDeliveryOptions = {},
+  ): Promise<boolean> {
     try {
+      const preferences = await NotificationPreferences.get(params.receiverId);
+      const channels = preferences.channels[params.type];
+      const inApp = channels.inApp && options.inApp !== false;
+
       if ('userRole' in params) {
         const { userRole, ...notificationData } = params;
-        await dbClient.insert(notifications).values(notificationData);
 
-        if (sendPush) {
-          await this.sendPushNotification(
+        let notificationId: string | undefined;
+
+        if (inApp) {
+          const [notification] = await dbClient.insert(notifications).values(notificationData).returning();
+          await this.publishRealtime([notification]);
+          notificationId = notification.notificationId;
+        }
+
+        const push = sendPush && channels.push;
+        const email = channels.email && !(options.digestible && preferences.emailDigest)
+          ? options.email ?? null
+          : null;
+        const quietHoursEnd = NotificationPreferences.getQuietHoursEnd(preferences.quietHours);
+
+        if ((push || email) && quietHoursEnd) {
+          await dbClient.insert(deferredNotifications).values([
+            ...(push ? [{ channel: "push" as const, emailContent: null }] : []),
+            ...(email ? [{ channel: "email" as const, emailContent: email }] : []),
+          ].map(delivery => ({
+            ...delivery,
+            receiverId: params.receiverId,
+            receiverRole: userRole,
+            title: params.title,
+            message: params.message,
+            type: params.type,
+            resourceId: params.resourceId ?? null,
+            deliverAfter: quietHoursEnd.toDate(),
+          })));
+        } else {
+          await this.deliver(
             params.receiverId,
             userRole,
-            params.title,
-            params.message,
-            {
-              type: params.type,
-              resourceId: params.resourceId || "",
-            }
+            params,
+            push,
+            email,
+            notificationId ? `notification:${notificationId}` : options.idempotencyKey
           );
         }
-      } else {
-        await dbClient.insert(notifications).values(params);
+      } else if (inApp) {
+        const [notification] = await dbClient.insert(notifications).values(params).returning();
+        await this.publishRealtime([notification]);
       }
 
       return true;
@@ -202,6 +344,71 @@ class NotificationHelper {
     }
   }
 
+  /**
+   * 透過推播與郵件管道發送通知
+   * @param idempotencyKey 此則通知的冪等鍵，各管道再加上管道名稱
+   */
+  private static async deliver(
+    receiverId: string,
+    userRole: Role,
+    content: { title: string; message: string; type: string; resourceId?: string | null },
+    push: boolean,
+    email: NotificationEmail | null,
+    idempotencyKey?: string,
+  ): Promise<void> {
+    if (push) {
+      await this.sendPushNotification(
+        receiverId,
+        userRole,
+        content.title,
+        content.message,
+        {
+          type: content.type,
+          resourceId: content.resourceId || "",
+        },
+        idempotencyKey && `${idempotencyKey}:push`
+      );
+    }
+
+    if (email) {
+      await this.sendEmailNotification(receiverId, userRole, email, idempotencyKey && `${idempotencyKey}:email`);
+    }
+  }
+
+  /**
+   * 發送勿擾時段結束、已到發送時間的延後通知
+   * @returns 發送的通知數量
+   */
+  static async deliverDeferred(): Promise<number> {
+    const due = await dbClient
+      .select()
+      .from(deferredNotifications)
+      .where(lte(deferredNotifications.deliverAfter, new Date()))
+      .orderBy(asc(deferredNotifications.createdAt));
+
+    if (due.length === 0) {
+      return 0;
+    }
+
+    // 先排入發送佇列再刪除；中途失敗時下次會再排入，冪等鍵避免重複發送
+    for (const item of due) {
+      await this.deliver(
+        item.receiverId,
+        item.receiverRole as Role,
+        item,
+        item.channel === "push",
+        item.channel === "email" ? item.emailContent : null,
+        `deferred:${item.deliveryId}`
+      );
+    }
+
+    await dbClient
+      .delete(deferredNotifications)
+      .where(inArray(deferredNotifications.deliveryId, due.map(item => item.deliveryId)));
+
+    return due.length;
+  }
+
   /**
    * 批量建立通知
    */
@@ -216,9 +423,17 @@ class NotificationHelper {
       
       // 序列處理批次
       for (let i = 0; i < receiverIds.length; i += BATCH_SIZE) {
-        const batch = receiverIds.slice(i, i + BATCH_SIZE);
+        // 略過關閉此類型站內通知的接收者
+        const preferences = await NotificationPreferences.getMany(receiverIds.slice(i, i + BATCH_SIZE));
+        const batch = [...preferences].filter(([, preference]) => preference.channels[params.type].inApp).map(([receiverId]) => receiverId);
+
+        if (batch.length === 0) {
+          continue;
+        }
+
         const data = batch.map(receiverId => ({ receiverId, ...params }));
-        await dbClient.insert(notifications).values(data);
+        const inserted = await dbClient.insert(notifications).values(data).returning();
+        await this.publishRealtime(inserted);
         
         // 如果還有更多批次，稍微等待避免壓力過大
         if (i + BATCH_SIZE < receiverIds.length) {
@@ -248,24 +463,7 @@ class NotificationHelper {
       message: `${workerName} 申請了您的工作「${gigTitle}」，請及時處理。`,
       type: "application",
       resourceId,
-    }, true);
-  }
-
-  static async notifyApplicationApproved(
-    workerId: string,
-    userRole: Role,
-    gigTitle: string,
-    employerName: string,
-    resourceId: string,
-  ) {
-    return this.create({
-      receiverId: workerId,
-      userRole,
-      title: "工作申請已通過",
-      message: `恭喜！您申請的工作「${gigTitle}」已被 ${employerName} 核准。`,
-      type: "application",
-      resourceId,
-    }, true);
+    }, true, { email: EmailTemplates.generateApplicationReceivedEmail(workerName, gigTitle), digestible: true });
   }
 
   static async notifyApplicationRejected(
@@ -284,7 +482,7 @@ class NotificationHelper {
       message,
       type: "application",
       resourceId,
-    }, true);
+    }, true, { email: EmailTemplates.generateApplicationRejectedEmail(gigTitle, employerName) });
   }
 
   /**
@@ -304,7 +502,7 @@ class NotificationHelper {
       message: `${employerName} 已接受您對「${gigTitle}」的申請，請確認是否接受此工作。`,
       type: "application",
       resourceId,
-    }, true);
+    }, true, { email: EmailTemplates.generateApplicationApprovedEmail(gigTitle, employerName) });
   }
 
   /**
@@ -324,7 +522,7 @@ class NotificationHelper {
       message: `${workerName} 已確認接受工作「${gigTitle}」。`,
       type: "application",
       resourceId,
-    }, true);
+    }, true, { email: EmailTemplates.generateWorkerConfirmedEmail(workerName, gigTitle) });
   }
 
   /**
@@ -344,11 +542,182 @@ class NotificationHelper {
       message: `${workerName} 拒絕接受工作「${gigTitle}」。`,
       type: "application",
       resourceId,
+    }, true, { email: EmailTemplates.generateWorkerDeclinedEmail(workerName, gigTitle) });
+  }
+
+  /**
+   * 通知打工者：名額已滿，申請已列入候補名單
+   */
+  static async notifyWorkerWaitlisted(
+    workerId: string,
+    userRole: Role,
+    gigTitle: string,
+    position: number,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: workerId,
+      userRole,
+      title: "已列入候補名單",
+      message: `「${gigTitle}」目前名額已滿，您的申請已列入候補第 ${position} 位，有名額時將自動通知您。`,
+      type: "application",
+      resourceId,
     }, true);
   }
 
   /**
-   * 通知打工者：申請因時間衝突被系統自動取消
+   * 通知打工者：候補遞補成功，請確認是否接受工作
+   */
+  static async notifyWaitlistPromoted(
+    workerId: string,
+    userRole: Role,
+    gigTitle: string,
+    employerName: string,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: workerId,
+      userRole,
+      title: "候補遞補成功",
+      message: `${employerName} 的工作「${gigTitle}」有名額釋出，您已從候補名單遞補，請確認是否接受此工作。`,
+      type: "application",
+      resourceId,
+    }, true, { email: EmailTemplates.generateApplicationApprovedEmail(gigTitle, employerName) });
+  }
+
+  /**
+   * 通知對方：申請的對話中有新訊息（只推播，不建立站內通知）
+   */
+  static async notifyApplicationMessage(
+    receiverId: string,
+    userRole: Role,
+    title: string,
+    preview: string,
+    applicationId: string,
+    messageId: string,
+  ) {
+    return this.create({
+      receiverId,
+      userRole,
+      title,
+      message: preview,
+      type: "application_message",
+      resourceId: applicationId,
+    }, true, { inApp: false, idempotencyKey: `message:${messageId}` });
+  }
+
+  /**
+   * 通知打工者：收到商家的工作邀請
+   */
+  static async notifyWorkerInvited(
+    workerId: string,
+    userRole: Role,
+    gigTitle: string,
+    employerName: string,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: workerId,
+      userRole,
+      title: "收到工作邀請",
+      message: `${employerName} 邀請您參加工作「${gigTitle}」，請查看並回覆。`,
+      type: "application",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知企業：打工者回覆工作邀請
+   */
+  static async notifyEmployerInvitationResponded(
+    employerId: string,
+    userRole: Role,
+    workerName: string,
+    gigTitle: string,
+    accepted: boolean,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: employerId,
+      userRole,
+      title: accepted ? "打工者已接受邀請" : "打工者已拒絕邀請",
+      message: accepted
+        ? `${workerName} 已接受工作「${gigTitle}」的邀請，並確認上班。`
+        : `${workerName} 已拒絕工作「${gigTitle}」的邀請。`,
+      type: "application",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知企業：打工者在確認後取消工作，名額由候補遞補或需要重新招募
+   */
+  static async notifyEmployerWorkerWithdrew(
+    employerId: string,
+    userRole: Role,
+    workerName: string,
+    gigTitle: string,
+    isLate: boolean,
+    promoted: boolean,
+    resourceId: string,
+  ) {
+    const lateText = isLate ? "（臨時取消）" : "";
+    const followUp = promoted
+      ? "已由候補名單遞補，請等待新的打工者確認。"
+      : "目前沒有候補人選，建議重新刊登或邀請其他打工者。";
+
+    return this.create({
+      receiverId: employerId,
+      userRole,
+      title: isLate ? "打工者臨時取消工作" : "打工者取消工作",
+      message: `${workerName} 已取消工作「${gigTitle}」${lateText}。${followUp}`,
+      type: "application",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知打工者：有新工作符合儲存的搜尋條件
+   */
+  static async notifyWorkerSavedSearchMatched(
+    workerId: string,
+    userRole: Role,
+    searchName: string,
+    gigTitle: string,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: workerId,
+      userRole,
+      title: "有新工作符合您的搜尋條件",
+      message: `工作「${gigTitle}」符合您儲存的搜尋「${searchName}」，快去看看吧！`,
+      type: "gig_alert",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知打工者：儲存的搜尋條件每日摘要
+   */
+  static async notifyWorkerSavedSearchDigest(
+    workerId: string,
+    userRole: Role,
+    searchName: string,
+    matchCount: number,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: workerId,
+      userRole,
+      title: "今日新工作摘要",
+      message: `過去一天有 ${matchCount} 個新工作符合您儲存的搜尋「${searchName}」。`,
+      type: "gig_alert",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知打工者：申請被系統自動取消（例如時間衝突或工作已結束）
    */
   static async notifyWorkerSystemCancelled(
     workerId: string,
@@ -388,6 +757,92 @@ class NotificationHelper {
     }, true);
   }
 
+  /**
+   * 通知企業：打工者的定位打卡超出範圍，需要審核
+   */
+  static async notifyEmployerAttendanceFlagged(
+    employerId: string,
+    userRole: Role,
+    workerName: string,
+    gigTitle: string,
+    distanceMeters: number,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: employerId,
+      userRole,
+      title: "打卡需要審核",
+      message: `${workerName} 在「${gigTitle}」的定位打卡距離工作地點 ${distanceMeters} 公尺，超出允許範圍，請審核。`,
+      type: "system",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知企業：打工者提出打卡補登申請
+   */
+  static async notifyEmployerCorrectionRequested(
+    employerId: string,
+    userRole: Role,
+    workerName: string,
+    gigTitle: string,
+    workDate: string,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: employerId,
+      userRole,
+      title: "收到打卡補登申請",
+      message: `${workerName} 對「${gigTitle}」${workDate} 的打卡提出補登申請，請審核。`,
+      type: "attendance",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知打工者：打卡補登申請審核結果
+   */
+  static async notifyWorkerCorrectionReviewed(
+    workerId: string,
+    userRole: Role,
+    gigTitle: string,
+    workDate: string,
+    approved: boolean,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: workerId,
+      userRole,
+      title: approved ? "打卡補登申請已核准" : "打卡補登申請未通過",
+      message: approved
+        ? `您對「${gigTitle}」${workDate} 的打卡補登申請已核准，打卡記錄已更新。`
+        : `很抱歉，您對「${gigTitle}」${workDate} 的打卡補登申請未通過。`,
+      type: "attendance",
+      resourceId,
+    }, true);
+  }
+
+  /**
+   * 通知企業：已確認的打工者未在上班打卡時段內打卡
+   */
+  static async notifyEmployerWorkerNoShow(
+    employerId: string,
+    userRole: Role,
+    workerName: string,
+    gigTitle: string,
+    workDate: string,
+    resourceId: string,
+  ) {
+    return this.create({
+      receiverId: employerId,
+      userRole,
+      title: "打工者未到班",
+      message: `${workerName} 未在「${gigTitle}」${workDate} 的上班打卡時段內打卡，已記錄為未到班。`,
+      type: "attendance",
+      resourceId,
+    }, true);
+  }
+
   static async notifyRatingReceived(
     receiverId: string,
     userRole: Role,
@@ -402,7 +857,7 @@ class NotificationHelper {
       message: `${raterName} 給了您 ${ratingValue} 星評價，快去查看吧！`,
       type: "rating",
       resourceId,
-    }, true);
+    }, true, { email: EmailTemplates.generateRatingReceivedEmail(raterName, ratingValue) });
   }
 
   static async notifyAccountApproved(userId: string, userRole: Role, accountName: string) {
@@ -413,7 +868,7 @@ class NotificationHelper {
       message: `恭喜！您的帳戶「${accountName}」已通過審核，現在可以開始使用所有功能。`,
       type: "account",
       resourceId: userId,
-    }, true);
+    }, true, { email: EmailTemplates.generateAccountApprovedEmail(accountName) });
   }
 
   static async notifyAccountRejected(userId: string, userRole: Role, accountName: string, reason: string) {
@@ -426,7 +881,7 @@ class NotificationHelper {
       message,
       type: "account",
       resourceId: userId,
-    }, true);
+    }, true, { email: EmailTemplates.generateAccountRejectedEmail(accountName, reason) });
   }
 
   static async notifyUserWelcome(userId: string, userName: string, userType: "worker" | "employer") {
@@ -0,0 +1,149 @@
+import dbClient from "../Client/DrizzleClient";
+import { notificationPreferences } from "../Schema/DatabaseSchema";
+import { eq, inArray, sql } from "drizzle-orm";
+import type moment from "moment";
+import { DateUtils } from "./DateUtils";
+import type { NotificationType } from "./NotificationHelper";
+
+export interface ChannelSettings {
+  inApp: boolean;
+  push: boolean;
+  email: boolean;
+}
+
+// 台北時間 HH:mm，結束時間早於開始時間表示跨午夜
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface ResolvedNotificationPreferences {
+  channels: Record<NotificationType, ChannelSettings>;
+  quietHours: QuietHours | null;
+  // 商家：新申請改以每日摘要郵件寄送（須同時開啟申請類郵件）
+  emailDigest: boolean;
+}
+
+export interface NotificationPreferencesInput {
+  channels?: Partial<Record<NotificationType, Partial<ChannelSettings>>>;
+  // null 表示取消勿擾時段
+  quietHours?: QuietHours | null;
+  emailDigest?: boolean;
+}
+
+export class NotificationPreferences {
+  static readonly NOTIFICATION_TYPES: NotificationType[] = [
+    "application",
+    "application_message",
+    "rating",
+    "account",
+    "attendance",
+    "system",
+    "gig_alert",
+  ];
+
+  // 未設定時的預設值：站內通知與推播開啟，郵件須由使用者自行開啟
+  // 推播仍須該通知本身需要推播；郵件只會寄送有郵件範本的重要事件（申請、評價、帳戶審核）
+  static readonly DEFAULT_CHANNELS: ChannelSettings = { inApp: true, push: true, email: false };
+
+  private static resolve(row?: typeof notificationPreferences.$inferSelect): ResolvedNotificationPreferences {
+    const channels = Object.fromEntries(
+      this.NOTIFICATION_TYPES.map(type => [type, { ...this.DEFAULT_CHANNELS, ...row?.channels?.[type] }])
+    ) as Record<NotificationType, ChannelSettings>;
+
+    return {
+      channels,
+      quietHours: row?.quietHoursStart && row?.quietHoursEnd
+        ? { start: row.quietHoursStart, end: row.quietHoursEnd }
+        : null,
+      emailDigest: row?.emailDigest ?? false,
+    };
+  }
+
+  /**
+   * 獲取使用者的通知偏好（未設定的部分以預設值補齊）
+   */
+  static async get(userId: string): Promise<ResolvedNotificationPreferences> {
+    const row = await dbClient.query.notificationPreferences.findFirst({
+      where: eq(notificationPreferences.userId, userId),
+    });
+
+    return this.resolve(row);
+  }
+
+  /**
+   * 批次獲取多位使用者的通知偏好
+   */
+  static async getMany(userIds: string[]): Promise<Map<string, ResolvedNotificationPreferences>> {
+    const rows = userIds.length > 0
+      ? await dbClient.query.notificationPreferences.findMany({
+        where: inArray(notificationPreferences.userId, userIds),
+      })
+      : [];
+    const rowsByUser = new Map(rows.map(row => [row.userId, row]));
+
+    return new Map(userIds.map(userId => [userId, this.resolve(rowsByUser.get(userId))]));
+  }
+
+  /**
+   * 更新通知偏好：只覆寫有提供的類型與管道
+   */
+  static async update(userId: string, input: NotificationPreferencesInput): Promise<ResolvedNotificationPreferences> {
+    const existing = await dbClient.query.notificationPreferences.findFirst({
+      where: eq(notificationPreferences.userId, userId),
+    });
+
+    const channels = { ...existing?.channels };
+
+    for (const [type, settings] of Object.entries(input.channels ?? {})) {
+      channels[type] = { ...channels[type], ...settings };
+    }
+
+    const quietHours = input.quietHours === undefined
+      ? { quietHoursStart: existing?.quietHoursStart ?? null, quietHoursEnd: existing?.quietHoursEnd ?? null }
+      : { quietHoursStart: input.quietHours?.start ?? null, quietHoursEnd: input.quietHours?.end ?? null };
+
+    const emailDigest = input.emailDigest ?? existing?.emailDigest ?? false;
+
+    const [row] = await dbClient
+      .insert(notificationPreferences)
+      .values({ userId, channels, ...quietHours, emailDigest })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { channels, ...quietHours, emailDigest, updatedAt: sql`now()` },
+      })
+      .returning();
+
+    return this.resolve(row);
+  }
+
+  /**
+   * 目前是否在勿擾時段內
+   * @returns 勿擾時段的結束時間；不在勿擾時段內時回傳 null
+   */
+  static getQuietHoursEnd(
+    quietHours: QuietHours | null,
+    now: moment.Moment = DateUtils.getCurrentDateTime(),
+  ): moment.Moment | null {
+    if (!quietHours || quietHours.start === quietHours.end) {
+      return null;
+    }
+
+    const current = now.format("HH:mm");
+    const [endHour, endMinute] = quietHours.end.split(":").map(Number);
+    const end = now.clone().hour(endHour).minute(endMinute).second(0).millisecond(0);
+
+    if (!DateUtils.isOvernight(quietHours.start, quietHours.end)) {
+      return current >= quietHours.start && current < quietHours.end ? end : null;
+    }
+
+    // 跨午夜：開始時間之後於隔天結束，結束時間之前於當天結束
+    if (current >= quietHours.start) {
+      return end.add(1, "day");
+    }
+
+    return current < quietHours.end ? end : null;
+  }
+}
+
+export default NotificationPreferences;
@@ -0,0 +1,148 @@
+import dbClient from "../Client/DrizzleClient";
+import { attendanceRecords, gigs, payrollRecords } from "../Schema/DatabaseSchema";
+import { eq, and, gte, lte, asc, sql, inArray } from "drizzle-orm";
+import moment from "moment";
+
+export interface PayrollSyncFilters {
+  gigId?: string;
+  workerId?: string;
+  employerId?: string;
+  dateStart?: string;
+  dateEnd?: string;
+}
+
+export class PayrollCalculator {
+  /**
+   * 依工時與時薪計算金額（四捨五入至整數元）
+   */
+  static calculateAmount(workedMinutes: number, hourlyRate: number): number {
+    return Math.round((workedMinutes / 60) * hourlyRate);
+  }
+
+  /**
+   * 計算上下班打卡之間的工時（分鐘）
+   */
+  static calculateWorkedMinutes(checkInAt: Date, checkOutAt: Date): number {
+    return Math.max(0, moment(checkOutAt).diff(moment(checkInAt), "minutes"));
+  }
+
+  /**
+   * 根據打卡記錄同步薪資結算資料
+   * 只會新增或更新待確認 (pending) 的記錄，已核准的記錄不會被覆蓋
+   * @returns 同步的記錄數量
+   */
+  static async syncPayrollRecords(filters: PayrollSyncFilters): Promise<number> {
+    try {
+      // 只計入不需審核或已核准的打卡記錄
+      const whereConditions = [inArray(attendanceRecords.reviewStatus, ["not_required", "approved"])];
+
+      if (filters.gigId) whereConditions.push(eq(attendanceRecords.gigId, filters.gigId));
+      if (filters.workerId) whereConditions.push(eq(attendanceRecords.workerId, filters.workerId));
+      if (filters.employerId) whereConditions.push(eq(gigs.employerId, filters.employerId));
+      if (filters.dateStart) whereConditions.push(gte(attendanceRecords.workDate, filters.dateStart));
+      if (filters.dateEnd) whereConditions.push(lte(attendanceRecords.workDate, filters.dateEnd));
+
+      const records = await dbClient
+        .select({
+          gigId: attendanceRecords.gigId,
+          workerId: attendanceRecords.workerId,
+          workDate: attendanceRecords.workDate,
+          checkType: attendanceRecords.checkType,
+          checkedAt: attendanceRecords.createdAt,
+          hourlyRate: gigs.hourlyRate,
+        })
+        .from(attendanceRecords)
+        .innerJoin(gigs, eq(attendanceRecords.gigId, gigs.gigId))
+        .where(and(...whereConditions))
+        .orderBy(asc(attendanceRecords.createdAt));
+
+      // 以 工作 + 打工者 + 工作日期 配對上下班打卡
+      const pairs = new Map<string, {
+        gigId: string;
+        workerId: string;
+        workDate: string;
+        hourlyRate: number;
+        checkInAt?: Date;
+        checkOutAt?: Date;
+      }>();
+
+      for (const record of records) {
+        const key = `${record.gigId}:${record.workerId}:${record.workDate}`;
+        const pair = pairs.get(key) ?? {
+          gigId: record.gigId,
+          workerId: record.workerId,
+          workDate: record.workDate,
+          hourlyRate: record.hourlyRate,
+        };
+
+        if (record.checkType === "check_in") {
+          pair.checkInAt = record.checkedAt;
+        } else {
+          pair.checkOutAt = record.checkedAt;
+        }
+
+        pairs.set(key, pair);
+      }
+
+      const values = [...pairs.values()]
+        .filter(pair => pair.checkInAt && pair.checkOutAt && pair.checkOutAt > pair.checkInAt)
+        .map(pair => {
+          const workedMinutes = this.calculateWorkedMinutes(pair.checkInAt, pair.checkOutAt);
+          return {
+            gigId: pair.gigId,
+            workerId: pair.workerId,
+            workDate: pair.workDate,
+            checkInAt: pair.checkInAt,
+            checkOutAt: pair.checkOutAt,
+            workedMinutes,
+            hourlyRate: pair.hourlyRate,
+            calculatedAmount: this.calculateAmount(workedMinutes, pair.hourlyRate),
+          };
+        });
+
+      if (values.length === 0) {
+        return 0;
+      }
+
+      await dbClient
+        .insert(payrollRecords)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [payrollRecords.gigId, payrollRecords.workerId, payrollRecords.workDate],
+          set: {
+            checkInAt: sql`excluded.check_in_at`,
+            checkOutAt: sql`excluded.check_out_at`,
+            workedMinutes: sql`excluded.worked_minutes`,
+            hourlyRate: sql`excluded.hourly_rate`,
+            calculatedAmount: sql`excluded.calculated_amount`,
+            updatedAt: sql`now()`,
+          },
+          setWhere: eq(payrollRecords.status, "pending"),
+        });
+
+      return values.length;
+    } catch (error) {
+      console.error("同步薪資結算資料時發生錯誤:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 在背景重新計算薪資結算資料（打卡、打卡審核、補登核准或時薪變更後）
+   * 計算失敗不影響原本的操作
+   */
+  static syncInBackground(filters: PayrollSyncFilters): void {
+    this.syncPayrollRecords(filters).catch((error) => {
+      console.error("背景同步薪資結算資料時出錯:", error);
+    });
+  }
+
+  /**
+   * 實際應付金額：有調整金額時以調整金額為準
+   */
+  static finalAmountSql() {
+    return sql<number>`COALESCE(${payrollRecords.adjustedAmount}, ${payrollRecords.calculatedAmount})`;
+  }
+}
+
+export default PayrollCalculator;
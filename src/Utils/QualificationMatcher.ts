@@ -0,0 +1,133 @@
+import moment from "moment";
+import { DateUtils } from "./DateUtils";
+
+type Education = "高中" | "大學" | "碩士" | "博士";
+type StudyStatus = "就讀中" | "已畢業" | "肄業";
+
+// 工作資格條件（與 zodSchema 中的 gigQualificationSchema 對應）
+export type GigQualification =
+  | { kind: "certificate"; certificate: string; mandatory: boolean }
+  | { kind: "education"; minimum: Education; mandatory: boolean }
+  | { kind: "student_status"; allowed: StudyStatus[]; mandatory: boolean }
+  | { kind: "language"; language: string; mandatory: boolean }
+  | { kind: "age"; min?: number; max?: number; mandatory: boolean };
+
+// 比對資格條件所需的打工者資料
+export interface WorkerQualificationProfile {
+  highestEducation: string | null;
+  studyStatus: string | null;
+  certificates: unknown;
+  languages: unknown;
+  birthDate: string | null;
+}
+
+export interface QualificationCheck {
+  kind: GigQualification["kind"];
+  requirement: string;
+  mandatory: boolean;
+  // 打工者資料不足無法判斷時為 null
+  met: boolean | null;
+}
+
+export interface QualificationMatchResult {
+  meetsAll: boolean;
+  meetsMandatory: boolean;
+  checks: QualificationCheck[];
+}
+
+export class QualificationMatcher {
+  // 學歷高低順序（「其他」無法比較，視為資料不足）
+  private static readonly EDUCATION_RANK: Record<string, number> = {
+    "高中": 1,
+    "大學": 2,
+    "碩士": 3,
+    "博士": 4,
+  };
+
+  /**
+   * 從工作的 requirements 欄位取出資格條件（舊資料沒有此欄位時視為無條件）
+   */
+  static getQualifications(requirements: unknown): GigQualification[] {
+    const qualifications = (requirements as { qualifications?: unknown } | null)?.qualifications;
+    return Array.isArray(qualifications) ? qualifications as GigQualification[] : [];
+  }
+
+  private static toStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+  }
+
+  /**
+   * 資格條件的中文說明
+   */
+  private static describe(qualification: GigQualification): string {
+    switch (qualification.kind) {
+      case "certificate":
+        return `持有${qualification.certificate}駕照`;
+      case "education":
+        return `學歷${qualification.minimum}以上`;
+      case "student_status":
+        return `就學狀態為${qualification.allowed.join("或")}`;
+      case "language":
+        return `會說${qualification.language}`;
+      case "age":
+        if (qualification.min !== undefined && qualification.max !== undefined) {
+          return `年齡 ${qualification.min} 至 ${qualification.max} 歲`;
+        }
+        return qualification.min !== undefined ? `年齡 ${qualification.min} 歲以上` : `年齡 ${qualification.max} 歲以下`;
+    }
+  }
+
+  private static check(
+    qualification: GigQualification,
+    worker: WorkerQualificationProfile,
+    referenceDate: string,
+  ): boolean | null {
+    switch (qualification.kind) {
+      case "certificate":
+        return this.toStringArray(worker.certificates).includes(qualification.certificate);
+      case "education": {
+        const rank = worker.highestEducation ? this.EDUCATION_RANK[worker.highestEducation] : undefined;
+        return rank === undefined ? null : rank >= this.EDUCATION_RANK[qualification.minimum];
+      }
+      case "student_status":
+        return worker.studyStatus ? qualification.allowed.includes(worker.studyStatus as StudyStatus) : null;
+      case "language": {
+        const target = qualification.language.toLowerCase();
+        return this.toStringArray(worker.languages).some(language => language.trim().toLowerCase() === target);
+      }
+      case "age": {
+        if (!worker.birthDate) {
+          return null;
+        }
+        const age = moment(referenceDate).diff(moment(worker.birthDate), "years");
+        return (qualification.min === undefined || age >= qualification.min) &&
+          (qualification.max === undefined || age <= qualification.max);
+      }
+    }
+  }
+
+  /**
+   * 比對打工者是否符合工作的各項資格條件
+   * 年齡以工作開始日計算；資料不足（met 為 null）的必要條件視為不符合
+   */
+  static match(
+    requirements: unknown,
+    worker: WorkerQualificationProfile,
+    referenceDate: string = DateUtils.getCurrentDate(),
+  ): QualificationMatchResult {
+    const checks = this.getQualifications(requirements).map(qualification => ({
+      kind: qualification.kind,
+      requirement: this.describe(qualification),
+      mandatory: qualification.mandatory,
+      met: this.check(qualification, worker, referenceDate),
+    }));
+
+    return {
+      meetsAll: checks.every(check => check.met === true),
+      meetsMandatory: checks.every(check => !check.mandatory || check.met === true),
+      checks,
+    };
+  }
+}
+
+export default QualificationMatcher;
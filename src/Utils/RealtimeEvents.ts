@@ -0,0 +1,96 @@
+import type Redis from "ioredis";
+import redisClient from "../Client/RedisClient";
+
+export type RealtimeEventType = "notification" | "application_status" | "attendance";
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: Record<string, unknown>;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+/**
+ * 即時事件：透過 Redis pub/sub 將事件傳送到使用者連線所在的實例
+ * 每位使用者一個頻道，實例上有連線時才訂閱，最後一個連線關閉時取消訂閱
+ */
+export class RealtimeEvents {
+  private static readonly CHANNEL_PREFIX = "realtime:";
+
+  // 訂閱模式的連線不能執行其他指令，須與 redisClient 分開
+  private static subscriber: Redis | null = null;
+
+  // 頻道 → 本實例上的連線
+  private static readonly listeners = new Map<string, Set<RealtimeListener>>();
+
+  private static channel(userId: string): string {
+    return `${this.CHANNEL_PREFIX}${userId}`;
+  }
+
+  private static getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = redisClient.duplicate();
+
+      this.subscriber.on("error", (error) => {
+        console.error("❌ Redis 即時事件訂閱連線錯誤:", error);
+      });
+
+      this.subscriber.on("message", (channel: string, payload: string) => {
+        const listeners = this.listeners.get(channel);
+
+        if (!listeners) {
+          return;
+        }
+
+        try {
+          const event = JSON.parse(payload) as RealtimeEvent;
+          listeners.forEach(listener => listener(event));
+        } catch (error) {
+          console.error("解析即時事件時出錯:", error);
+        }
+      });
+    }
+
+    return this.subscriber;
+  }
+
+  /**
+   * 發布事件給指定使用者；發布失敗不影響原本的操作
+   */
+  static async publish(userIds: string[], type: RealtimeEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const payload = JSON.stringify({ type, data });
+      await Promise.all([...new Set(userIds)].map(userId => redisClient.publish(this.channel(userId), payload)));
+    } catch (error) {
+      console.error(`發布即時事件 ${type} 時出錯:`, error);
+    }
+  }
+
+  /**
+   * 訂閱使用者的事件
+   * @returns 取消訂閱的函式，連線關閉時呼叫
+   */
+  static async subscribe(userId: string, listener: RealtimeListener): Promise<() => Promise<void>> {
+    const channel = this.channel(userId);
+    let listeners = this.listeners.get(channel);
+
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+      await this.getSubscriber().subscribe(channel);
+    }
+
+    listeners.add(listener);
+
+    return async () => {
+      listeners.delete(listener);
+
+      if (listeners.size === 0 && this.listeners.get(channel) === listeners) {
+        this.listeners.delete(channel);
+        await this.getSubscriber().unsubscribe(channel);
+      }
+    };
+  }
+}
+
+export default RealtimeEvents;
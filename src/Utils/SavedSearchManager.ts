@@ -0,0 +1,146 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, savedSearches, savedSearchMatches, employerBlocks } from "../Schema/DatabaseSchema";
+import { eq, and, or, gte, lte, isNull, inArray, sql } from "drizzle-orm";
+import NotificationHelper from "./NotificationHelper";
+import { DateUtils } from "./DateUtils";
+import { Role } from "../Types/types";
+
+export class SavedSearchManager {
+  // 每位打工者可儲存的搜尋條件上限
+  static readonly MAX_SEARCHES_PER_WORKER = 10;
+
+  /**
+   * 在背景比對工作，不阻塞商家的請求（符合的打工者很多時會逐一發送通知）
+   */
+  static matchGigInBackground(gigId: string): void {
+    this.matchGig(gigId).catch((error) => {
+      console.error(`背景比對工作 ${gigId} 與儲存的搜尋條件時出錯:`, error);
+    });
+  }
+
+  /**
+   * 工作刊登或重新上架時，比對所有儲存的搜尋條件
+   * 即時通知的搜尋直接發送通知，每日摘要的搜尋留待摘要任務彙整
+   * 同一工作對同一搜尋只會記錄（通知）一次；比對失敗不影響工作本身的操作
+   * @returns 新符合的搜尋數量
+   */
+  static async matchGig(gigId: string): Promise<number> {
+    try {
+      const today = DateUtils.getCurrentDate();
+
+      const matchedSearches = await dbClient
+        .select({
+          searchId: savedSearches.searchId,
+          workerId: savedSearches.workerId,
+          name: savedSearches.name,
+          frequency: savedSearches.frequency,
+          gigTitle: gigs.title,
+        })
+        .from(savedSearches)
+        .innerJoin(gigs, eq(gigs.gigId, gigId))
+        .where(and(
+          eq(gigs.isActive, true),
+          sql`(${gigs.unlistedAt} IS NULL OR ${gigs.unlistedAt} >= ${today})`,
+          sql`${gigs.dateEnd} >= COALESCE(${savedSearches.dateStart}, ${today}::date)`,
+          or(isNull(savedSearches.city), eq(savedSearches.city, gigs.city)),
+          or(isNull(savedSearches.district), eq(savedSearches.district, gigs.district)),
+          or(isNull(savedSearches.minRate), gte(gigs.hourlyRate, savedSearches.minRate)),
+          or(isNull(savedSearches.maxRate), lte(gigs.hourlyRate, savedSearches.maxRate)),
+          // 與公開工作列表相同的 PGroonga 關鍵字搜尋
+          sql`(${savedSearches.searchQuery} IS NULL OR ${gigs.title} &@~ ${savedSearches.searchQuery} OR ${gigs.description} &@~ ${savedSearches.searchQuery})`,
+          // 封鎖該打工者的商家所刊登的工作不通知
+          sql`NOT EXISTS (SELECT 1 FROM ${employerBlocks} WHERE ${employerBlocks.employerId} = ${gigs.employerId} AND ${employerBlocks.workerId} = ${savedSearches.workerId})`
+        ));
+
+      if (matchedSearches.length === 0) {
+        return 0;
+      }
+
+      const newMatches = await dbClient
+        .insert(savedSearchMatches)
+        .values(matchedSearches.map(search => ({
+          searchId: search.searchId,
+          gigId,
+          notifiedAt: search.frequency === "instant" ? sql`now()` : null,
+        })))
+        .onConflictDoNothing()
+        .returning({ searchId: savedSearchMatches.searchId });
+
+      const newSearchIds = new Set(newMatches.map(match => match.searchId));
+
+      for (const search of matchedSearches) {
+        if (search.frequency === "instant" && newSearchIds.has(search.searchId)) {
+          await NotificationHelper.notifyWorkerSavedSearchMatched(
+            search.workerId,
+            Role.WORKER,
+            search.name,
+            search.gigTitle,
+            gigId,
+          );
+        }
+      }
+
+      return newMatches.length;
+    } catch (error) {
+      console.error(`比對工作 ${gigId} 與儲存的搜尋條件時出錯:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * 發送每日摘要：彙整尚未通知的符合工作，每個搜尋條件發送一則通知
+   * 已結束或已下架的工作不計入摘要，但同樣標記為已處理
+   * @returns 發送的摘要數量
+   */
+  static async sendDailyDigests(): Promise<number> {
+    const today = DateUtils.getCurrentDate();
+
+    const pendingMatches = await dbClient
+      .select({
+        matchId: savedSearchMatches.matchId,
+        searchId: savedSearches.searchId,
+        workerId: savedSearches.workerId,
+        name: savedSearches.name,
+        isAvailable: sql<boolean>`(${gigs.isActive} AND ${gigs.dateEnd} >= ${today} AND (${gigs.unlistedAt} IS NULL OR ${gigs.unlistedAt} >= ${today}))`,
+      })
+      .from(savedSearchMatches)
+      .innerJoin(savedSearches, eq(savedSearchMatches.searchId, savedSearches.searchId))
+      .innerJoin(gigs, eq(savedSearchMatches.gigId, gigs.gigId))
+      .where(isNull(savedSearchMatches.notifiedAt));
+
+    if (pendingMatches.length === 0) {
+      return 0;
+    }
+
+    const digests = new Map<string, { workerId: string; name: string; matchCount: number }>();
+
+    for (const match of pendingMatches) {
+      if (!match.isAvailable) {
+        continue;
+      }
+
+      const digest = digests.get(match.searchId) ?? { workerId: match.workerId, name: match.name, matchCount: 0 };
+      digest.matchCount += 1;
+      digests.set(match.searchId, digest);
+    }
+
+    await dbClient
+      .update(savedSearchMatches)
+      .set({ notifiedAt: sql`now()` })
+      .where(inArray(savedSearchMatches.matchId, pendingMatches.map(match => match.matchId)));
+
+    for (const [searchId, digest] of digests) {
+      await NotificationHelper.notifyWorkerSavedSearchDigest(
+        digest.workerId,
+        Role.WORKER,
+        digest.name,
+        digest.matchCount,
+        searchId,
+      );
+    }
+
+    return digests.size;
+  }
+}
+
+export default SavedSearchManager;
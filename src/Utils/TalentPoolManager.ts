@@ -0,0 +1,169 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, gigApplications, workerRatings, talentPoolEntries, workers, attendanceRecords, noShowRecords } from "../Schema/DatabaseSchema";
+import { eq, and, ne, desc, inArray, sql } from "drizzle-orm";
+import WorkerReliability from "./WorkerReliability";
+
+export interface TalentPoolFilters {
+  // 最低平均評分（1 ~ 5）
+  minRating?: number;
+  // 最低出勤率（0 ~ 100）
+  minAttendanceRate?: number;
+  tag?: string;
+}
+
+export class TalentPoolManager {
+  /**
+   * 檢查商家是否曾與打工者合作（有確認的申請）或評價過該打工者
+   */
+  static async hasWorkedWith(employerId: string, workerId: string): Promise<boolean> {
+    const rating = await dbClient.query.workerRatings.findFirst({
+      where: and(
+        eq(workerRatings.employerId, employerId),
+        eq(workerRatings.workerId, workerId)
+      ),
+      columns: { ratingId: true },
+    });
+
+    if (rating) {
+      return true;
+    }
+
+    const [application] = await dbClient
+      .select({ applicationId: gigApplications.applicationId })
+      .from(gigApplications)
+      .innerJoin(gigs, eq(gigApplications.gigId, gigs.gigId))
+      .where(and(
+        eq(gigs.employerId, employerId),
+        eq(gigApplications.workerId, workerId),
+        eq(gigApplications.status, "worker_confirmed")
+      ))
+      .limit(1);
+
+    return !!application;
+  }
+
+  /**
+   * 獲取商家的人才庫，附上評分與出勤統計並依條件篩選
+   * 統計以子查詢彙總，篩選與分頁皆在資料庫中完成
+   */
+  static async getPool(
+    employerId: string,
+    filters: TalentPoolFilters,
+    limit: number,
+    offset: number,
+  ) {
+    // 只彙總此商家人才庫中的打工者
+    const poolWorkerIds = dbClient
+      .select({ workerId: talentPoolEntries.workerId })
+      .from(talentPoolEntries)
+      .where(eq(talentPoolEntries.employerId, employerId));
+
+    const ratingStats = dbClient
+      .select({
+        workerId: workerRatings.workerId,
+        totalRatings: sql<number>`COUNT(*)::int`.as("total_ratings"),
+        averageRating: sql<string>`ROUND(AVG(${workerRatings.ratingValue}), 2)`.as("average_rating"),
+      })
+      .from(workerRatings)
+      .where(inArray(workerRatings.workerId, poolWorkerIds))
+      .groupBy(workerRatings.workerId)
+      .as("rating_stats");
+
+    // 與 WorkerReliability 相同：已被駁回的打卡不算出勤
+    const attendanceStats = dbClient
+      .select({
+        workerId: attendanceRecords.workerId,
+        attendedShifts: sql<number>`COUNT(DISTINCT (${attendanceRecords.gigId}, ${attendanceRecords.workDate}))::int`.as("attended_shifts"),
+      })
+      .from(attendanceRecords)
+      .where(and(
+        inArray(attendanceRecords.workerId, poolWorkerIds),
+        eq(attendanceRecords.checkType, "check_in"),
+        ne(attendanceRecords.reviewStatus, "rejected")
+      ))
+      .groupBy(attendanceRecords.workerId)
+      .as("attendance_stats");
+
+    const noShowStats = dbClient
+      .select({
+        workerId: noShowRecords.workerId,
+        noShows: sql<number>`COUNT(*)::int`.as("no_shows"),
+      })
+      .from(noShowRecords)
+      .where(inArray(noShowRecords.workerId, poolWorkerIds))
+      .groupBy(noShowRecords.workerId)
+      .as("no_show_stats");
+
+    const attendedShifts = sql<number>`COALESCE(${attendanceStats.attendedShifts}, 0)`;
+    const noShows = sql<number>`COALESCE(${noShowStats.noShows}, 0)`;
+
+    // 尚無應到班次時為 null
+    const attendanceRate = sql<number | null>`CASE WHEN ${attendedShifts} + ${noShows} > 0 THEN ROUND(${attendedShifts} * 100.0 / (${attendedShifts} + ${noShows}))::int END`;
+
+    const whereConditions = [eq(talentPoolEntries.employerId, employerId)];
+
+    if (filters.tag) {
+      whereConditions.push(sql`${talentPoolEntries.tags}::jsonb @> ${JSON.stringify([filters.tag])}::jsonb`);
+    }
+
+    if (filters.minRating !== undefined) {
+      whereConditions.push(sql`COALESCE(${ratingStats.averageRating}, 0) >= ${filters.minRating}`);
+    }
+
+    if (filters.minAttendanceRate !== undefined) {
+      whereConditions.push(sql`COALESCE(${attendanceRate}, 0) >= ${filters.minAttendanceRate}`);
+    }
+
+    const entries = await dbClient
+      .select({
+        entryId: talentPoolEntries.entryId,
+        workerId: talentPoolEntries.workerId,
+        tags: talentPoolEntries.tags,
+        note: talentPoolEntries.note,
+        createdAt: talentPoolEntries.createdAt,
+        updatedAt: talentPoolEntries.updatedAt,
+        firstName: workers.firstName,
+        lastName: workers.lastName,
+        profilePhoto: workers.profilePhoto,
+        totalRatings: sql<number>`COALESCE(${ratingStats.totalRatings}, 0)`,
+        averageRating: ratingStats.averageRating,
+        attendedShifts,
+        noShows,
+        attendanceRate,
+      })
+      .from(talentPoolEntries)
+      .innerJoin(workers, eq(talentPoolEntries.workerId, workers.workerId))
+      .leftJoin(ratingStats, eq(ratingStats.workerId, talentPoolEntries.workerId))
+      .leftJoin(attendanceStats, eq(attendanceStats.workerId, talentPoolEntries.workerId))
+      .leftJoin(noShowStats, eq(noShowStats.workerId, talentPoolEntries.workerId))
+      .where(and(...whereConditions))
+      .orderBy(desc(talentPoolEntries.createdAt), desc(talentPoolEntries.entryId))
+      .limit(limit + 1)
+      .offset(offset);
+
+    const hasMore = entries.length > limit;
+    const entriesInPage = entries.slice(0, limit);
+
+    // 可靠度分數只計算此頁的打工者
+    const reliability = await WorkerReliability.getByWorkerIds(entriesInPage.map(entry => entry.workerId));
+
+    const pool = entriesInPage.map(({ firstName, lastName, totalRatings, averageRating, attendedShifts, noShows, attendanceRate, ...entry }) => ({
+      ...entry,
+      workerName: `${firstName} ${lastName}`,
+      rating: {
+        totalRatings: Number(totalRatings),
+        averageRating: averageRating !== null ? Number(averageRating) : null,
+      },
+      attendance: {
+        attendedShifts: Number(attendedShifts),
+        noShows: Number(noShows),
+        attendanceRate: attendanceRate !== null ? Number(attendanceRate) : null,
+      },
+      reliabilityScore: reliability[entry.workerId].score,
+    }));
+
+    return { pool, hasMore };
+  }
+}
+
+export default TalentPoolManager;
@@ -0,0 +1,265 @@
+import dbClient from "../Client/DrizzleClient";
+import { gigs, gigApplications, gigWaitlist, workers, employerBlocks } from "../Schema/DatabaseSchema";
+import { eq, and, asc, lt, inArray, count, sql } from "drizzle-orm";
+import ApplicationStateMachine, { type ApplicationStatus } from "./ApplicationStateMachine";
+import GigShiftManager from "./GigShiftManager";
+
+// 可在交易 (transaction) 內外共用的資料庫操作介面
+type DbExecutor = Pick<typeof dbClient, "select" | "insert" | "update" | "delete">;
+
+export type ApproveResult =
+  | { status: "offered" }
+  | { status: "waitlisted"; position: number }
+  // 申請已不在待審核狀態（例如同時被取消或已審核）
+  | { status: "not_pending"; currentStatus: ApplicationStatus | null };
+
+export class WaitlistManager {
+  // 佔用名額的申請狀態（已發出邀請或已確認）
+  static readonly OCCUPYING_STATUSES = ["pending_worker_confirmation", "worker_confirmed"] as const;
+
+  // 候補遞補時寫入狀態歷程的原因
+  static readonly PROMOTION_REASON = "候補名單遞補";
+
+  /**
+   * 計算工作目前已被佔用的名額
+   */
+  static async countOccupiedSlots(executor: DbExecutor, gigId: string): Promise<number> {
+    const [result] = await executor
+      .select({ count: count() })
+      .from(gigApplications)
+      .where(and(
+        eq(gigApplications.gigId, gigId),
+        inArray(gigApplications.status, [...this.OCCUPYING_STATUSES])
+      ));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * 計算工作可提供的名額：工作需求人數與尚未開始班次人數的最小值
+   * 確認的打工者須出席每個班次，人數最少的班次決定可錄取的人數
+   */
+  static async getCapacity(executor: DbExecutor, gigId: string, gigHeadcount: number): Promise<number> {
+    const shiftHeadcount = await GigShiftManager.getMinUpcomingHeadcount(executor, gigId);
+    return shiftHeadcount === null ? gigHeadcount : Math.min(gigHeadcount, shiftHeadcount);
+  }
+
+  /**
+   * 計算申請在候補名單中的順位（從 1 開始），不在名單中則回傳 null
+   */
+  static async getPosition(executor: DbExecutor, applicationId: string): Promise<number | null> {
+    const [entry] = await executor
+      .select({ gigId: gigWaitlist.gigId, createdAt: gigWaitlist.createdAt })
+      .from(gigWaitlist)
+      .where(eq(gigWaitlist.applicationId, applicationId))
+      .limit(1);
+
+    if (!entry) {
+      return null;
+    }
+
+    const [ahead] = await executor
+      .select({ count: count() })
+      .from(gigWaitlist)
+      .where(and(
+        eq(gigWaitlist.gigId, entry.gigId),
+        lt(gigWaitlist.createdAt, entry.createdAt)
+      ));
+
+    return (ahead?.count ?? 0) + 1;
+  }
+
+  /**
+   * 企業核准申請：有名額時發出邀請，名額已滿時排入候補名單
+   * 以鎖定工作資料列的方式避免同時核准造成超額，並鎖定申請確認仍在待審核狀態
+   */
+  static async approveOrWaitlist(gigId: string, applicationId: string, employerId: string): Promise<ApproveResult> {
+    const result = await dbClient.transaction(async (tx): Promise<ApproveResult> => {
+      const [gig] = await tx
+        .select({ headcount: gigs.headcount })
+        .from(gigs)
+        .where(eq(gigs.gigId, gigId))
+        .for("update");
+
+      const [application] = await tx
+        .select({ status: gigApplications.status })
+        .from(gigApplications)
+        .where(eq(gigApplications.applicationId, applicationId))
+        .for("update");
+
+      if (application?.status !== "pending_employer_review") {
+        return { status: "not_pending", currentStatus: application?.status ?? null };
+      }
+
+      const occupied = await this.countOccupiedSlots(tx, gigId);
+
+      if (occupied < await this.getCapacity(tx, gigId, gig.headcount)) {
+        const transition = await ApplicationStateMachine.transition(tx, applicationId, "pending_worker_confirmation", {
+          actor: "employer",
+          actorId: employerId,
+        });
+
+        if (!transition.success) {
+          return { status: "not_pending", currentStatus: transition.from };
+        }
+
+        return { status: "offered" };
+      }
+
+      await tx
+        .insert(gigWaitlist)
+        .values({ gigId, applicationId })
+        .onConflictDoNothing({ target: gigWaitlist.applicationId });
+
+      return {
+        status: "waitlisted",
+        position: await this.getPosition(tx, applicationId),
+      };
+    });
+
+    if (result.status === "offered") {
+      await ApplicationStateMachine.runSideEffects(applicationId, "pending_employer_review", "pending_worker_confirmation", {
+        actor: "employer",
+        actorId: employerId,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 將申請移出候補名單
+   */
+  static async removeFromWaitlist(executor: DbExecutor, applicationId: string): Promise<void> {
+    await executor
+      .delete(gigWaitlist)
+      .where(eq(gigWaitlist.applicationId, applicationId));
+  }
+
+  /**
+   * 依候補順序將空出的名額遞補給下一位，並通知被遞補的打工者
+   * 已不在待審核狀態的候補（例如已取消）會直接移出名單，被商家封鎖的打工者不會被遞補
+   * @returns 被遞補的申請 ID 列表
+   */
+  static async promoteNext(gigId: string): Promise<string[]> {
+    const promoted = await dbClient.transaction(async (tx) => {
+      const [gig] = await tx
+        .select({ headcount: gigs.headcount, employerId: gigs.employerId })
+        .from(gigs)
+        .where(eq(gigs.gigId, gigId))
+        .for("update");
+
+      if (!gig) {
+        return [];
+      }
+
+      let available = await this.getCapacity(tx, gigId, gig.headcount) - await this.countOccupiedSlots(tx, gigId);
+
+      if (available <= 0) {
+        return [];
+      }
+
+      const entries = await tx
+        .select({
+          waitlistId: gigWaitlist.waitlistId,
+          applicationId: gigWaitlist.applicationId,
+          workerId: gigApplications.workerId,
+          status: gigApplications.status,
+        })
+        .from(gigWaitlist)
+        .innerJoin(gigApplications, eq(gigWaitlist.applicationId, gigApplications.applicationId))
+        .where(and(
+          eq(gigWaitlist.gigId, gigId),
+          sql`NOT EXISTS (SELECT 1 FROM ${employerBlocks} WHERE ${employerBlocks.employerId} = ${gig.employerId} AND ${employerBlocks.workerId} = ${gigApplications.workerId})`
+        ))
+        .orderBy(asc(gigWaitlist.createdAt));
+
+      const promotedEntries: Array<{ applicationId: string; workerId: string }> = [];
+      const processedIds: string[] = [];
+
+      for (const entry of entries) {
+        if (available <= 0) {
+          break;
+        }
+
+        processedIds.push(entry.waitlistId);
+
+        if (entry.status !== "pending_employer_review") {
+          continue;
+        }
+
+        promotedEntries.push({ applicationId: entry.applicationId, workerId: entry.workerId });
+        available--;
+      }
+
+      if (processedIds.length > 0) {
+        await tx.delete(gigWaitlist).where(inArray(gigWaitlist.waitlistId, processedIds));
+      }
+
+      if (promotedEntries.length > 0) {
+        await ApplicationStateMachine.transitionMany(
+          tx,
+          promotedEntries.map(entry => entry.applicationId),
+          "pending_worker_confirmation",
+          { actor: "system", reason: this.PROMOTION_REASON }
+        );
+      }
+
+      return promotedEntries;
+    });
+
+    for (const entry of promoted) {
+      await ApplicationStateMachine.runSideEffects(entry.applicationId, "pending_employer_review", "pending_worker_confirmation", {
+        actor: "system",
+        reason: this.PROMOTION_REASON,
+      });
+    }
+
+    return promoted.map(entry => entry.applicationId);
+  }
+
+  /**
+   * 獲取工作的名額使用情況與候補名單
+   */
+  static async getWaitlist(gigId: string) {
+    const gig = await dbClient.query.gigs.findFirst({
+      where: eq(gigs.gigId, gigId),
+      columns: { headcount: true },
+    });
+
+    const capacity = gig ? await this.getCapacity(dbClient, gigId, gig.headcount) : 0;
+    const occupied = await this.countOccupiedSlots(dbClient, gigId);
+
+    const entries = await dbClient
+      .select({
+        applicationId: gigWaitlist.applicationId,
+        workerId: workers.workerId,
+        firstName: workers.firstName,
+        lastName: workers.lastName,
+        waitlistedAt: gigWaitlist.createdAt,
+      })
+      .from(gigWaitlist)
+      .innerJoin(gigApplications, eq(gigWaitlist.applicationId, gigApplications.applicationId))
+      .innerJoin(workers, eq(gigApplications.workerId, workers.workerId))
+      .where(and(
+        eq(gigWaitlist.gigId, gigId),
+        eq(gigApplications.status, "pending_employer_review")
+      ))
+      .orderBy(asc(gigWaitlist.createdAt));
+
+    return {
+      headcount: capacity,
+      occupied,
+      available: Math.max(0, capacity - occupied),
+      waitlist: entries.map((entry, index) => ({
+        position: index + 1,
+        applicationId: entry.applicationId,
+        workerId: entry.workerId,
+        workerName: `${entry.firstName} ${entry.lastName}`,
+        waitlistedAt: entry.waitlistedAt,
+      })),
+    };
+  }
+}
+
+export default WaitlistManager;
@@ -0,0 +1,128 @@
+import dbClient from "../Client/DrizzleClient";
+import { attendanceRecords, noShowRecords, gigApplications, applicationCancellations } from "../Schema/DatabaseSchema";
+import { and, eq, ne, inArray, count, sql } from "drizzle-orm";
+
+export interface WorkerReliabilityStats {
+  // 可靠度分數（0 ~ 100），尚無任何出勤或確認記錄時為 null
+  score: number | null;
+  attendedShifts: number;
+  lateShifts: number;
+  noShows: number;
+  confirmedApplications: number;
+  // 確認後取消的次數與其中的臨時取消次數
+  cancelledApplications: number;
+  lateCancellations: number;
+}
+
+export class WorkerReliability {
+  // 分數權重：出勤率、準時率、未臨時取消率
+  private static readonly ATTENDANCE_WEIGHT = 0.6;
+  private static readonly PUNCTUALITY_WEIGHT = 0.2;
+  private static readonly COMMITMENT_WEIGHT = 0.2;
+
+  /**
+   * 依出勤、遲到與取消記錄計算可靠度分數
+   * 出勤率 = 有上班打卡的班次 / (有上班打卡的班次 + 未到班)
+   * 準時率 = 1 - 遲到班次 / 有上班打卡的班次
+   * 未臨時取消率 = 1 - 臨時取消 / (已確認 + 確認後取消)，在免費取消期限前取消不扣分
+   */
+  static calculateScore(stats: Omit<WorkerReliabilityStats, "score">): number | null {
+    const expectedShifts = stats.attendedShifts + stats.noShows;
+    const committedApplications = stats.confirmedApplications + stats.cancelledApplications;
+
+    if (expectedShifts === 0 && committedApplications === 0) {
+      return null;
+    }
+
+    const attendanceRate = expectedShifts > 0 ? stats.attendedShifts / expectedShifts : 1;
+    const punctualityRate = stats.attendedShifts > 0 ? 1 - stats.lateShifts / stats.attendedShifts : 1;
+    const commitmentRate = committedApplications > 0 ? 1 - stats.lateCancellations / committedApplications : 1;
+
+    const score =
+      this.ATTENDANCE_WEIGHT * attendanceRate +
+      this.PUNCTUALITY_WEIGHT * punctualityRate +
+      this.COMMITMENT_WEIGHT * commitmentRate;
+
+    return Math.round(score * 100);
+  }
+
+  /**
+   * 批次獲取多位打工者的可靠度統計，依 workerId 分組
+   */
+  static async getByWorkerIds(workerIds: string[]): Promise<Record<string, WorkerReliabilityStats>> {
+    const result: Record<string, WorkerReliabilityStats> = {};
+    const uniqueWorkerIds = [...new Set(workerIds)];
+
+    if (uniqueWorkerIds.length === 0) {
+      return result;
+    }
+
+    // 已被駁回的打卡不算出勤
+    const attendanceStats = await dbClient
+      .select({
+        workerId: attendanceRecords.workerId,
+        attendedShifts: sql<number>`COUNT(DISTINCT (${attendanceRecords.gigId}, ${attendanceRecords.workDate}))::int`,
+        lateShifts: sql<number>`COUNT(DISTINCT (${attendanceRecords.gigId}, ${attendanceRecords.workDate})) FILTER (WHERE ${attendanceRecords.status} = 'late')::int`,
+      })
+      .from(attendanceRecords)
+      .where(and(
+        inArray(attendanceRecords.workerId, uniqueWorkerIds),
+        eq(attendanceRecords.checkType, "check_in"),
+        ne(attendanceRecords.reviewStatus, "rejected")
+      ))
+      .groupBy(attendanceRecords.workerId);
+
+    const noShowStats = await dbClient
+      .select({
+        workerId: noShowRecords.workerId,
+        noShows: count(),
+      })
+      .from(noShowRecords)
+      .where(inArray(noShowRecords.workerId, uniqueWorkerIds))
+      .groupBy(noShowRecords.workerId);
+
+    const applicationStats = await dbClient
+      .select({
+        workerId: gigApplications.workerId,
+        confirmedApplications: count(),
+      })
+      .from(gigApplications)
+      .where(and(
+        inArray(gigApplications.workerId, uniqueWorkerIds),
+        eq(gigApplications.status, "worker_confirmed")
+      ))
+      .groupBy(gigApplications.workerId);
+
+    const cancellationStats = await dbClient
+      .select({
+        workerId: applicationCancellations.workerId,
+        cancelledApplications: count(),
+        lateCancellations: sql<number>`COUNT(*) FILTER (WHERE ${applicationCancellations.isLate})::int`,
+      })
+      .from(applicationCancellations)
+      .where(inArray(applicationCancellations.workerId, uniqueWorkerIds))
+      .groupBy(applicationCancellations.workerId);
+
+    const attendanceMap = new Map(attendanceStats.map(stat => [stat.workerId, stat]));
+    const noShowMap = new Map(noShowStats.map(stat => [stat.workerId, stat.noShows]));
+    const applicationMap = new Map(applicationStats.map(stat => [stat.workerId, stat.confirmedApplications]));
+    const cancellationMap = new Map(cancellationStats.map(stat => [stat.workerId, stat]));
+
+    for (const workerId of uniqueWorkerIds) {
+      const stats = {
+        attendedShifts: Number(attendanceMap.get(workerId)?.attendedShifts ?? 0),
+        lateShifts: Number(attendanceMap.get(workerId)?.lateShifts ?? 0),
+        noShows: Number(noShowMap.get(workerId) ?? 0),
+        confirmedApplications: Number(applicationMap.get(workerId) ?? 0),
+        cancelledApplications: Number(cancellationMap.get(workerId)?.cancelledApplications ?? 0),
+        lateCancellations: Number(cancellationMap.get(workerId)?.lateCancellations ?? 0),
+      };
+
+      result[workerId] = { score: this.calculateScore(stats), ...stats };
+    }
+
+    return result;
+  }
+}
+
+export default WorkerReliability;
@@ -12,4 +12,8 @@ export const fcmConfig = {
     projectId: process.env.FIREBASE_PROJECT_ID,
     privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
     clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+};
+
+export const geocodingConfig = {
+    apiKey: process.env.GOOGLE_MAPS_API_KEY,
 };
\ No newline at end of file
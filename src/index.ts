@@ -8,6 +8,8 @@ import { hash } from "@node-rs/argon2";
 import { Glob } from "bun";
 import type IRouter from "./Interfaces/IRouter";
 import redisClient from "./Client/RedisClient";
+import CronManager from "./Utils/CronManager";
+import DeliveryQueue from "./Utils/DeliveryQueue";
 
 const app = new Hono<HonoGenericContext>();
 
@@ -88,18 +90,11 @@ async function initializeSystem() {
     console.error("❌ Redis 快取連接失敗:", error);
   }
 
-  /*
-  // 初始化 Cron 任務
-  try {
-    const cronInitialized = await CronManager.initializeCronJobs();
+  // 初始化排程任務（pg_cron 或程式內排程）與未到班偵測
+  await CronManager.initializeScheduler();
 
-    if (cronInitialized) {
-      console.log("✅ Cron 任務初始化完成");
-    }
-  } catch (error) {
-    console.error("❌ Cron 任務初始化過程中發生錯誤:", error);
-  }
-  */
+  // 啟動推播與郵件發送佇列的背景工作
+  DeliveryQueue.startWorker();
 }
 
 // 在應用啟動時初始化系統